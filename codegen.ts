@@ -0,0 +1,22 @@
+import type { CodegenConfig } from "@graphql-codegen/cli";
+
+const config: CodegenConfig = {
+  schema: "src/api/schema.graphql",
+  documents: "src/api/operations/*.graphql",
+  generates: {
+    "src/api/generated.ts": {
+      plugins: ["typescript", "typescript-operations"],
+      config: {
+        onlyOperationTypes: true,
+        enumsAsTypes: true,
+        skipTypename: true,
+        scalars: {
+          JSONString: "string",
+          DateTime: "string",
+        },
+      },
+    },
+  },
+};
+
+export default config;
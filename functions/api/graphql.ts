@@ -0,0 +1,457 @@
+import {
+  Kind,
+  parse,
+  print,
+  visit,
+  type DocumentNode,
+  type FieldNode,
+  type OperationDefinitionNode,
+} from "graphql";
+
+import { errorResponse, jsonResponse, readJsonBody } from "../../server/http";
+import {
+  parseMaxAge,
+  readInitDataHeader,
+  validateInitData,
+  type ValidatedInitData,
+} from "../../server/initData";
+import { priceOptionLines } from "../../server/optionPrices";
+import { saleorRequest } from "../../server/saleor";
+
+interface Env {
+  VITE_SALEOR_API_URL: string;
+  TELEGRAM_BOT_TOKEN: string;
+  // Token of a Saleor app without permissions. `channels` needs an app
+  // token; everything else the storefront sends works without one. Never
+  // use the `MANAGE_ORDERS` token of /api/orders here.
+  SALEOR_STOREFRONT_TOKEN?: string;
+  // Only used by the proxy itself, never for client documents: its
+  // HANDLE_CHECKOUTS permission sets the price of lines with paid options.
+  SALEOR_APP_TOKEN?: string;
+  // Maximum age of `auth_date` in seconds (defaults to 24 hours).
+  INIT_DATA_MAX_AGE?: string;
+  // "true" lets browser sessions without init data through as guests.
+  ALLOW_ANONYMOUS?: string;
+  // Set when orders are paid through /api/invoice. Checkouts with something
+  // to pay are then only completed by the bot webhook.
+  VITE_PAYMENTS_API_URL?: string;
+}
+
+type GraphQLBody = {
+  query?: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+};
+
+type MetadataEntry = {
+  key: string;
+  value: string;
+};
+
+type AllowedOperation = {
+  type: "query" | "mutation";
+  // Root fields the operation may select.
+  fields: string[];
+};
+
+// The operations in src/api/operations; anything else is rejected.
+const ALLOWED_OPERATIONS: Record<string, AllowedOperation> = {
+  Channels: { type: "query", fields: ["channels"] },
+  StoreCollections: { type: "query", fields: ["collections"] },
+  StoreCollection: { type: "query", fields: ["collection"] },
+  CollectionProducts: { type: "query", fields: ["collection"] },
+  ProductsByIds: { type: "query", fields: ["products"] },
+  ProductsBySlugs: { type: "query", fields: ["products"] },
+  SearchProducts: { type: "query", fields: ["products"] },
+  CheckoutCreate: { type: "mutation", fields: ["checkoutCreate"] },
+  CheckoutLinesAdd: { type: "mutation", fields: ["checkoutLinesAdd"] },
+  CheckoutLinesUpdate: { type: "mutation", fields: ["checkoutLinesUpdate"] },
+  CheckoutLinesDelete: { type: "mutation", fields: ["checkoutLinesDelete"] },
+  CheckoutAddressesUpdate: {
+    type: "mutation",
+    fields: ["checkoutShippingAddressUpdate", "checkoutBillingAddressUpdate"],
+  },
+  CheckoutBillingAddressUpdate: {
+    type: "mutation",
+    fields: ["checkoutBillingAddressUpdate"],
+  },
+  CheckoutEmailUpdate: { type: "mutation", fields: ["checkoutEmailUpdate"] },
+  CheckoutDeliveryMethodUpdate: {
+    type: "mutation",
+    fields: ["checkoutDeliveryMethodUpdate"],
+  },
+  CheckoutAddPromoCode: { type: "mutation", fields: ["checkoutAddPromoCode"] },
+  CheckoutRemovePromoCode: {
+    type: "mutation",
+    fields: ["checkoutRemovePromoCode"],
+  },
+  CheckoutMetadataUpdate: { type: "mutation", fields: ["updateMetadata"] },
+  CheckoutComplete: { type: "mutation", fields: ["checkoutComplete"] },
+};
+
+// Metadata keys the proxy owns; values sent by the client are replaced.
+const TRUSTED_METADATA_KEYS = ["telegram_user_id", "telegram_username"];
+
+// Checkout metadata keys the client may set with `updateMetadata`.
+const CLIENT_METADATA_KEYS = ["order_time", "order_time_local"];
+
+// Arguments and input fields that carry metadata; they must be variables so
+// the proxy can check their keys.
+const METADATA_ARGUMENTS = ["metadata", "privateMetadata"];
+
+// Root fields after which the proxy prices the checkout's option lines.
+const LINE_FIELDS = [
+  "checkoutCreate",
+  "checkoutLinesAdd",
+  "checkoutLinesUpdate",
+];
+
+const CHECKOUT_TOTAL_QUERY = `
+  query ProxyCheckoutTotal($id: ID!) {
+    checkout(id: $id) {
+      totalPrice {
+        gross {
+          amount
+        }
+      }
+    }
+  }
+`;
+
+class PolicyError extends Error {}
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  const initDataRaw = readInitDataHeader(request);
+
+  let auth: ValidatedInitData | null = null;
+  if (initDataRaw) {
+    try {
+      auth = await validateInitData(
+        initDataRaw,
+        env.TELEGRAM_BOT_TOKEN,
+        parseMaxAge(env.INIT_DATA_MAX_AGE),
+      );
+    } catch (error: any) {
+      return errorResponse(error.message || "Invalid init data.", 401);
+    }
+  } else if (env.ALLOW_ANONYMOUS !== "true") {
+    return errorResponse("Telegram init data is required.", 401);
+  }
+
+  const body = await readJsonBody<GraphQLBody>(request);
+  if (!body?.query) {
+    return errorResponse("A GraphQL query is required.", 400);
+  }
+
+  let document: DocumentNode;
+  let variables: Record<string, unknown>;
+  // Variables of the `checkoutComplete` check below.
+  let completion: { id: unknown } | null = null;
+  // The line mutation whose checkout gets option prices.
+  let lineField: FieldNode | undefined;
+  try {
+    let operation: OperationDefinitionNode;
+    ({ document, operation } = checkOperation(body));
+    variables = applyTrustedMetadata(operation, body.variables || {}, auth);
+    const complete = findRootField(operation, "checkoutComplete");
+    if (complete) {
+      completion = { id: variables[readVariableArgument(complete, "id")] };
+    }
+    lineField = LINE_FIELDS.map((name) => findRootField(operation, name)).find(
+      Boolean,
+    );
+  } catch (error) {
+    if (error instanceof PolicyError) {
+      return errorResponse(error.message, 403);
+    }
+    return errorResponse("The GraphQL document is invalid.", 400);
+  }
+
+  if (completion) {
+    let total: number | undefined;
+    try {
+      // Lines the line mutations could not price are priced before the order
+      // is placed.
+      if (env.SALEOR_APP_TOKEN) {
+        await priceOptionLines(env, String(completion.id));
+      }
+      if (env.VITE_PAYMENTS_API_URL) {
+        const data = await saleorRequest(
+          env.VITE_SALEOR_API_URL,
+          CHECKOUT_TOTAL_QUERY,
+          completion,
+          env.SALEOR_STOREFRONT_TOKEN,
+        );
+        total = data?.checkout?.totalPrice?.gross?.amount;
+      }
+    } catch (error) {
+      console.error(error);
+      return errorResponse("Saleor is unreachable.", 502);
+    }
+    // With payments the bot webhook completes paid checkouts; the client may
+    // only complete those with nothing to pay, e.g. covered by a gift card.
+    if (env.VITE_PAYMENTS_API_URL && total !== 0) {
+      return errorResponse("This order has to be paid first.", 403);
+    }
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (env.SALEOR_STOREFRONT_TOKEN) {
+    headers.Authorization = `Bearer ${env.SALEOR_STOREFRONT_TOKEN}`;
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(env.VITE_SALEOR_API_URL, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        query: body.query,
+        variables,
+        operationName: body.operationName ?? undefined,
+      }),
+    });
+  } catch (error) {
+    console.error(error);
+    return errorResponse("Saleor is unreachable.", 502);
+  }
+
+  if (lineField && env.SALEOR_APP_TOKEN && upstream.ok) {
+    const payload = await upstream.json<GraphQLPayload>();
+    try {
+      await applyOptionPrices(env, document, lineField, variables, payload);
+    } catch (error) {
+      console.error(error);
+      return errorResponse("The option prices could not be applied.", 502);
+    }
+    return jsonResponse(payload, upstream.status);
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      "Content-Type":
+        upstream.headers.get("Content-Type") || "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+};
+
+/**
+ * Accepts a document with exactly one of the app's operations, selecting
+ * only that operation's root fields, each once and without an alias, and
+ * with metadata passed as variables.
+ * Throws `PolicyError` for anything else.
+ */
+function checkOperation(body: GraphQLBody) {
+  const document: DocumentNode = parse(body.query || "");
+
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode =>
+      definition.kind === Kind.OPERATION_DEFINITION,
+  );
+  if (
+    operations.length !== 1 ||
+    document.definitions.some(
+      (definition) =>
+        definition.kind !== Kind.OPERATION_DEFINITION &&
+        definition.kind !== Kind.FRAGMENT_DEFINITION,
+    )
+  ) {
+    throw new PolicyError("Send exactly one operation per request.");
+  }
+
+  const [operation] = operations;
+  const name = operation.name?.value || "";
+  const allowed = ALLOWED_OPERATIONS[name];
+  if (
+    !allowed ||
+    operation.operation !== allowed.type ||
+    (body.operationName && body.operationName !== name)
+  ) {
+    throw new PolicyError(`Operation ${name || "(anonymous)"} is not allowed.`);
+  }
+
+  // Each root field once and without an alias, so the checks below see every
+  // mutation Saleor runs.
+  const selected = new Set<string>();
+  operation.selectionSet.selections.forEach((selection) => {
+    if (
+      selection.kind !== Kind.FIELD ||
+      !allowed.fields.includes(selection.name.value)
+    ) {
+      throw new PolicyError(`Operation ${name} selects a field it may not.`);
+    }
+    if (selection.alias || selected.has(selection.name.value)) {
+      throw new PolicyError(`Operation ${name} repeats or aliases a field.`);
+    }
+    selected.add(selection.name.value);
+  });
+
+  visit(document, {
+    Argument(node) {
+      if (
+        METADATA_ARGUMENTS.includes(node.name.value) &&
+        node.value.kind !== Kind.VARIABLE
+      ) {
+        throw new PolicyError("Metadata must be passed as a variable.");
+      }
+    },
+    ObjectField(node) {
+      if (
+        METADATA_ARGUMENTS.includes(node.name.value) &&
+        node.value.kind !== Kind.VARIABLE
+      ) {
+        throw new PolicyError("Metadata must be passed as a variable.");
+      }
+    },
+  });
+
+  return { document, operation };
+}
+
+function findRootField(operation: OperationDefinitionNode, name: string) {
+  return operation.selectionSet.selections.find(
+    (selection): selection is FieldNode =>
+      selection.kind === Kind.FIELD && selection.name.value === name,
+  );
+}
+
+// Name of the variable passed as `argument` of `field`; literal values are
+// rejected so the proxy always sees what Saleor receives.
+function readVariableArgument(field: FieldNode, argument: string) {
+  const node = field.arguments?.find(({ name }) => name.value === argument);
+  if (!node || node.value.kind !== Kind.VARIABLE) {
+    throw new PolicyError(`${field.name.value} needs $${argument} variables.`);
+  }
+  return node.value.name.value;
+}
+
+/**
+ * Overwrites the Telegram identity in the `checkoutCreate` input with the
+ * values from the validated init data, and limits `updateMetadata` to
+ * checkouts and to the keys the app writes.
+ */
+function applyTrustedMetadata(
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown>,
+  auth: ValidatedInitData | null,
+) {
+  const update = findRootField(operation, "updateMetadata");
+  if (update) {
+    const idName = readVariableArgument(update, "id");
+    const inputName = readVariableArgument(update, "input");
+    if (readGlobalIdType(variables[idName]) !== "Checkout") {
+      throw new PolicyError("Only checkout metadata can be updated.");
+    }
+    const entries = variables[inputName];
+    if (
+      !Array.isArray(entries) ||
+      entries.some(
+        (entry: MetadataEntry) => !CLIENT_METADATA_KEYS.includes(entry?.key),
+      )
+    ) {
+      throw new PolicyError("These metadata keys cannot be updated.");
+    }
+    return variables;
+  }
+
+  const create = findRootField(operation, "checkoutCreate");
+  if (!create) {
+    return variables;
+  }
+
+  const inputName = readVariableArgument(create, "input");
+  const input = variables[inputName] as
+    | { metadata?: unknown; privateMetadata?: unknown }
+    | undefined;
+  if (!input || typeof input !== "object") {
+    return variables;
+  }
+
+  const metadata = (
+    Array.isArray(input.metadata) ? (input.metadata as MetadataEntry[]) : []
+  ).filter((entry) => !TRUSTED_METADATA_KEYS.includes(entry?.key));
+  metadata.push(
+    {
+      key: "telegram_user_id",
+      value: auth?.user?.id ? String(auth.user.id) : "guest",
+    },
+    {
+      key: "telegram_username",
+      value: auth?.user?.username || "",
+    },
+  );
+
+  // Private metadata is for the server only.
+  const { privateMetadata: _privateMetadata, ...rest } = input;
+  return { ...variables, [inputName]: { ...rest, metadata } };
+}
+
+// Saleor IDs are base64 of `<Type>:<id>`.
+function readGlobalIdType(id: unknown) {
+  if (typeof id !== "string") return "";
+  try {
+    return atob(id).split(":")[0];
+  } catch {
+    return "";
+  }
+}
+
+type GraphQLPayload = {
+  data?: Record<string, Record<string, any> | null> | null;
+};
+
+/**
+ * Prices the option lines of the checkout a line mutation returned and, when
+ * a price changed, replaces the checkout in `payload` with a fresh read of
+ * the fields the client selected.
+ */
+async function applyOptionPrices(
+  env: Env,
+  document: DocumentNode,
+  field: FieldNode,
+  variables: Record<string, unknown>,
+  payload: GraphQLPayload,
+) {
+  const result = payload.data?.[field.name.value];
+  if (!result || result.errors?.length) {
+    return;
+  }
+  const selection = field.selectionSet?.selections.find(
+    (node): node is FieldNode =>
+      node.kind === Kind.FIELD && node.name.value === "checkout",
+  );
+  const key = selection?.alias?.value || "checkout";
+  const idArgument = field.arguments?.find(({ name }) => name.value === "id");
+  const checkoutId =
+    result[key]?.id ??
+    (idArgument?.value.kind === Kind.VARIABLE
+      ? variables[idArgument.value.name.value]
+      : undefined);
+  if (typeof checkoutId !== "string") {
+    return;
+  }
+
+  const repriced = await priceOptionLines(env, checkoutId);
+  if (!repriced || !selection?.selectionSet || !result[key]) {
+    return;
+  }
+
+  const fragments = document.definitions.filter(
+    (definition) => definition.kind === Kind.FRAGMENT_DEFINITION,
+  );
+  const query = [
+    `query ProxyCheckout($id: ID!) { checkout(id: $id) ${print(selection.selectionSet)} }`,
+    ...fragments.map((fragment) => print(fragment)),
+  ].join("\n");
+  const data = await saleorRequest(
+    env.VITE_SALEOR_API_URL,
+    query,
+    { id: checkoutId },
+    env.SALEOR_STOREFRONT_TOKEN,
+  );
+  result[key] = data?.checkout ?? result[key];
+}
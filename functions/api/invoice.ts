@@ -0,0 +1,271 @@
+import { errorResponse, jsonResponse, readJsonBody } from "../../server/http";
+import {
+  parseMaxAge,
+  readInitDataHeader,
+  validateInitData,
+} from "../../server/initData";
+import {
+  completePaidCheckout,
+  findCheckoutOrder,
+  isCharged,
+  type PaymentsEnv,
+} from "../../server/payments";
+import { priceOptionLines } from "../../server/optionPrices";
+import { saleorRequest } from "../../server/saleor";
+import { callBotApi, toMinorUnits } from "../../server/telegram";
+
+interface Env extends PaymentsEnv {
+  // Empty for payments in Telegram Stars (XTR).
+  TELEGRAM_PAYMENT_PROVIDER_TOKEN?: string;
+  INIT_DATA_MAX_AGE?: string;
+}
+
+const CHECKOUT_TOTAL_QUERY = `
+  query InvoiceCheckout($id: ID!) {
+    checkout(id: $id) {
+      id
+      chargeStatus
+      storeSlug: metafield(key: "store_slug")
+      invoice: privateMetafield(key: "telegram_invoice")
+      lines {
+        quantity
+        variant {
+          name
+          product {
+            name
+          }
+        }
+      }
+      totalPrice {
+        gross {
+          amount
+          currency
+        }
+      }
+    }
+  }
+`;
+
+const SAVE_INVOICE_MUTATION = `
+  mutation SaveInvoice($id: ID!, $invoice: String!) {
+    updatePrivateMetadata(
+      id: $id
+      input: [{ key: "telegram_invoice", value: $invoice }]
+    ) {
+      errors {
+        message
+      }
+    }
+  }
+`;
+
+// Telegram limits invoice titles to 32 and descriptions to 255 characters.
+const TITLE_LIMIT = 32;
+const DESCRIPTION_LIMIT = 255;
+
+/**
+ * Returns the Telegram invoice link for a checkout. The link is saved in the
+ * checkout's private metadata and handed out again while the total is the
+ * same, so retrying never issues a second invoice. A checkout that is already
+ * charged gets `{ paid: true }` instead, and its completion is retried in
+ * case the bot webhook could not place the order.
+ */
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  const initDataRaw = readInitDataHeader(request);
+  if (!initDataRaw) {
+    return errorResponse("Telegram init data is required.", 401);
+  }
+  try {
+    await validateInitData(
+      initDataRaw,
+      env.TELEGRAM_BOT_TOKEN,
+      parseMaxAge(env.INIT_DATA_MAX_AGE),
+    );
+  } catch (error: any) {
+    return errorResponse(error.message || "Invalid init data.", 401);
+  }
+
+  if (!env.SALEOR_APP_TOKEN) {
+    return errorResponse("SALEOR_APP_TOKEN is not configured.", 503);
+  }
+
+  const body = await readJsonBody<{ checkoutId?: string }>(request);
+  const checkoutId = body?.checkoutId?.trim();
+  if (!checkoutId) {
+    return errorResponse("checkoutId is required.", 400);
+  }
+
+  // The amount is always read from Saleor; the client only names the checkout.
+  // Option lines the GraphQL proxy could not price are priced first.
+  let checkout: any;
+  try {
+    const loadCheckout = async () => {
+      const data = await saleorRequest(
+        env.VITE_SALEOR_API_URL,
+        CHECKOUT_TOTAL_QUERY,
+        { id: checkoutId },
+        env.SALEOR_APP_TOKEN,
+      );
+      return data?.checkout;
+    };
+    checkout = await loadCheckout();
+    if (
+      checkout &&
+      !isCharged(checkout) &&
+      (await priceOptionLines(env, checkout.id))
+    ) {
+      checkout = await loadCheckout();
+    }
+  } catch (error: any) {
+    console.error(error);
+    return errorResponse("Unable to load the checkout from Saleor.", 502);
+  }
+
+  if (!checkout) {
+    return errorResponse("Checkout not found.", 404);
+  }
+
+  if (isCharged(checkout)) {
+    try {
+      await completePaidCheckout(env, checkout.id);
+    } catch (error) {
+      console.error(error);
+    }
+    return jsonResponse({ paid: true });
+  }
+
+  const total = checkout.totalPrice?.gross;
+  if (!total || !(total.amount > 0)) {
+    return errorResponse("The checkout has nothing to pay.", 400);
+  }
+
+  const amount = toMinorUnits(total.amount, total.currency);
+  const saved = parseSavedInvoice(checkout.invoice);
+  if (saved?.amount === amount && saved.currency === total.currency) {
+    return jsonResponse({ invoiceUrl: saved.url, paid: false });
+  }
+
+  const description = (checkout.lines || [])
+    .map(
+      (line: any) =>
+        `${line.quantity} × ${line.variant?.product?.name || "Item"}${
+          line.variant?.name ? ` (${line.variant.name})` : ""
+        }`,
+    )
+    .join(", ");
+
+  let invoiceUrl: string;
+  try {
+    invoiceUrl = await callBotApi<string>(env, "createInvoiceLink", {
+      title: truncate(
+        checkout.storeSlug ? `Order · ${checkout.storeSlug}` : "Your order",
+        TITLE_LIMIT,
+      ),
+      description: truncate(description || "Order payment", DESCRIPTION_LIMIT),
+      payload: checkout.id,
+      provider_token: env.TELEGRAM_PAYMENT_PROVIDER_TOKEN || "",
+      currency: total.currency,
+      prices: [{ label: "Order total", amount }],
+    });
+  } catch (error: any) {
+    console.error(error);
+    return errorResponse("Telegram could not create the invoice.", 502);
+  }
+
+  try {
+    const data = await saleorRequest(
+      env.VITE_SALEOR_API_URL,
+      SAVE_INVOICE_MUTATION,
+      {
+        id: checkout.id,
+        invoice: JSON.stringify({
+          url: invoiceUrl,
+          amount,
+          currency: total.currency,
+        }),
+      },
+      env.SALEOR_APP_TOKEN,
+    );
+    const [saveError] = data?.updatePrivateMetadata?.errors || [];
+    if (saveError) {
+      throw new Error(saveError.message || "Unable to save the invoice.");
+    }
+  } catch (error: any) {
+    // An unsaved link still works; pre_checkout_query keeps a second
+    // invoice from charging a paid checkout.
+    console.error(error);
+  }
+
+  return jsonResponse({ invoiceUrl, paid: false });
+};
+
+/**
+ * Reports the order placed from a paid checkout. The bot webhook completes
+ * the checkout when Telegram sends `successful_payment`, so the Mini App polls
+ * here after the invoice closes; `order` stays null until then.
+ */
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const initDataRaw = readInitDataHeader(request);
+  if (!initDataRaw) {
+    return errorResponse("Telegram init data is required.", 401);
+  }
+
+  let userId: number | undefined;
+  try {
+    const auth = await validateInitData(
+      initDataRaw,
+      env.TELEGRAM_BOT_TOKEN,
+      parseMaxAge(env.INIT_DATA_MAX_AGE),
+    );
+    userId = auth.user?.id;
+  } catch (error: any) {
+    return errorResponse(error.message || "Invalid init data.", 401);
+  }
+  if (!userId) {
+    return errorResponse("Init data has no user.", 401);
+  }
+
+  if (!env.SALEOR_APP_TOKEN) {
+    return errorResponse("SALEOR_APP_TOKEN is not configured.", 503);
+  }
+
+  const checkoutId = new URL(request.url).searchParams
+    .get("checkoutId")
+    ?.trim();
+  if (!checkoutId) {
+    return errorResponse("checkoutId is required.", 400);
+  }
+
+  let order: Awaited<ReturnType<typeof findCheckoutOrder>>;
+  try {
+    order = await findCheckoutOrder(env, checkoutId);
+  } catch (error) {
+    console.error(error);
+    return errorResponse("Unable to load the order from Saleor.", 502);
+  }
+
+  // Orders of other users are reported as not placed yet.
+  if (!order || order.userId !== String(userId)) {
+    return jsonResponse({ order: null });
+  }
+
+  const { userId: _owner, ...placed } = order;
+  return jsonResponse({ order: placed });
+};
+
+function parseSavedInvoice(value: string | null | undefined) {
+  if (!value) return null;
+  try {
+    const invoice = JSON.parse(value);
+    return typeof invoice?.url === "string"
+      ? (invoice as { url: string; amount: number; currency: string })
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function truncate(value: string, maxLength: number) {
+  if (value.length <= maxLength) return value;
+  return `${value.slice(0, maxLength - 1).trim()}…`;
+}
@@ -0,0 +1,124 @@
+import { errorResponse, jsonResponse } from "../../server/http";
+import {
+  parseMaxAge,
+  readInitDataHeader,
+  validateInitData,
+} from "../../server/initData";
+import { saleorRequest } from "../../server/saleor";
+import type { TelegramEnv } from "../../server/telegram";
+
+interface Env extends TelegramEnv {
+  VITE_SALEOR_API_URL: string;
+  // Needs MANAGE_ORDERS to read orders by metadata.
+  SALEOR_APP_TOKEN?: string;
+  INIT_DATA_MAX_AGE?: string;
+}
+
+const ORDERS_QUERY = `
+  query OrderHistory($userId: String!) {
+    orders(
+      first: 20
+      filter: { metadata: [{ key: "telegram_user_id", value: $userId }] }
+      sortBy: { field: CREATED_AT, direction: DESC }
+    ) {
+      edges {
+        node {
+          id
+          number
+          status
+          created
+          storeSlug: metafield(key: "store_slug")
+          total {
+            gross {
+              amount
+              currency
+            }
+          }
+          lines {
+            productName
+            variantName
+            quantity
+            cartKey: metafield(key: "cart_key")
+            optionsLabel: metafield(key: "order_options")
+            variant {
+              id
+              product {
+                id
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const onRequestGet: PagesFunction<Env> = async ({ request, env }) => {
+  const initDataRaw = readInitDataHeader(request);
+  if (!initDataRaw) {
+    return errorResponse("Telegram init data is required.", 401);
+  }
+
+  let userId: number | undefined;
+  try {
+    const auth = await validateInitData(
+      initDataRaw,
+      env.TELEGRAM_BOT_TOKEN,
+      parseMaxAge(env.INIT_DATA_MAX_AGE),
+    );
+    userId = auth.user?.id;
+  } catch (error: any) {
+    return errorResponse(error.message || "Invalid init data.", 401);
+  }
+  if (!userId) {
+    return errorResponse("Init data has no user.", 401);
+  }
+
+  if (!env.SALEOR_APP_TOKEN) {
+    return errorResponse("SALEOR_APP_TOKEN is not configured.", 503);
+  }
+
+  // The user id always comes from the validated init data, never the client.
+  let data: any;
+  try {
+    data = await saleorRequest(
+      env.VITE_SALEOR_API_URL,
+      ORDERS_QUERY,
+      { userId: String(userId) },
+      env.SALEOR_APP_TOKEN,
+    );
+  } catch (error) {
+    console.error(error);
+    return errorResponse("Unable to load orders from Saleor.", 502);
+  }
+
+  const orders = (data?.orders?.edges || []).map(({ node }: { node: any }) => ({
+    id: node.id,
+    number: String(node.number ?? ""),
+    status: node.status || "",
+    created: node.created || "",
+    storeSlug: node.storeSlug || "",
+    total: node.total?.gross || null,
+    // The store's service fee is a line of its own; it stays in the total
+    // but is not listed or reordered.
+    lines: (node.lines || [])
+      .filter((line: any) => line.cartKey !== "service_fee")
+      .map((line: any) => ({
+        productId: line.variant?.product?.id || "",
+        variantId: line.variant?.id || "",
+        choiceIds: parseChoiceIds(line.cartKey),
+        productName: line.productName || "",
+        variantName: line.variantName || "",
+        optionsLabel: line.optionsLabel || "",
+        quantity: line.quantity ?? 0,
+      })),
+  }));
+
+  return jsonResponse({ orders });
+};
+
+// Cart keys look like `<variantId>|<choiceId>,<choiceId>`.
+function parseChoiceIds(cartKey: string | null | undefined) {
+  const [, choices = ""] = (cartKey || "").split("|");
+  return choices ? choices.split(",") : [];
+}
@@ -0,0 +1,135 @@
+import { formatMoney, formatStatus } from "../../server/format";
+import { errorResponse, jsonResponse } from "../../server/http";
+import { verifySaleorSignature } from "../../server/saleorSignature";
+import { callBotApi, type TelegramEnv } from "../../server/telegram";
+
+interface Env extends TelegramEnv {
+  VITE_SALEOR_API_URL: string;
+  // Secret key of the Saleor webhook; when empty the JWS signature is used.
+  SALEOR_WEBHOOK_SECRET?: string;
+  // JSON object of message templates keyed by store slug, see README.
+  ORDER_MESSAGE_TEMPLATES?: string;
+}
+
+type OrderEvent = "order_created" | "order_fulfilled" | "order_cancelled";
+
+type OrderTemplates = Partial<Record<OrderEvent, string>>;
+
+type OrderPayload = {
+  number?: string | number;
+  status?: string;
+  telegramUserId?: string | null;
+  storeSlug?: string | null;
+  total?: { gross?: { amount: number; currency: string } | null } | null;
+  lines?: { productName?: string; variantName?: string; quantity?: number }[];
+};
+
+const DEFAULT_TEMPLATES: Record<OrderEvent, string> = {
+  order_created:
+    "✅ Order #{number} is confirmed.\n{items}\nTotal: {total}\n\nWe will let you know when it is on its way.",
+  order_fulfilled: "📦 Order #{number} from {store} has been fulfilled. Enjoy!",
+  order_cancelled:
+    "❌ Order #{number} from {store} was cancelled. Contact the store if you have questions.",
+};
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  const body = await request.text();
+  const signature = request.headers.get("Saleor-Signature") || "";
+
+  let isValid = false;
+  try {
+    isValid = await verifySaleorSignature(signature, body, {
+      secretKey: env.SALEOR_WEBHOOK_SECRET,
+      saleorApiUrl: env.VITE_SALEOR_API_URL,
+    });
+  } catch (error) {
+    console.error(error);
+    return errorResponse("Unable to verify the webhook signature.", 503);
+  }
+  if (!isValid) {
+    return errorResponse("Invalid Saleor signature.", 401);
+  }
+
+  const event = (request.headers.get("Saleor-Event") || "").toLowerCase();
+  if (!isOrderEvent(event)) {
+    return jsonResponse({ ok: true, skipped: "unsupported event" });
+  }
+
+  let order: OrderPayload | null = null;
+  try {
+    const payload = JSON.parse(body);
+    order = (Array.isArray(payload) ? payload[0] : payload)?.order || null;
+  } catch {
+    return errorResponse("Invalid webhook payload.", 400);
+  }
+
+  const chatId = Number(order?.telegramUserId);
+  if (!order || !Number.isInteger(chatId) || chatId <= 0) {
+    // Guest orders and orders placed outside Telegram have no chat to notify.
+    return jsonResponse({ ok: true, skipped: "no telegram user" });
+  }
+
+  const template = resolveTemplate(
+    env.ORDER_MESSAGE_TEMPLATES,
+    order.storeSlug || "",
+    event,
+  );
+
+  try {
+    await callBotApi(env, "sendMessage", {
+      chat_id: chatId,
+      text: renderTemplate(template, order),
+    });
+  } catch (error) {
+    // Users who blocked the bot must not make Saleor retry the webhook.
+    console.error(error);
+    return jsonResponse({ ok: true, skipped: "telegram error" });
+  }
+
+  return jsonResponse({ ok: true });
+};
+
+function isOrderEvent(event: string): event is OrderEvent {
+  return event in DEFAULT_TEMPLATES;
+}
+
+function resolveTemplate(
+  rawTemplates: string | undefined,
+  storeSlug: string,
+  event: OrderEvent,
+) {
+  let templates: Record<string, OrderTemplates> = {};
+  if (rawTemplates) {
+    try {
+      templates = JSON.parse(rawTemplates);
+    } catch (error) {
+      console.error("ORDER_MESSAGE_TEMPLATES is not valid JSON.", error);
+    }
+  }
+
+  return (
+    templates[storeSlug]?.[event] ||
+    templates.default?.[event] ||
+    DEFAULT_TEMPLATES[event]
+  );
+}
+
+function renderTemplate(template: string, order: OrderPayload) {
+  const values: Record<string, string> = {
+    number: String(order.number ?? ""),
+    status: formatStatus(order.status || ""),
+    store: order.storeSlug || "the store",
+    total: formatMoney(order.total?.gross || null),
+    items: (order.lines || [])
+      .map(
+        (line) =>
+          `• ${line.quantity ?? 1} × ${line.productName || "Item"}${
+            line.variantName ? ` (${line.variantName})` : ""
+          }`,
+      )
+      .join("\n"),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match,
+  );
+}
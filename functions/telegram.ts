@@ -0,0 +1,196 @@
+import { formatMoney, formatStatus } from "../server/format";
+import { errorResponse, jsonResponse, readJsonBody } from "../server/http";
+import {
+  answerPreCheckoutQuery,
+  recordPayment,
+  type PaymentsEnv,
+  type PreCheckoutQuery,
+  type SuccessfulPayment,
+} from "../server/payments";
+import { saleorRequest } from "../server/saleor";
+import { callBotApi } from "../server/telegram";
+
+interface Env extends PaymentsEnv {
+  // Must match the `secret_token` registered by sethook.js.
+  TELEGRAM_WEBHOOK_SECRET: string;
+  // Public URL of the Mini App (the Pages deployment).
+  MINI_APP_URL: string;
+}
+
+type TelegramMessage = {
+  message_id: number;
+  chat: {
+    id: number;
+    type: string;
+  };
+  from?: {
+    id: number;
+    first_name?: string;
+  };
+  text?: string;
+  successful_payment?: SuccessfulPayment;
+};
+
+type TelegramUpdate = {
+  update_id: number;
+  message?: TelegramMessage;
+  pre_checkout_query?: PreCheckoutQuery;
+};
+
+const HELP_TEXT = [
+  "Order from restaurants and shops right here in Telegram.",
+  "",
+  "/start – open the store",
+  "/orders – see your recent orders",
+  "/help – show this message",
+].join("\n");
+
+// Telegram deep-link payloads are limited to these characters.
+const START_PARAM_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const ORDERS_QUERY = `
+  query TelegramOrders($userId: String!) {
+    orders(
+      first: 5
+      filter: { metadata: [{ key: "telegram_user_id", value: $userId }] }
+      sortBy: { field: CREATED_AT, direction: DESC }
+    ) {
+      edges {
+        node {
+          number
+          status
+          created
+          total {
+            gross {
+              amount
+              currency
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const onRequestPost: PagesFunction<Env> = async ({ request, env }) => {
+  const secret = request.headers.get("X-Telegram-Bot-Api-Secret-Token");
+  if (!env.TELEGRAM_WEBHOOK_SECRET || secret !== env.TELEGRAM_WEBHOOK_SECRET) {
+    return errorResponse("Forbidden.", 403);
+  }
+
+  const update = await readJsonBody<TelegramUpdate>(request);
+  if (!update) {
+    return errorResponse("Invalid update.", 400);
+  }
+
+  try {
+    if (update.pre_checkout_query) {
+      await answerPreCheckoutQuery(env, update.pre_checkout_query);
+    } else if (update.message?.successful_payment) {
+      await recordPayment(env, update.message.successful_payment);
+    } else if (update.message?.text) {
+      await handleMessage(env, update.message);
+    }
+  } catch (error) {
+    console.error(error);
+  }
+
+  // Always acknowledge the update so Telegram does not redeliver it.
+  return jsonResponse({ ok: true });
+};
+
+async function handleMessage(env: Env, message: TelegramMessage) {
+  const { command, argument } = parseCommand(message.text || "");
+
+  switch (command) {
+    case "start":
+      await sendMessage(
+        env,
+        message.chat.id,
+        `Hi${message.from?.first_name ? `, ${message.from.first_name}` : ""}! Tap the button below to pick a store and place your order.`,
+        openAppKeyboard(env, "Open store", argument),
+      );
+      return;
+    case "orders":
+      await sendMessage(
+        env,
+        message.chat.id,
+        await describeRecentOrders(env, message.from?.id),
+        openAppKeyboard(env, "My orders", "orders"),
+      );
+      return;
+    default:
+      await sendMessage(
+        env,
+        message.chat.id,
+        HELP_TEXT,
+        openAppKeyboard(env, "Open store"),
+      );
+  }
+}
+
+/**
+ * Splits "/start@my_bot store_pizza" into `start` and `store_pizza`.
+ */
+function parseCommand(text: string) {
+  const match = text.trim().match(/^\/([A-Za-z0-9_]+)(?:@\S+)?(?:\s+(.*))?$/);
+  return {
+    command: match?.[1]?.toLowerCase() || "",
+    argument: match?.[2]?.trim() || "",
+  };
+}
+
+// `web_app` buttons open the Mini App URL as is, so Telegram does not set
+// `tgWebAppStartParam`; the app reads `startapp` from the URL instead.
+function openAppKeyboard(env: Env, label: string, startParam = "") {
+  const url = new URL(env.MINI_APP_URL);
+  if (START_PARAM_PATTERN.test(startParam)) {
+    url.searchParams.set("startapp", startParam);
+  }
+  return {
+    inline_keyboard: [[{ text: label, web_app: { url: url.toString() } }]],
+  };
+}
+
+async function describeRecentOrders(env: Env, userId: number | undefined) {
+  if (!userId || !env.SALEOR_APP_TOKEN) {
+    return "Open the store to see your orders.";
+  }
+
+  const data = await saleorRequest(
+    env.VITE_SALEOR_API_URL,
+    ORDERS_QUERY,
+    { userId: String(userId) },
+    env.SALEOR_APP_TOKEN,
+  );
+  const orders = (data?.orders?.edges || []).map(
+    ({ node }: { node: any }) => node,
+  );
+
+  if (!orders.length) {
+    return "You have no orders yet. Tap the button below to place one.";
+  }
+
+  return [
+    "Your recent orders:",
+    ...orders.map(
+      (order: any) =>
+        `#${order.number} · ${formatStatus(order.status)} · ${formatMoney(
+          order.total?.gross,
+        )} · ${new Date(order.created).toLocaleDateString("en")}`,
+    ),
+  ].join("\n");
+}
+
+function sendMessage(
+  env: Env,
+  chatId: number,
+  text: string,
+  replyMarkup?: Record<string, unknown>,
+) {
+  return callBotApi(env, "sendMessage", {
+    chat_id: chatId,
+    text,
+    ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+  });
+}
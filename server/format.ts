@@ -0,0 +1,23 @@
+export type Money = {
+  amount: number;
+  currency: string;
+};
+
+export function formatMoney(money: Money | null | undefined) {
+  if (!money) return "—";
+  try {
+    return new Intl.NumberFormat("en", {
+      style: "currency",
+      currency: money.currency,
+    }).format(money.amount);
+  } catch {
+    return `${money.amount.toFixed(2)} ${money.currency}`;
+  }
+}
+
+// Turns Saleor enum values such as `PARTIALLY_FULFILLED` into
+// "Partially fulfilled".
+export function formatStatus(status: string | null | undefined) {
+  const label = (status || "").toLowerCase().replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
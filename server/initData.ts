@@ -0,0 +1,94 @@
+import { hmacSha256, timingSafeEqual, toHex } from "./crypto";
+
+export type TelegramUser = {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+};
+
+export type ValidatedInitData = {
+  user: TelegramUser | null;
+  authDate: number;
+  startParam: string | null;
+};
+
+const DEFAULT_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+/**
+ * Reads `Authorization: tma <initDataRaw>` from a request. Returns null when
+ * the header is missing.
+ */
+export function readInitDataHeader(request: Request) {
+  const header = request.headers.get("Authorization") || "";
+  const match = header.match(/^tma\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Validates Telegram Mini App init data as described in
+ * https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ * and throws when the signature does not match or `auth_date` is too old.
+ */
+export async function validateInitData(
+  initDataRaw: string,
+  botToken: string,
+  maxAgeSeconds = DEFAULT_MAX_AGE_SECONDS,
+  now = Date.now(),
+): Promise<ValidatedInitData> {
+  if (!botToken) {
+    throw new Error("TELEGRAM_BOT_TOKEN is not configured.");
+  }
+
+  const params = new URLSearchParams(initDataRaw);
+  const hash = params.get("hash");
+  if (!hash) {
+    throw new Error("Init data is not signed.");
+  }
+
+  const dataCheckString = Array.from(params.entries())
+    .filter(([key]) => key !== "hash")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+
+  const secretKey = await hmacSha256(encoder.encode("WebAppData"), botToken);
+  const signature = toHex(await hmacSha256(secretKey, dataCheckString));
+  if (!timingSafeEqual(signature, hash.toLowerCase())) {
+    throw new Error("Init data signature is invalid.");
+  }
+
+  const authDate = Number(params.get("auth_date"));
+  if (!Number.isFinite(authDate) || authDate <= 0) {
+    throw new Error("Init data has no auth_date.");
+  }
+  if (now / 1000 - authDate > maxAgeSeconds) {
+    throw new Error("Init data has expired.");
+  }
+
+  let user: TelegramUser | null = null;
+  const rawUser = params.get("user");
+  if (rawUser) {
+    try {
+      user = JSON.parse(rawUser);
+    } catch {
+      throw new Error("Init data contains an invalid user.");
+    }
+  }
+
+  return {
+    user,
+    authDate,
+    startParam: params.get("start_param"),
+  };
+}
+
+export function parseMaxAge(value: string | undefined) {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0
+    ? seconds
+    : DEFAULT_MAX_AGE_SECONDS;
+}
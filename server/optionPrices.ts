@@ -0,0 +1,220 @@
+import { saleorRequest } from "./saleor";
+import { fromMinorUnits, toMinorUnits } from "./telegram";
+
+export type OptionPricesEnv = {
+  VITE_SALEOR_API_URL: string;
+  // Needs HANDLE_CHECKOUTS to set the price of checkout lines.
+  SALEOR_APP_TOKEN?: string;
+};
+
+type Money = { amount: number; currency: string };
+
+type OptionLine = {
+  id: string;
+  quantity: number;
+  cartKey: string | null;
+  unitPrice: { gross: Money } | null;
+  variant: {
+    id: string;
+    pricing: { price: { gross: Money } | null } | null;
+    product: {
+      metadata: { key: string; value: string }[];
+      attributes: {
+        attribute: {
+          id: string;
+          slug: string | null;
+          inputType: string | null;
+          choices: {
+            edges: { node: { id: string; slug: string | null } }[];
+          } | null;
+        };
+        values: { id: string; slug: string | null }[];
+      }[];
+    };
+  } | null;
+};
+
+const OPTION_LINES_QUERY = `
+  query OptionLines($id: ID!) {
+    checkout(id: $id) {
+      lines {
+        id
+        quantity
+        cartKey: metafield(key: "cart_key")
+        unitPrice {
+          gross {
+            amount
+            currency
+          }
+        }
+        variant {
+          id
+          pricing {
+            price {
+              gross {
+                amount
+                currency
+              }
+            }
+          }
+          product {
+            metadata {
+              key
+              value
+            }
+            attributes {
+              attribute {
+                id
+                slug
+                inputType
+                choices(first: 20) {
+                  edges {
+                    node {
+                      id
+                      slug
+                    }
+                  }
+                }
+              }
+              values {
+                id
+                slug
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const PRICE_LINES_MUTATION = `
+  mutation PriceOptionLines($id: ID!, $lines: [CheckoutLineUpdateInput!]!) {
+    checkoutLinesUpdate(id: $id, lines: $lines) {
+      errors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Same keys as the catalog reads in src/api/catalog.ts:
+// `option_price:<attribute>:<value>`, or `option_price:<attribute>` for
+// boolean attributes.
+const OPTION_PRICE_PREFIX = "option_price:";
+const OPTION_INPUT_TYPES = ["DROPDOWN", "MULTISELECT", "BOOLEAN"];
+
+/**
+ * Sets the price of checkout lines with options to the variant price plus
+ * the option price deltas, so Saleor's totals and the Telegram invoice
+ * charge what the cart shows. The options are read from the `cart_key` line
+ * metadata (`<variant id>|<choice ids>`) and priced from the product
+ * metadata, never from amounts the client sent. Returns whether a line was
+ * repriced.
+ */
+export async function priceOptionLines(
+  env: OptionPricesEnv,
+  checkoutId: string,
+) {
+  if (!env.SALEOR_APP_TOKEN) {
+    throw new Error("SALEOR_APP_TOKEN is not configured.");
+  }
+
+  const data = await saleorRequest(
+    env.VITE_SALEOR_API_URL,
+    OPTION_LINES_QUERY,
+    { id: checkoutId },
+    env.SALEOR_APP_TOKEN,
+  );
+  const lines: OptionLine[] = data?.checkout?.lines || [];
+
+  const updates = lines.flatMap((line) => {
+    const price = readOptionLinePrice(line);
+    const current = line.unitPrice?.gross;
+    if (
+      !price ||
+      (current?.currency === price.currency &&
+        toMinorUnits(current.amount, current.currency) ===
+          toMinorUnits(price.amount, price.currency))
+    ) {
+      return [];
+    }
+    return [
+      {
+        lineId: line.id,
+        quantity: line.quantity,
+        price: fromMinorUnits(
+          toMinorUnits(price.amount, price.currency),
+          price.currency,
+        ),
+      },
+    ];
+  });
+  if (!updates.length) {
+    return false;
+  }
+
+  const result = await saleorRequest(
+    env.VITE_SALEOR_API_URL,
+    PRICE_LINES_MUTATION,
+    { id: checkoutId, lines: updates },
+    env.SALEOR_APP_TOKEN,
+  );
+  const errors: { message?: string }[] =
+    result?.checkoutLinesUpdate?.errors || [];
+  if (errors.length) {
+    throw new Error(errors.map(({ message }) => message).join(", "));
+  }
+  return true;
+}
+
+// Unit price of a line with options, or null for lines without options.
+function readOptionLinePrice(line: OptionLine): Money | null {
+  const [variantId, choices] = (line.cartKey || "").split("|");
+  const base = line.variant?.pricing?.price?.gross;
+  if (!choices || !line.variant || variantId !== line.variant.id || !base) {
+    return null;
+  }
+
+  const deltas = readPriceDeltas(line.variant.product);
+  const amount = choices
+    .split(",")
+    .reduce((sum, choiceId) => sum + (deltas.get(choiceId) || 0), base.amount);
+  return { amount, currency: base.currency };
+}
+
+// Price delta by option choice id, as the catalog assigns them.
+function readPriceDeltas(
+  product: NonNullable<OptionLine["variant"]>["product"],
+) {
+  const byKey = new Map<string, number>();
+  product.metadata.forEach(({ key, value }) => {
+    const amount = Number.parseFloat(value);
+    if (key.startsWith(OPTION_PRICE_PREFIX) && Number.isFinite(amount)) {
+      byKey.set(key.slice(OPTION_PRICE_PREFIX.length), amount);
+    }
+  });
+
+  const byChoice = new Map<string, number>();
+  product.attributes.forEach(({ attribute, values }) => {
+    if (
+      !attribute.inputType ||
+      !OPTION_INPUT_TYPES.includes(attribute.inputType)
+    ) {
+      return;
+    }
+    const slug = attribute.slug || "";
+    if (attribute.inputType === "BOOLEAN") {
+      byChoice.set(attribute.id, byKey.get(slug) || 0);
+      return;
+    }
+    [
+      ...(attribute.choices?.edges.map(({ node }) => node) || []),
+      ...values,
+    ].forEach((value) => {
+      byChoice.set(value.id, byKey.get(`${slug}:${value.slug}`) || 0);
+    });
+  });
+  return byChoice;
+}
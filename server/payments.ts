@@ -0,0 +1,292 @@
+import { saleorRequest } from "./saleor";
+import {
+  callBotApi,
+  fromMinorUnits,
+  toMinorUnits,
+  type TelegramEnv,
+} from "./telegram";
+
+export type PaymentsEnv = TelegramEnv & {
+  VITE_SALEOR_API_URL: string;
+  // Needs HANDLE_PAYMENTS and HANDLE_CHECKOUTS to record Telegram payments
+  // and complete the paid checkouts, and MANAGE_ORDERS to find their orders.
+  SALEOR_APP_TOKEN?: string;
+};
+
+export type PreCheckoutQuery = {
+  id: string;
+  currency: string;
+  total_amount: number;
+  invoice_payload: string;
+};
+
+export type SuccessfulPayment = {
+  currency: string;
+  total_amount: number;
+  invoice_payload: string;
+  telegram_payment_charge_id: string;
+  provider_payment_charge_id: string;
+};
+
+export type PaidOrder = {
+  id: string;
+  number: string;
+  status: string;
+  created: string;
+  total: { amount: number; currency: string } | null;
+};
+
+const PAYMENT_CHECKOUT_QUERY = `
+  query PaymentCheckout($id: ID!) {
+    checkout(id: $id) {
+      id
+      chargeStatus
+      totalPrice {
+        gross {
+          amount
+          currency
+        }
+      }
+      transactions {
+        pspReference
+      }
+    }
+  }
+`;
+
+const TRANSACTION_CREATE_MUTATION = `
+  mutation RecordTelegramPayment(
+    $id: ID!
+    $transaction: TransactionCreateInput!
+  ) {
+    transactionCreate(id: $id, transaction: $transaction) {
+      transaction {
+        id
+      }
+      errors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const CHECKOUT_COMPLETE_MUTATION = `
+  mutation CompletePaidCheckout($id: ID!) {
+    checkoutComplete(id: $id) {
+      order {
+        id
+        number
+        status
+        created
+        total {
+          gross {
+            amount
+            currency
+          }
+        }
+      }
+      errors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const CHECKOUT_ORDER_QUERY = `
+  query CheckoutOrder($checkoutId: ID!) {
+    orders(first: 1, filter: { checkoutIds: [$checkoutId] }) {
+      edges {
+        node {
+          id
+          number
+          status
+          created
+          userId: metafield(key: "telegram_user_id")
+          total {
+            gross {
+              amount
+              currency
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Telegram asks the bot to confirm every payment before charging the user.
+ * The invoice is only accepted while its checkout is unpaid and still costs
+ * exactly the invoiced amount, so an old or reused link cannot charge twice.
+ */
+export async function answerPreCheckoutQuery(
+  env: PaymentsEnv,
+  query: PreCheckoutQuery,
+) {
+  let errorMessage = "";
+  try {
+    const checkout = await loadPaymentCheckout(env, query.invoice_payload);
+    const total = checkout?.totalPrice?.gross;
+    if (!total) {
+      errorMessage = "This order is no longer available.";
+    } else if (isCharged(checkout)) {
+      errorMessage = "This order has already been paid.";
+    } else if (
+      total.currency !== query.currency ||
+      toMinorUnits(total.amount, total.currency) !== query.total_amount
+    ) {
+      errorMessage = "The order total has changed. Please reopen the cart.";
+    }
+  } catch (error) {
+    console.error(error);
+    errorMessage = "We could not verify your order. Please try again.";
+  }
+
+  await callBotApi(env, "answerPreCheckoutQuery", {
+    pre_checkout_query_id: query.id,
+    ok: !errorMessage,
+    ...(errorMessage ? { error_message: errorMessage } : {}),
+  });
+}
+
+/**
+ * Records a `successful_payment` as a Saleor transaction on the invoiced
+ * checkout and completes it. Redelivered updates find the transaction by its
+ * `telegram_payment_charge_id` and are not recorded twice.
+ */
+export async function recordPayment(
+  env: PaymentsEnv,
+  payment: SuccessfulPayment,
+) {
+  const checkoutId = payment.invoice_payload;
+  const checkout = await loadPaymentCheckout(env, checkoutId);
+  if (!checkout) {
+    const order = await findCheckoutOrder(env, checkoutId);
+    if (!order) {
+      console.error(
+        `Payment ${payment.telegram_payment_charge_id} has no checkout ${checkoutId}.`,
+      );
+    }
+    return order;
+  }
+
+  const recorded = (checkout.transactions || []).some(
+    (transaction: any) =>
+      transaction.pspReference === payment.telegram_payment_charge_id,
+  );
+  if (!recorded) {
+    const data = await saleorRequest(
+      env.VITE_SALEOR_API_URL,
+      TRANSACTION_CREATE_MUTATION,
+      {
+        id: checkoutId,
+        transaction: {
+          name: "Telegram Payments",
+          pspReference: payment.telegram_payment_charge_id,
+          amountCharged: {
+            amount: fromMinorUnits(payment.total_amount, payment.currency),
+            currency: payment.currency,
+          },
+          metadata: [
+            {
+              key: "telegram_payment_charge_id",
+              value: payment.telegram_payment_charge_id,
+            },
+          ],
+          privateMetadata: [
+            {
+              key: "provider_payment_charge_id",
+              value: payment.provider_payment_charge_id,
+            },
+          ],
+        },
+      },
+      env.SALEOR_APP_TOKEN,
+    );
+    throwOnErrors(data?.transactionCreate?.errors);
+  }
+
+  return completePaidCheckout(env, checkoutId);
+}
+
+export async function completePaidCheckout(
+  env: PaymentsEnv,
+  checkoutId: string,
+): Promise<PaidOrder> {
+  const data = await saleorRequest(
+    env.VITE_SALEOR_API_URL,
+    CHECKOUT_COMPLETE_MUTATION,
+    { id: checkoutId },
+    env.SALEOR_APP_TOKEN,
+  );
+  throwOnErrors(data?.checkoutComplete?.errors);
+
+  const order = data?.checkoutComplete?.order;
+  if (!order) {
+    throw new Error("Saleor did not return an order.");
+  }
+  return toPaidOrder(order);
+}
+
+export async function loadPaymentCheckout(
+  env: PaymentsEnv,
+  checkoutId: string,
+) {
+  if (!env.SALEOR_APP_TOKEN) {
+    throw new Error("SALEOR_APP_TOKEN is not configured.");
+  }
+  const data = await saleorRequest(
+    env.VITE_SALEOR_API_URL,
+    PAYMENT_CHECKOUT_QUERY,
+    { id: checkoutId },
+    env.SALEOR_APP_TOKEN,
+  );
+  return data?.checkout ?? null;
+}
+
+/**
+ * Finds the order placed from a checkout, together with the Telegram user
+ * that placed it.
+ */
+export async function findCheckoutOrder(
+  env: PaymentsEnv,
+  checkoutId: string,
+): Promise<(PaidOrder & { userId: string }) | null> {
+  const data = await saleorRequest(
+    env.VITE_SALEOR_API_URL,
+    CHECKOUT_ORDER_QUERY,
+    { checkoutId },
+    env.SALEOR_APP_TOKEN,
+  );
+  const order = data?.orders?.edges?.[0]?.node;
+  return order ? { ...toPaidOrder(order), userId: order.userId || "" } : null;
+}
+
+// Anything Saleor has charged, even partly, is settled through that payment
+// and must not be invoiced again.
+export function isCharged(checkout: { chargeStatus?: string | null } | null) {
+  return Boolean(checkout?.chargeStatus && checkout.chargeStatus !== "NONE");
+}
+
+function toPaidOrder(order: any): PaidOrder {
+  return {
+    id: order.id,
+    number: String(order.number ?? ""),
+    status: order.status || "",
+    created: order.created || "",
+    total: order.total?.gross || null,
+  };
+}
+
+function throwOnErrors(errors: { message?: string | null }[] | undefined) {
+  if (errors?.length) {
+    throw new Error(
+      errors
+        .map((error) => error.message)
+        .filter(Boolean)
+        .join(", ") || "Saleor rejected the payment.",
+    );
+  }
+}
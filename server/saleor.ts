@@ -0,0 +1,45 @@
+type GraphQLError = {
+  message?: string;
+};
+
+export async function saleorRequest(
+  apiUrl: string,
+  query: string,
+  variables: Record<string, unknown>,
+  token?: string,
+) {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const response = await fetch(apiUrl, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ query, variables }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(
+      `Saleor request failed (${response.status}): ${
+        errorText || response.statusText
+      }`,
+    );
+  }
+
+  const payload: { data?: any; errors?: GraphQLError[] } =
+    await response.json();
+  if (payload.errors?.length) {
+    throw new Error(
+      payload.errors
+        .map((err) => err.message)
+        .filter(Boolean)
+        .join(", "),
+    );
+  }
+
+  return payload.data;
+}
@@ -0,0 +1,78 @@
+const DEFAULT_TELEGRAM_API_URL = "https://api.telegram.org";
+
+export type TelegramEnv = {
+  TELEGRAM_BOT_TOKEN: string;
+  // Overrides the Bot API host, e.g. to point at a local stub.
+  TELEGRAM_API_URL?: string;
+};
+
+type BotApiResponse<T> = {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+};
+
+export async function callBotApi<T>(
+  env: TelegramEnv,
+  method: string,
+  payload: Record<string, unknown>,
+): Promise<T> {
+  if (!env.TELEGRAM_BOT_TOKEN) {
+    throw new Error("TELEGRAM_BOT_TOKEN is not configured.");
+  }
+
+  const baseUrl = (env.TELEGRAM_API_URL || DEFAULT_TELEGRAM_API_URL).replace(
+    /\/$/,
+    "",
+  );
+  const response = await fetch(
+    `${baseUrl}/bot${env.TELEGRAM_BOT_TOKEN}/${method}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  let body: BotApiResponse<T> | null = null;
+  try {
+    body = await response.json();
+  } catch {
+    // handled below
+  }
+
+  if (!response.ok || !body?.ok) {
+    throw new Error(
+      `Telegram ${method} failed (${body?.error_code ?? response.status}): ${
+        body?.description || response.statusText
+      }`,
+    );
+  }
+
+  return body.result as T;
+}
+
+// Telegram expects prices in the smallest currency unit (cents for USD, yen
+// for JPY), so the exponent is taken from the currency's ISO 4217 digits.
+export function toMinorUnits(amount: number, currency: string) {
+  return Math.round(amount * 10 ** currencyDigits(currency));
+}
+
+export function fromMinorUnits(amount: number, currency: string) {
+  return amount / 10 ** currencyDigits(currency);
+}
+
+function currencyDigits(currency: string) {
+  try {
+    return (
+      new Intl.NumberFormat("en", {
+        style: "currency",
+        currency,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    // unknown currency codes keep the common two-digit exponent
+    return 2;
+  }
+}
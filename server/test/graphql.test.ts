@@ -0,0 +1,359 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { onRequestPost } from "../../functions/api/graphql";
+import {
+  BOT_TOKEN,
+  eventContext,
+  optionLinesCheckout,
+  SALEOR_API_URL,
+  signInitData,
+  stubServices,
+} from "./stubs";
+
+const env = {
+  TELEGRAM_BOT_TOKEN: BOT_TOKEN,
+  VITE_SALEOR_API_URL: SALEOR_API_URL,
+};
+
+// base64 of "Checkout:<uuid>" and "Order:<uuid>".
+const CHECKOUT_ID = btoa("Checkout:2f1a");
+const ORDER_ID = btoa("Order:2f1a");
+
+const CHECKOUT_CREATE = `
+  mutation CheckoutCreate($input: CheckoutCreateInput!) {
+    checkoutCreate(input: $input) { checkout { id } errors { message } }
+  }
+`;
+
+const METADATA_UPDATE = `
+  mutation CheckoutMetadataUpdate($id: ID!, $metadata: [MetadataInput!]!) {
+    updateMetadata(id: $id, input: $metadata) { errors { message } }
+  }
+`;
+
+// Sends `body` signed for user 42 unless `authorization` is given; `null`
+// sends no init data.
+async function postGraphQL(body: unknown, authorization?: string | null) {
+  if (authorization === undefined) {
+    authorization = `tma ${await signInitData(42)}`;
+  }
+  const request = new Request("https://app.test/api/graphql", {
+    method: "POST",
+    headers: authorization ? { Authorization: authorization } : {},
+    body: JSON.stringify(body),
+  });
+  const response = await onRequestPost(eventContext(request, env));
+  return { status: response.status, body: await response.json<any>() };
+}
+
+function createInput(metadata: { key: string; value: string }[]) {
+  return {
+    channel: "default-channel",
+    lines: [{ variantId: "UHJvZHVjdFZhcmlhbnQ6MjAx", quantity: 1 }],
+    metadata,
+    privateMetadata: [{ key: "telegram_invoice", value: "{}" }],
+  };
+}
+
+describe("POST /api/graphql", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("replaces the Telegram identity in the checkout metadata", async () => {
+    const calls = stubServices({
+      saleor: {
+        CheckoutCreate: () => ({
+          checkoutCreate: { checkout: { id: CHECKOUT_ID }, errors: [] },
+        }),
+      },
+    });
+
+    const response = await postGraphQL({
+      query: CHECKOUT_CREATE,
+      variables: {
+        input: createInput([
+          { key: "store_slug", value: "central" },
+          { key: "telegram_user_id", value: "999" },
+        ]),
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(calls[0].input.input).toEqual({
+      channel: "default-channel",
+      lines: [{ variantId: "UHJvZHVjdFZhcmlhbnQ6MjAx", quantity: 1 }],
+      metadata: [
+        { key: "store_slug", value: "central" },
+        { key: "telegram_user_id", value: "42" },
+        { key: "telegram_username", value: "" },
+      ],
+    });
+  });
+
+  it("rejects a root field selected again under an alias", async () => {
+    const calls = stubServices({});
+
+    const created = await postGraphQL({
+      query: `
+        mutation CheckoutCreate($a: CheckoutCreateInput!, $b: CheckoutCreateInput!) {
+          checkoutCreate(input: $a) { checkout { id } }
+          forged: checkoutCreate(input: $b) { checkout { id } }
+        }
+      `,
+      variables: {
+        a: createInput([]),
+        b: createInput([{ key: "telegram_user_id", value: "999" }]),
+      },
+    });
+    const updated = await postGraphQL({
+      query: `
+        mutation CheckoutMetadataUpdate($id: ID!, $metadata: [MetadataInput!]!, $order: ID!, $forged: [MetadataInput!]!) {
+          updateMetadata(id: $id, input: $metadata) { errors { message } }
+          forged: updateMetadata(id: $order, input: $forged) { errors { message } }
+        }
+      `,
+      variables: {
+        id: CHECKOUT_ID,
+        metadata: [{ key: "order_time", value: "asap" }],
+        order: ORDER_ID,
+        forged: [{ key: "telegram_user_id", value: "999" }],
+      },
+    });
+
+    expect(created).toEqual({
+      status: 403,
+      body: { error: "Operation CheckoutCreate repeats or aliases a field." },
+    });
+    expect(updated.status).toBe(403);
+    expect(calls).toEqual([]);
+  });
+
+  it("rejects metadata written as a literal", async () => {
+    const calls = stubServices({});
+
+    const literal = await postGraphQL({
+      query: `
+        mutation CheckoutCreate {
+          checkoutCreate(input: { channel: "default-channel", lines: [], metadata: [{ key: "telegram_user_id", value: "999" }] }) { checkout { id } }
+        }
+      `,
+    });
+
+    expect(literal).toEqual({
+      status: 403,
+      body: { error: "Metadata must be passed as a variable." },
+    });
+    expect(calls).toEqual([]);
+  });
+
+  it("limits metadata updates to checkouts and the app's keys", async () => {
+    const calls = stubServices({
+      saleor: {
+        CheckoutMetadataUpdate: () => ({ updateMetadata: { errors: [] } }),
+      },
+    });
+    const update = (id: string, key: string) =>
+      postGraphQL({
+        query: METADATA_UPDATE,
+        variables: { id, metadata: [{ key, value: "asap" }] },
+      });
+
+    expect((await update(CHECKOUT_ID, "order_time")).status).toBe(200);
+    expect(await update(ORDER_ID, "order_time")).toEqual({
+      status: 403,
+      body: { error: "Only checkout metadata can be updated." },
+    });
+    expect(await update(CHECKOUT_ID, "telegram_user_id")).toEqual({
+      status: 403,
+      body: { error: "These metadata keys cannot be updated." },
+    });
+    expect(calls).toHaveLength(1);
+  });
+
+  it("rejects operations the app does not send", async () => {
+    stubServices({});
+
+    expect(await postGraphQL({ query: "query Me { me { email } }" })).toEqual({
+      status: 403,
+      body: { error: "Operation Me is not allowed." },
+    });
+    expect(
+      (
+        await postGraphQL({
+          query: "query Channels { channels { slug } me { email } }",
+        })
+      ).status,
+    ).toBe(403);
+  });
+
+  it("requires valid init data", async () => {
+    const calls = stubServices({});
+    const query = { query: "query Channels { channels { slug } }" };
+    const params = new URLSearchParams(await signInitData(42));
+    params.set("user", JSON.stringify({ id: 7 }));
+    const expired = await signInitData(42, Date.now() - 48 * 60 * 60 * 1000);
+
+    expect(await postGraphQL(query, null)).toEqual({
+      status: 401,
+      body: { error: "Telegram init data is required." },
+    });
+    expect(await postGraphQL(query, `tma ${params}`)).toEqual({
+      status: 401,
+      body: { error: "Init data signature is invalid." },
+    });
+    expect(await postGraphQL(query, `tma ${expired}`)).toEqual({
+      status: 401,
+      body: { error: "Init data has expired." },
+    });
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("POST /api/graphql with payments", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const CHECKOUT_COMPLETE = `
+    mutation CheckoutComplete($id: ID!) {
+      checkoutComplete(id: $id) { order { id } errors { message } }
+    }
+  `;
+
+  async function complete() {
+    const request = new Request("https://app.test/api/graphql", {
+      method: "POST",
+      headers: { Authorization: `tma ${await signInitData(42)}` },
+      body: JSON.stringify({
+        query: CHECKOUT_COMPLETE,
+        variables: { id: CHECKOUT_ID },
+      }),
+    });
+    const response = await onRequestPost(
+      eventContext(request, { ...env, VITE_PAYMENTS_API_URL: "/api/invoice" }),
+    );
+    return { status: response.status, body: await response.json<any>() };
+  }
+
+  function stubCheckoutTotal(amount: number) {
+    return stubServices({
+      saleor: {
+        ProxyCheckoutTotal: () => ({
+          checkout: { totalPrice: { gross: { amount } } },
+        }),
+        CheckoutComplete: () => ({
+          checkoutComplete: { order: { id: ORDER_ID }, errors: [] },
+        }),
+      },
+    });
+  }
+
+  it("refuses to complete a checkout that has something to pay", async () => {
+    const calls = stubCheckoutTotal(11.5);
+
+    expect(await complete()).toEqual({
+      status: 403,
+      body: { error: "This order has to be paid first." },
+    });
+    expect(calls).toEqual([
+      { name: "ProxyCheckoutTotal", input: { id: CHECKOUT_ID } },
+    ]);
+  });
+
+  it("completes a checkout with nothing to pay", async () => {
+    const calls = stubCheckoutTotal(0);
+
+    expect((await complete()).status).toBe(200);
+    expect(calls.map(({ name }) => name)).toEqual([
+      "ProxyCheckoutTotal",
+      "CheckoutComplete",
+    ]);
+  });
+});
+
+describe("POST /api/graphql with option prices", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const CHECKOUT_LINES_ADD = `
+    mutation CheckoutLinesAdd($id: ID!, $lines: [CheckoutLineInput!]!) {
+      checkoutLinesAdd(id: $id, lines: $lines) {
+        checkout { ...Totals }
+        errors { message }
+      }
+    }
+    fragment Totals on Checkout { id totalPrice { gross { amount } } }
+  `;
+
+  async function addLines() {
+    const request = new Request("https://app.test/api/graphql", {
+      method: "POST",
+      headers: { Authorization: `tma ${await signInitData(42)}` },
+      body: JSON.stringify({
+        query: CHECKOUT_LINES_ADD,
+        variables: {
+          id: CHECKOUT_ID,
+          lines: [{ variantId: "UHJvZHVjdFZhcmlhbnQ6MjAx", quantity: 2 }],
+        },
+      }),
+    });
+    const response = await onRequestPost(
+      eventContext(request, { ...env, SALEOR_APP_TOKEN: "app-token" }),
+    );
+    return { status: response.status, body: await response.json<any>() };
+  }
+
+  const totals = (amount: number) => ({
+    id: CHECKOUT_ID,
+    totalPrice: { gross: { amount } },
+  });
+
+  it("prices option lines and returns the repriced checkout", async () => {
+    const calls = stubServices({
+      saleor: {
+        CheckoutLinesAdd: () => ({
+          checkoutLinesAdd: { checkout: totals(10.5), errors: [] },
+        }),
+        OptionLines: () => optionLinesCheckout(4.5),
+        PriceOptionLines: () => ({ checkoutLinesUpdate: { errors: [] } }),
+        ProxyCheckout: () => ({ checkout: totals(11.5) }),
+      },
+    });
+
+    expect(await addLines()).toEqual({
+      status: 200,
+      body: {
+        data: { checkoutLinesAdd: { checkout: totals(11.5), errors: [] } },
+      },
+    });
+    expect(calls.map(({ name }) => name)).toEqual([
+      "CheckoutLinesAdd",
+      "OptionLines",
+      "PriceOptionLines",
+      "ProxyCheckout",
+    ]);
+    expect(calls[3].input).toEqual({ id: CHECKOUT_ID });
+  });
+
+  it("reports a checkout whose option prices could not be set", async () => {
+    stubServices({
+      saleor: {
+        CheckoutLinesAdd: () => ({
+          checkoutLinesAdd: { checkout: totals(10.5), errors: [] },
+        }),
+        OptionLines: () => optionLinesCheckout(4.5),
+        PriceOptionLines: () => {
+          throw new Error("You need HANDLE_CHECKOUTS.");
+        },
+      },
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await addLines()).toEqual({
+      status: 502,
+      body: { error: "The option prices could not be applied." },
+    });
+  });
+});
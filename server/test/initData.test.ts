@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { readInitDataHeader, validateInitData } from "../initData";
+import { BOT_TOKEN, signInitData } from "./stubs";
+
+const NOW = Date.parse("2026-10-18T09:30:00Z");
+
+describe("validateInitData", () => {
+  it("returns the user and auth date of signed init data", async () => {
+    const initData = await signInitData(42, NOW - 60_000);
+
+    expect(await validateInitData(initData, BOT_TOKEN, undefined, NOW)).toEqual(
+      {
+        user: { id: 42, first_name: "Test" },
+        authDate: Math.floor((NOW - 60_000) / 1000),
+        startParam: null,
+      },
+    );
+  });
+
+  it("rejects a hash that does not match the data", async () => {
+    const params = new URLSearchParams(await signInitData(42, NOW));
+    params.set("user", JSON.stringify({ id: 7, first_name: "Test" }));
+
+    await expect(
+      validateInitData(params.toString(), BOT_TOKEN, undefined, NOW),
+    ).rejects.toThrow("Init data signature is invalid.");
+    await expect(
+      validateInitData(await signInitData(42, NOW), "654321:OTHER"),
+    ).rejects.toThrow("Init data signature is invalid.");
+  });
+
+  it("rejects unsigned init data", async () => {
+    const params = new URLSearchParams(await signInitData(42, NOW));
+    params.delete("hash");
+
+    await expect(
+      validateInitData(params.toString(), BOT_TOKEN, undefined, NOW),
+    ).rejects.toThrow("Init data is not signed.");
+  });
+
+  it("rejects an auth_date older than the maximum age", async () => {
+    const initData = await signInitData(42, NOW - 2 * 60 * 60 * 1000);
+
+    await expect(
+      validateInitData(initData, BOT_TOKEN, 60 * 60, NOW),
+    ).rejects.toThrow("Init data has expired.");
+    expect(
+      (await validateInitData(initData, BOT_TOKEN, undefined, NOW)).user?.id,
+    ).toBe(42);
+  });
+});
+
+describe("readInitDataHeader", () => {
+  it("reads the tma authorization scheme", () => {
+    const request = (authorization: string) =>
+      new Request("https://app.test/", {
+        headers: { Authorization: authorization },
+      });
+
+    expect(readInitDataHeader(request("tma auth_date=1&hash=ab"))).toBe(
+      "auth_date=1&hash=ab",
+    );
+    expect(readInitDataHeader(request("Bearer token"))).toBeNull();
+  });
+});
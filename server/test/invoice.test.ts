@@ -0,0 +1,303 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { onRequestGet, onRequestPost } from "../../functions/api/invoice";
+import {
+  BOT_TOKEN,
+  eventContext,
+  optionLinesCheckout,
+  SALEOR_API_URL,
+  signInitData,
+  stubServices,
+  TELEGRAM_API_URL,
+} from "./stubs";
+
+// Pages Functions cannot hold tests (every file becomes a route), so the
+// invoice Function is tested from here against the stubbed services.
+
+const env = {
+  TELEGRAM_BOT_TOKEN: BOT_TOKEN,
+  TELEGRAM_API_URL,
+  TELEGRAM_PAYMENT_PROVIDER_TOKEN: "provider-token",
+  VITE_SALEOR_API_URL: SALEOR_API_URL,
+  SALEOR_APP_TOKEN: "app-token",
+};
+
+const CHECKOUT_ID = "Q2hlY2tvdXQ6MQ==";
+const INVOICE_URL = "https://t.me/$invoice-1";
+
+// The checkout's lines have no options, so nothing is repriced.
+const optionLines = () => ({ checkout: { lines: [] } });
+
+function makeCheckout(overrides: Record<string, unknown> = {}) {
+  return {
+    id: CHECKOUT_ID,
+    chargeStatus: "NONE",
+    storeSlug: "central",
+    invoice: null,
+    lines: [
+      {
+        quantity: 2,
+        variant: { name: "Large", product: { name: "Latte" } },
+      },
+    ],
+    totalPrice: { gross: { amount: 12.5, currency: "USD" } },
+    ...overrides,
+  };
+}
+
+async function postInvoice(body: unknown = { checkoutId: CHECKOUT_ID }) {
+  const request = new Request("https://app.test/api/invoice", {
+    method: "POST",
+    headers: { Authorization: `tma ${await signInitData(42)}` },
+    body: JSON.stringify(body),
+  });
+  const response = await onRequestPost(eventContext(request, env));
+  return { status: response.status, body: await response.json<any>() };
+}
+
+async function getOrder(userId = 42) {
+  const request = new Request(
+    `https://app.test/api/invoice?checkoutId=${encodeURIComponent(CHECKOUT_ID)}`,
+    { headers: { Authorization: `tma ${await signInitData(userId)}` } },
+  );
+  const response = await onRequestGet(eventContext(request, env));
+  return { status: response.status, body: await response.json<any>() };
+}
+
+describe("POST /api/invoice", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("creates an invoice for the Saleor total and saves the link", async () => {
+    const calls = stubServices({
+      saleor: {
+        InvoiceCheckout: () => ({ checkout: makeCheckout() }),
+        OptionLines: optionLines,
+        SaveInvoice: () => ({ updatePrivateMetadata: { errors: [] } }),
+      },
+      botApi: { createInvoiceLink: () => INVOICE_URL },
+    });
+
+    expect(await postInvoice()).toEqual({
+      status: 200,
+      body: { invoiceUrl: INVOICE_URL, paid: false },
+    });
+    expect(calls.map(({ name }) => name)).toEqual([
+      "InvoiceCheckout",
+      "OptionLines",
+      "createInvoiceLink",
+      "SaveInvoice",
+    ]);
+    expect(calls[2].input).toEqual({
+      title: "Order · central",
+      description: "2 × Latte (Large)",
+      payload: CHECKOUT_ID,
+      provider_token: "provider-token",
+      currency: "USD",
+      prices: [{ label: "Order total", amount: 1250 }],
+    });
+    expect(JSON.parse(calls[3].input.invoice)).toEqual({
+      url: INVOICE_URL,
+      amount: 1250,
+      currency: "USD",
+    });
+  });
+
+  it("reuses the saved invoice while the total is the same", async () => {
+    const invoice = JSON.stringify({
+      url: INVOICE_URL,
+      amount: 1250,
+      currency: "USD",
+    });
+    const calls = stubServices({
+      saleor: {
+        InvoiceCheckout: () => ({ checkout: makeCheckout({ invoice }) }),
+        OptionLines: optionLines,
+      },
+    });
+
+    expect((await postInvoice()).body).toEqual({
+      invoiceUrl: INVOICE_URL,
+      paid: false,
+    });
+    expect(calls.map(({ name }) => name)).toEqual([
+      "InvoiceCheckout",
+      "OptionLines",
+    ]);
+  });
+
+  it("creates a new invoice when the total has changed", async () => {
+    const invoice = JSON.stringify({
+      url: INVOICE_URL,
+      amount: 900,
+      currency: "USD",
+    });
+    const calls = stubServices({
+      saleor: {
+        InvoiceCheckout: () => ({ checkout: makeCheckout({ invoice }) }),
+        OptionLines: optionLines,
+        SaveInvoice: () => ({ updatePrivateMetadata: { errors: [] } }),
+      },
+      botApi: { createInvoiceLink: () => "https://t.me/$invoice-2" },
+    });
+
+    expect((await postInvoice()).body.invoiceUrl).toBe(
+      "https://t.me/$invoice-2",
+    );
+    expect(calls.map(({ name }) => name)).toContain("createInvoiceLink");
+  });
+
+  it("prices option lines before reading the total", async () => {
+    const totals = [10.5, 11.5];
+    const calls = stubServices({
+      saleor: {
+        InvoiceCheckout: () => ({
+          checkout: makeCheckout({
+            totalPrice: { gross: { amount: totals.shift(), currency: "USD" } },
+          }),
+        }),
+        OptionLines: () => optionLinesCheckout(4.5),
+        PriceOptionLines: () => ({ checkoutLinesUpdate: { errors: [] } }),
+        SaveInvoice: () => ({ updatePrivateMetadata: { errors: [] } }),
+      },
+      botApi: { createInvoiceLink: () => INVOICE_URL },
+    });
+
+    await postInvoice();
+    expect(calls.map(({ name }) => name)).toEqual([
+      "InvoiceCheckout",
+      "OptionLines",
+      "PriceOptionLines",
+      "InvoiceCheckout",
+      "createInvoiceLink",
+      "SaveInvoice",
+    ]);
+    expect(calls[4].input.prices).toEqual([
+      { label: "Order total", amount: 1150 },
+    ]);
+  });
+
+  it("retries the completion of a charged checkout instead of invoicing it", async () => {
+    const calls = stubServices({
+      saleor: {
+        InvoiceCheckout: () => ({
+          checkout: makeCheckout({ chargeStatus: "FULL" }),
+        }),
+        CompletePaidCheckout: () => {
+          throw new Error("Insufficient stock.");
+        },
+      },
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await postInvoice()).toEqual({ status: 200, body: { paid: true } });
+    expect(calls.map(({ name }) => name)).toEqual([
+      "InvoiceCheckout",
+      "CompletePaidCheckout",
+    ]);
+  });
+
+  it("rejects requests without a checkout or with nothing to pay", async () => {
+    stubServices({
+      saleor: {
+        InvoiceCheckout: () => ({
+          checkout: makeCheckout({
+            totalPrice: { gross: { amount: 0, currency: "USD" } },
+          }),
+        }),
+        OptionLines: optionLines,
+      },
+    });
+
+    expect((await postInvoice({})).status).toBe(400);
+    expect(await postInvoice()).toEqual({
+      status: 400,
+      body: { error: "The checkout has nothing to pay." },
+    });
+  });
+
+  it("reports Bot API failures", async () => {
+    stubServices({
+      saleor: {
+        InvoiceCheckout: () => ({ checkout: makeCheckout() }),
+        OptionLines: optionLines,
+      },
+      botApi: {
+        createInvoiceLink: () => {
+          throw new Error("Bad Request: CURRENCY_INVALID");
+        },
+      },
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await postInvoice()).toEqual({
+      status: 502,
+      body: { error: "Telegram could not create the invoice." },
+    });
+  });
+
+  it("requires valid init data", async () => {
+    const calls = stubServices({});
+    const request = new Request("https://app.test/api/invoice", {
+      method: "POST",
+      headers: { Authorization: "tma user=%7B%7D&hash=00" },
+      body: JSON.stringify({ checkoutId: CHECKOUT_ID }),
+    });
+
+    const response = await onRequestPost(eventContext(request, env));
+    expect(response.status).toBe(401);
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("GET /api/invoice", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const order = {
+    id: "T3JkZXI6MQ==",
+    number: 1042,
+    status: "UNFULFILLED",
+    created: "2026-10-18T09:30:00Z",
+    userId: "42",
+    total: { gross: { amount: 12.5, currency: "USD" } },
+  };
+
+  it("returns the order placed from the checkout", async () => {
+    const calls = stubServices({
+      saleor: {
+        CheckoutOrder: () => ({ orders: { edges: [{ node: order }] } }),
+      },
+    });
+
+    expect(await getOrder()).toEqual({
+      status: 200,
+      body: {
+        order: {
+          id: "T3JkZXI6MQ==",
+          number: "1042",
+          status: "UNFULFILLED",
+          created: "2026-10-18T09:30:00Z",
+          total: { amount: 12.5, currency: "USD" },
+        },
+      },
+    });
+    expect(calls[0].input).toEqual({ checkoutId: CHECKOUT_ID });
+  });
+
+  it("hides orders that are missing or belong to someone else", async () => {
+    stubServices({
+      saleor: {
+        CheckoutOrder: () => ({ orders: { edges: [{ node: order }] } }),
+      },
+    });
+    expect((await getOrder(7)).body).toEqual({ order: null });
+
+    stubServices({
+      saleor: { CheckoutOrder: () => ({ orders: { edges: [] } }) },
+    });
+    expect((await getOrder()).body).toEqual({ order: null });
+  });
+});
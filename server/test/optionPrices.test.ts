@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { priceOptionLines } from "../optionPrices";
+import {
+  OPTION_LINE_ID,
+  optionLinesCheckout,
+  SALEOR_API_URL,
+  stubServices,
+} from "./stubs";
+
+const env = {
+  VITE_SALEOR_API_URL: SALEOR_API_URL,
+  SALEOR_APP_TOKEN: "app-token",
+};
+
+const CHECKOUT_ID = "Q2hlY2tvdXQ6MQ==";
+
+describe("priceOptionLines", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("adds the option price deltas to lines Saleor priced at the variant price", async () => {
+    const calls = stubServices({
+      saleor: {
+        OptionLines: () => optionLinesCheckout(4.5),
+        PriceOptionLines: () => ({ checkoutLinesUpdate: { errors: [] } }),
+      },
+    });
+
+    expect(await priceOptionLines(env, CHECKOUT_ID)).toBe(true);
+    expect(calls[1]).toEqual({
+      name: "PriceOptionLines",
+      input: {
+        id: CHECKOUT_ID,
+        lines: [{ lineId: OPTION_LINE_ID, quantity: 2, price: 5 }],
+      },
+    });
+  });
+
+  it("leaves lines that already have their price", async () => {
+    const calls = stubServices({
+      saleor: { OptionLines: () => optionLinesCheckout(5) },
+    });
+
+    expect(await priceOptionLines(env, CHECKOUT_ID)).toBe(false);
+    expect(calls.map(({ name }) => name)).toEqual(["OptionLines"]);
+  });
+
+  it("fails when Saleor rejects the price or no app token is set", async () => {
+    stubServices({
+      saleor: {
+        OptionLines: () => optionLinesCheckout(4.5),
+        PriceOptionLines: () => ({
+          checkoutLinesUpdate: {
+            errors: [{ field: "price", message: "Permission denied." }],
+          },
+        }),
+      },
+    });
+
+    await expect(priceOptionLines(env, CHECKOUT_ID)).rejects.toThrow(
+      "Permission denied.",
+    );
+    await expect(
+      priceOptionLines({ VITE_SALEOR_API_URL: SALEOR_API_URL }, CHECKOUT_ID),
+    ).rejects.toThrow("SALEOR_APP_TOKEN is not configured.");
+  });
+});
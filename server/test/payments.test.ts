@@ -0,0 +1,209 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  answerPreCheckoutQuery,
+  recordPayment,
+  type SuccessfulPayment,
+} from "../payments";
+import {
+  BOT_TOKEN,
+  SALEOR_API_URL,
+  stubServices,
+  TELEGRAM_API_URL,
+} from "./stubs";
+
+const env = {
+  TELEGRAM_BOT_TOKEN: BOT_TOKEN,
+  TELEGRAM_API_URL,
+  VITE_SALEOR_API_URL: SALEOR_API_URL,
+  SALEOR_APP_TOKEN: "app-token",
+};
+
+const CHECKOUT_ID = "Q2hlY2tvdXQ6MQ==";
+
+function makeCheckout(overrides: Record<string, unknown> = {}) {
+  return {
+    id: CHECKOUT_ID,
+    chargeStatus: "NONE",
+    totalPrice: { gross: { amount: 12.5, currency: "USD" } },
+    transactions: [],
+    ...overrides,
+  };
+}
+
+const payment: SuccessfulPayment = {
+  currency: "USD",
+  total_amount: 1250,
+  invoice_payload: CHECKOUT_ID,
+  telegram_payment_charge_id: "tg-charge-1",
+  provider_payment_charge_id: "provider-charge-1",
+};
+
+const completed = {
+  checkoutComplete: {
+    order: {
+      id: "T3JkZXI6MQ==",
+      number: 1042,
+      status: "UNFULFILLED",
+      created: "2026-10-18T09:30:00Z",
+      total: { gross: { amount: 12.5, currency: "USD" } },
+    },
+    errors: [],
+  },
+};
+
+describe("answerPreCheckoutQuery", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const query = {
+    id: "query-1",
+    currency: "USD",
+    total_amount: 1250,
+    invoice_payload: CHECKOUT_ID,
+  };
+
+  async function answer(checkout: unknown) {
+    const calls = stubServices({
+      saleor: { PaymentCheckout: () => ({ checkout }) },
+      botApi: { answerPreCheckoutQuery: () => true },
+    });
+    await answerPreCheckoutQuery(env, query);
+    return calls.find(({ name }) => name === "answerPreCheckoutQuery")!.input;
+  }
+
+  it("accepts an unpaid checkout with the invoiced total", async () => {
+    expect(await answer(makeCheckout())).toEqual({
+      pre_checkout_query_id: "query-1",
+      ok: true,
+    });
+  });
+
+  it("rejects paid, changed and missing checkouts", async () => {
+    expect(await answer(makeCheckout({ chargeStatus: "FULL" }))).toEqual({
+      pre_checkout_query_id: "query-1",
+      ok: false,
+      error_message: "This order has already been paid.",
+    });
+    expect(
+      await answer(
+        makeCheckout({
+          totalPrice: { gross: { amount: 14, currency: "USD" } },
+        }),
+      ),
+    ).toMatchObject({ ok: false });
+    expect(await answer(null)).toMatchObject({
+      ok: false,
+      error_message: "This order is no longer available.",
+    });
+  });
+});
+
+describe("recordPayment", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("records the charge as a transaction and completes the checkout", async () => {
+    const calls = stubServices({
+      saleor: {
+        PaymentCheckout: () => ({ checkout: makeCheckout() }),
+        RecordTelegramPayment: () => ({
+          transactionCreate: { transaction: { id: "tr-1" }, errors: [] },
+        }),
+        CompletePaidCheckout: () => completed,
+      },
+    });
+
+    expect(await recordPayment(env, payment)).toEqual({
+      id: "T3JkZXI6MQ==",
+      number: "1042",
+      status: "UNFULFILLED",
+      created: "2026-10-18T09:30:00Z",
+      total: { amount: 12.5, currency: "USD" },
+    });
+    expect(calls.map(({ name }) => name)).toEqual([
+      "PaymentCheckout",
+      "RecordTelegramPayment",
+      "CompletePaidCheckout",
+    ]);
+    expect(calls[1].input).toEqual({
+      id: CHECKOUT_ID,
+      transaction: {
+        name: "Telegram Payments",
+        pspReference: "tg-charge-1",
+        amountCharged: { amount: 12.5, currency: "USD" },
+        metadata: [{ key: "telegram_payment_charge_id", value: "tg-charge-1" }],
+        privateMetadata: [
+          { key: "provider_payment_charge_id", value: "provider-charge-1" },
+        ],
+      },
+    });
+  });
+
+  it("does not record a redelivered payment twice", async () => {
+    const calls = stubServices({
+      saleor: {
+        PaymentCheckout: () => ({
+          checkout: makeCheckout({
+            chargeStatus: "FULL",
+            transactions: [{ pspReference: "tg-charge-1" }],
+          }),
+        }),
+        CompletePaidCheckout: () => completed,
+      },
+    });
+
+    await recordPayment(env, payment);
+    expect(calls.map(({ name }) => name)).toEqual([
+      "PaymentCheckout",
+      "CompletePaidCheckout",
+    ]);
+  });
+
+  it("returns the existing order of a completed checkout", async () => {
+    const calls = stubServices({
+      saleor: {
+        PaymentCheckout: () => ({ checkout: null }),
+        CheckoutOrder: () => ({
+          orders: {
+            edges: [
+              {
+                node: {
+                  ...completed.checkoutComplete.order,
+                  userId: "42",
+                },
+              },
+            ],
+          },
+        }),
+      },
+    });
+
+    expect(await recordPayment(env, payment)).toMatchObject({
+      number: "1042",
+      userId: "42",
+    });
+    expect(calls.map(({ name }) => name)).toEqual([
+      "PaymentCheckout",
+      "CheckoutOrder",
+    ]);
+  });
+
+  it("fails when Saleor rejects the transaction", async () => {
+    stubServices({
+      saleor: {
+        PaymentCheckout: () => ({ checkout: makeCheckout() }),
+        RecordTelegramPayment: () => ({
+          transactionCreate: {
+            transaction: null,
+            errors: [{ field: "id", message: "Not allowed." }],
+          },
+        }),
+      },
+    });
+
+    await expect(recordPayment(env, payment)).rejects.toThrow("Not allowed.");
+  });
+});
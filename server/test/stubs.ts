@@ -0,0 +1,183 @@
+import { vi } from "vitest";
+
+import { hmacSha256, toHex } from "../crypto";
+
+// Stand-ins for the Bot API and Saleor that the Functions call over fetch.
+
+export const BOT_TOKEN = "123456:TEST";
+export const TELEGRAM_API_URL = "https://bot-api.test";
+export const SALEOR_API_URL = "https://saleor.test/graphql/";
+
+type Handler = (input: any) => unknown;
+
+export type StubCall = { name: string; input: any };
+
+/**
+ * Routes fetch to `botApi` handlers by method name and to `saleor` handlers
+ * by operation name. Handlers return the Bot API `result` or the GraphQL
+ * `data`, or throw to answer with an error; every call is recorded in order.
+ */
+export function stubServices({
+  botApi = {},
+  saleor = {},
+}: {
+  botApi?: Record<string, Handler>;
+  saleor?: Record<string, Handler>;
+}) {
+  const calls: StubCall[] = [];
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string, init?: RequestInit) => {
+      const url = String(input);
+      const body = JSON.parse(String(init?.body ?? "{}"));
+
+      if (url.startsWith(`${TELEGRAM_API_URL}/bot${BOT_TOKEN}/`)) {
+        const method = url.slice(url.lastIndexOf("/") + 1);
+        calls.push({ name: method, input: body });
+        const handler = botApi[method];
+        if (!handler) {
+          return Response.json(
+            { ok: false, error_code: 404, description: "Not Found" },
+            { status: 404 },
+          );
+        }
+        try {
+          return Response.json({ ok: true, result: handler(body) });
+        } catch (error: any) {
+          return Response.json(
+            { ok: false, error_code: 400, description: error.message },
+            { status: 400 },
+          );
+        }
+      }
+
+      if (url === SALEOR_API_URL) {
+        const operation =
+          String(body.query).match(/(?:query|mutation)\s+(\w+)/)?.[1] || "";
+        calls.push({ name: operation, input: body.variables });
+        const handler = saleor[operation];
+        if (!handler) {
+          throw new Error(`Unexpected Saleor operation ${operation}.`);
+        }
+        try {
+          return Response.json({ data: handler(body.variables) });
+        } catch (error: any) {
+          return Response.json({ errors: [{ message: error.message }] });
+        }
+      }
+
+      throw new Error(`Unexpected request to ${url}.`);
+    }),
+  );
+
+  return calls;
+}
+
+/**
+ * Signs init data for `userId` with `BOT_TOKEN` the way Telegram does.
+ */
+export async function signInitData(userId: number, authDate = Date.now()) {
+  const params = new URLSearchParams({
+    auth_date: String(Math.floor(authDate / 1000)),
+    user: JSON.stringify({ id: userId, first_name: "Test" }),
+  });
+  const dataCheckString = Array.from(params.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+  const secretKey = await hmacSha256(
+    new TextEncoder().encode("WebAppData"),
+    BOT_TOKEN,
+  );
+  params.set("hash", toHex(await hmacSha256(secretKey, dataCheckString)));
+  return params.toString();
+}
+
+type FunctionContext<Env> = EventContext<Env, string, Record<string, unknown>>;
+
+/**
+ * The context Pages passes to a Function, for calling `onRequest*` handlers
+ * directly. Requests built in tests have no Cloudflare `cf` properties.
+ */
+export function eventContext<Env>(
+  request: Request,
+  env: Env,
+): FunctionContext<Env> {
+  return {
+    request: request as FunctionContext<Env>["request"],
+    env: {
+      ...env,
+      ASSETS: { fetch: () => Promise.reject(new Error("No assets.")) },
+    },
+    functionPath: new URL(request.url).pathname,
+    params: {},
+    data: {},
+    waitUntil: () => {},
+    passThroughOnException: () => {},
+    next: () => Promise.reject(new Error("No next handler.")),
+  };
+}
+
+export const OPTION_LINE_ID = "Q2hlY2tvdXRMaW5lOjEwMQ==";
+
+/**
+ * `OptionLines` data of a checkout with two oat lattes: the variant costs
+ * 4.50 and oat milk adds 0.50. `unitPrice` is what Saleor charges now.
+ */
+export function optionLinesCheckout(unitPrice: number) {
+  const money = (amount: number) => ({ gross: { amount, currency: "USD" } });
+  return {
+    checkout: {
+      lines: [
+        {
+          id: OPTION_LINE_ID,
+          quantity: 2,
+          cartKey: "UHJvZHVjdFZhcmlhbnQ6MjAx|QXR0cmlidXRlVmFsdWU6MzI=",
+          unitPrice: money(unitPrice),
+          variant: {
+            id: "UHJvZHVjdFZhcmlhbnQ6MjAx",
+            pricing: { price: money(4.5) },
+            product: {
+              metadata: [{ key: "option_price:milk:oat", value: "0.5" }],
+              attributes: [
+                {
+                  attribute: {
+                    id: "QXR0cmlidXRlOjEx",
+                    slug: "milk",
+                    inputType: "DROPDOWN",
+                    choices: {
+                      edges: [
+                        {
+                          node: {
+                            id: "QXR0cmlidXRlVmFsdWU6MzE=",
+                            slug: "whole",
+                          },
+                        },
+                        {
+                          node: { id: "QXR0cmlidXRlVmFsdWU6MzI=", slug: "oat" },
+                        },
+                      ],
+                    },
+                  },
+                  values: [{ id: "QXR0cmlidXRlVmFsdWU6MzE=", slug: "whole" }],
+                },
+              ],
+            },
+          },
+        },
+        {
+          id: "Q2hlY2tvdXRMaW5lOjEwMg==",
+          quantity: 1,
+          cartKey: "service_fee",
+          unitPrice: money(1.5),
+          variant: {
+            id: "UHJvZHVjdFZhcmlhbnQ6OTk5",
+            pricing: { price: money(1.5) },
+            product: { metadata: [], attributes: [] },
+          },
+        },
+      ],
+    },
+  };
+}
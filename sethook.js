@@ -7,7 +7,8 @@ if (typeof fetch !== "function") {
   process.exit(1);
 }
 
-const { TELEGRAM_BOT_TOKEN, REMOTE_PATH } = process.env;
+const { TELEGRAM_BOT_TOKEN, REMOTE_PATH, TELEGRAM_WEBHOOK_SECRET } =
+  process.env;
 
 if (!TELEGRAM_BOT_TOKEN) {
   console.error("Missing TELEGRAM_BOT_TOKEN environment variable.");
@@ -19,22 +20,34 @@ if (!REMOTE_PATH) {
   process.exit(1);
 }
 
+// Telegram sends this value in the X-Telegram-Bot-Api-Secret-Token header;
+// the /telegram Function rejects updates without it.
+if (!/^[A-Za-z0-9_-]{1,256}$/.test(TELEGRAM_WEBHOOK_SECRET || "")) {
+  console.error(
+    "Missing or invalid TELEGRAM_WEBHOOK_SECRET environment variable (1-256 characters: A-Z, a-z, 0-9, _ and -).",
+  );
+  process.exit(1);
+}
+
 const trimmedBase = REMOTE_PATH.endsWith("/")
   ? REMOTE_PATH.slice(0, -1)
   : REMOTE_PATH;
 const webhookUrl = `${trimmedBase}/telegram`;
-const endpoint = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/setWebhook`;
+const apiBase = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}`;
 
-async function main() {
-  const response = await fetch(endpoint, {
+const commands = [
+  { command: "start", description: "Open the store" },
+  { command: "orders", description: "Show your recent orders" },
+  { command: "help", description: "How to use this bot" },
+];
+
+async function callTelegram(method, body) {
+  const response = await fetch(`${apiBase}/${method}`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({
-      url: webhookUrl,
-      drop_pending_updates: true,
-    }),
+    body: JSON.stringify(body),
   });
 
   let payload = null;
@@ -55,15 +68,27 @@ async function main() {
   }
 
   if (!payload?.ok) {
-    console.error("Webhook set failed!");
+    console.error(`${method} failed!`);
     if (payload) {
       console.error(JSON.stringify(payload, null, 2));
     }
     process.exit(1);
   }
+}
+
+async function main() {
+  await callTelegram("setWebhook", {
+    url: webhookUrl,
+    secret_token: TELEGRAM_WEBHOOK_SECRET,
+    allowed_updates: ["message", "pre_checkout_query"],
+    drop_pending_updates: true,
+  });
 
   console.log(webhookUrl);
   console.log("Webhook set successfully!");
+
+  await callTelegram("setMyCommands", { commands });
+  console.log("Bot commands registered.");
 }
 
 main().catch((error) => {
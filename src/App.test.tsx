@@ -0,0 +1,295 @@
+// @vitest-environment jsdom
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import App from "./App";
+import collectionProducts from "./test/saleor/collectionProducts.json";
+import storeCollections from "./test/saleor/storeCollections.json";
+import { mockSaleorServer } from "./test/saleorServer";
+import { backButton, mainButton, mainButtonParams } from "./test/telegramSdk";
+
+vi.mock("@tma.js/sdk-react", () => import("./test/telegramSdk"));
+
+// Monday 10:00 in Berlin, while the recorded Central Café is open.
+const OPEN_HOURS = new Date("2026-10-19T08:00:00Z");
+
+const CENTRAL = "Центральное кафе";
+const LATTE = "Латте";
+
+function toastText() {
+  return document.getElementById("toast")?.textContent || "";
+}
+
+// Amount of the order summary row labelled `label`.
+function summaryAmount(label: string) {
+  const row = Array.from(document.querySelectorAll(".order-summary__row")).find(
+    (element) => element.firstElementChild?.textContent === label,
+  );
+  return row?.lastElementChild?.textContent;
+}
+
+// Opens the Central Café menu on its coffee tab; Bakery comes first.
+async function openCentralMenu() {
+  fireEvent.click(await screen.findByText(CENTRAL));
+  fireEvent.click(await screen.findByRole("button", { name: "Кофе" }));
+  await screen.findByText(LATTE);
+}
+
+// Opens the latte sheet with oat milk chosen and returns its Small row.
+async function openOatLatte() {
+  fireEvent.click(screen.getByRole("button", { name: /^Options/ }));
+  const sheet = await screen.findByRole("dialog", { name: LATTE });
+  fireEvent.click(within(sheet).getByRole("button", { name: /^Oat/ }));
+  const small = within(sheet)
+    .getAllByRole("listitem")
+    .find((item) => within(item).queryByText("Small"))!;
+  return { sheet, small };
+}
+
+async function addOatLattes(quantity: number) {
+  const { sheet, small } = await openOatLatte();
+  fireEvent.click(within(small).getByRole("button", { name: "Add" }));
+  for (let count = 1; count < quantity; count += 1) {
+    fireEvent.click(within(small).getByRole("button", { name: "+" }));
+  }
+  fireEvent.click(within(sheet).getByRole("button", { name: "Close" }));
+}
+
+describe("App", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(OPEN_HOURS);
+    window.history.replaceState(null, "", "/");
+    window.localStorage.clear();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    mainButton.setParams.mockClear();
+    backButton.show.mockClear();
+  });
+
+  it("lists the stores and browses a menu by category", async () => {
+    const calls = mockSaleorServer();
+    render(<App />);
+
+    expect(await screen.findByText(CENTRAL)).toBeTruthy();
+    expect(screen.getByText("Harbour Bakery")).toBeTruthy();
+    expect(
+      calls.find(({ operation }) => operation === "StoreCollections"),
+    ).toMatchObject({ variables: { channel: "default-channel" } });
+
+    fireEvent.click(screen.getByText(CENTRAL));
+    expect(await screen.findByText("Croissant")).toBeTruthy();
+    expect(
+      screen.getByRole("heading", { name: CENTRAL, level: 1 }),
+    ).toBeTruthy();
+    expect(screen.getByText("Out of stock")).toBeTruthy();
+    expect(
+      (screen.getByRole("button", { name: "Add" }) as HTMLButtonElement)
+        .disabled,
+    ).toBe(true);
+    expect(backButton.show).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Кофе" }));
+    expect(await screen.findByText(LATTE)).toBeTruthy();
+    expect(screen.queryByText("Croissant")).toBeNull();
+    expect(screen.getByText("from $4.50")).toBeTruthy();
+  });
+
+  it("searches stores beyond the loaded page of the store grid", async () => {
+    const [centralEdge, harbourEdge] = storeCollections.data.collections.edges;
+    const croissant = collectionProducts.data.collection.products.edges.find(
+      ({ node }) => node.name === "Croissant",
+    )!.node;
+    const calls = mockSaleorServer({
+      StoreCollections: () => ({
+        data: {
+          collections: {
+            edges: [centralEdge],
+            pageInfo: { hasNextPage: true, endCursor: "WyJjZW50cmFsIl0=" },
+          },
+        },
+      }),
+      SearchProducts: () => ({
+        data: {
+          products: {
+            edges: [
+              { node: { ...croissant, collections: [harbourEdge.node] } },
+            ],
+          },
+        },
+      }),
+    });
+    render(<App />);
+    await screen.findByText(CENTRAL);
+    expect(screen.queryByText("Harbour Bakery")).toBeNull();
+
+    fireEvent.change(screen.getByLabelText("Search all stores"), {
+      target: { value: "croiss" },
+    });
+
+    expect(await screen.findByText("Harbour Bakery")).toBeTruthy();
+    expect(
+      calls.find(({ operation }) => operation === "SearchProducts"),
+    ).toMatchObject({ variables: { search: "croiss", collections: null } });
+  });
+
+  it("adds up the cart with option prices and the minimum order", async () => {
+    mockSaleorServer();
+    render(<App />);
+    await openCentralMenu();
+
+    await addOatLattes(1);
+    expect(document.getElementById("mini-cart-count")?.textContent).toBe(
+      "1 item",
+    );
+    expect(document.getElementById("mini-cart-total")?.textContent).toBe(
+      "$5.00",
+    );
+    expect(mainButtonParams()).toMatchObject({
+      text: "Add $5.00 more to order",
+      isEnabled: false,
+      isVisible: true,
+    });
+
+    const { sheet, small } = await openOatLatte();
+    expect(within(small).getByText("$5.00")).toBeTruthy();
+    fireEvent.click(within(small).getByRole("button", { name: "+" }));
+    fireEvent.click(within(sheet).getByRole("button", { name: "Close" }));
+    expect(document.getElementById("mini-cart-count")?.textContent).toBe(
+      "2 items",
+    );
+    expect(document.getElementById("mini-cart-total")?.textContent).toBe(
+      "$10.00",
+    );
+    expect(mainButtonParams()).toMatchObject({
+      text: "Review order · $10.00",
+      isEnabled: true,
+    });
+    expect(screen.getByRole("button", { name: "Options · 2" })).toBeTruthy();
+  });
+
+  it("submits the order through the Saleor checkout", async () => {
+    const calls = mockSaleorServer();
+    render(<App />);
+    await openCentralMenu();
+    await addOatLattes(2);
+
+    act(() => mainButton.click());
+    const sheet = await screen.findByRole("dialog", { name: "Review order" });
+    const reviewed = summaryAmount("Subtotal");
+    expect(reviewed).toBe("$10.00");
+    fireEvent.click(within(sheet).getByRole("button", { name: "Continue" }));
+
+    await screen.findByRole("dialog", { name: "Delivery details" });
+    const create = calls.find(
+      ({ operation }) => operation === "CheckoutCreate",
+    );
+    expect(create?.variables.input).toMatchObject({
+      channel: "default-channel",
+      email: "ada@telegram.local",
+      lines: [
+        { variantId: "UHJvZHVjdFZhcmlhbnQ6MjAx", quantity: 2 },
+        { variantId: "UHJvZHVjdFZhcmlhbnQ6OTk5", quantity: 1 },
+      ],
+    });
+    expect(create?.variables.input.metadata).toContainEqual({
+      key: "store_slug",
+      value: "central",
+    });
+
+    fireEvent.change(screen.getByLabelText(/^Phone/), {
+      target: { value: "+1 555 0100" },
+    });
+    fireEvent.change(screen.getByLabelText(/^Street address/), {
+      target: { value: "1 Station Road" },
+    });
+    fireEvent.change(screen.getByLabelText(/^City/), {
+      target: { value: "Springfield" },
+    });
+    fireEvent.submit(document.getElementById("address-form")!);
+
+    await screen.findByText("No delivery is needed for this order.");
+    // Saleor's totals charge the option prices the customer reviewed.
+    expect(summaryAmount("Subtotal")).toBe(reviewed);
+    expect(summaryAmount("Service fee")).toBe("$1.50");
+    expect(summaryAmount("Total")).toBe("$11.50");
+    expect(
+      calls.find(({ operation }) => operation === "CheckoutAddressesUpdate")
+        ?.variables.address,
+    ).toMatchObject({
+      firstName: "Ada",
+      lastName: "Lovelace",
+      streetAddress1: "1 Station Road",
+      city: "Springfield",
+      country: "US",
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Place order" }));
+    expect(await screen.findByText("Order #1042 placed")).toBeTruthy();
+    expect(calls[calls.length - 1].operation).toBe("CheckoutComplete");
+    expect(mainButtonParams()).toMatchObject({ isVisible: false });
+  });
+
+  it("shows a toast when the menu cannot be loaded", async () => {
+    mockSaleorServer({
+      CollectionProducts: () => ({
+        errors: [{ message: "Collection is not published." }],
+      }),
+    });
+    render(<App />);
+
+    fireEvent.click(await screen.findByText(CENTRAL));
+    await waitFor(() =>
+      expect(toastText()).toBe("Collection is not published."),
+    );
+    expect(screen.getByRole("button", { name: "Retry" })).toBeTruthy();
+  });
+
+  it("shows a toast when Saleor rejects the checkout", async () => {
+    mockSaleorServer({
+      CheckoutCreate: () => ({
+        data: {
+          checkoutCreate: {
+            checkout: null,
+            errors: [
+              {
+                field: "lines",
+                message: "Insufficient stock for Латте.",
+                code: "INSUFFICIENT_STOCK",
+              },
+            ],
+          },
+        },
+      }),
+    });
+    render(<App />);
+    await openCentralMenu();
+    await addOatLattes(2);
+
+    act(() => mainButton.click());
+    const sheet = await screen.findByRole("dialog", { name: "Review order" });
+    fireEvent.click(within(sheet).getByRole("button", { name: "Continue" }));
+
+    await waitFor(() =>
+      expect(toastText()).toBe(
+        "Checkout failed: Insufficient stock for Латте.",
+      ),
+    );
+    expect(screen.getByRole("dialog", { name: "Review order" })).toBeTruthy();
+  });
+});
@@ -1,70 +1,71 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
-  backButton,
   isTMA,
-  mainButton,
-  openLink,
   themeParams,
   useLaunchParams,
   useRawInitData,
   useSignal,
 } from "@tma.js/sdk-react";
 
-type Store = {
-  id: string;
-  slug: string;
-  name: string;
-  description: string;
-  image: string;
-  imageAlt: string;
-};
-
-type Product = {
-  id: string;
-  slug: string;
-  name: string;
-  description: string;
-  image: string;
-  imageAlt: string;
-  variantId: string | null;
-  variantName: string;
-  variantSku: string;
-  quantityAvailable: number | null;
-  priceAmount: number | null;
-  priceCurrency: string | null;
-};
-
-type Category = {
-  id: string;
-  name: string;
-  products: Product[];
-};
-
-type CartEntry = {
-  product: Product;
-  quantity: number;
-};
-
-type CartSummary = {
-  items: number;
-  total: {
-    amount: number;
-    currency: string;
-  };
-};
-
-type GraphQLError = {
-  message?: string;
-};
-
-const DEFAULT_TITLE = "Order goods";
-const DEFAULT_SUBTITLE =
-  "Pick a restaurant or shop powered by Saleor to start your Telegram order.";
+import type { CompletedOrder } from "./api/checkout";
+import { createQueryCache, type CachedRequest } from "./api/cache";
+import type { Category, OptionGroup, Product, Store } from "./api/catalog";
+import { createGraphQLRequest } from "./api/request";
+import type { SavedCartLine } from "./cart/cartStorage";
+import { useCart } from "./cart/useCart";
+import { findProductBySlug } from "./catalog/catalogStore";
+import { MenuView } from "./catalog/MenuView";
+import {
+  defaultOptionSelection,
+  toggleOptionChoice,
+  type OptionSelection,
+} from "./catalog/options";
+import { ProductCard } from "./catalog/ProductCard";
+import { ProductSheet } from "./catalog/ProductSheet";
+import { StoreListView } from "./catalog/StoreListView";
+import { stripHtml, truncateText } from "./catalog/text";
+import { useCatalog, type SearchResult } from "./catalog/useCatalog";
+import { useChannels } from "./catalog/useChannels";
+import { useProductSearch } from "./catalog/useProductSearch";
+import { useProductShare } from "./catalog/useProductShare";
+import { buildAddressBookKey } from "./checkout/addressStorage";
+import { OrderSheet } from "./checkout/OrderSheet";
+import { useCheckout } from "./checkout/useCheckout";
+import { parseStartParam, readStartParam } from "./deepLinks";
+import { errorMessage } from "./errors";
+import type { Locale } from "./i18n";
+import { useLocale } from "./i18n/useLocale";
+import { OrderConfirmation } from "./orders/OrderConfirmation";
+import type { OrderHistoryEntry } from "./orders/orderHistory";
+import { OrderHistoryView } from "./orders/OrderHistoryView";
+import { useOrderHistory } from "./orders/useOrderHistory";
+import {
+  ROOT_ROUTE,
+  routeFromDeepLink,
+  routeStoreSlug,
+  type CheckoutStep,
+  type Route,
+} from "./router";
+import { useBackButton } from "./telegram/useBackButton";
+import { useMainButton } from "./telegram/useMainButton";
+import { useInfiniteScroll } from "./useInfiniteScroll";
+import { useMinuteClock } from "./useMinuteClock";
+import { useOnlineStatus } from "./useOnlineStatus";
+import { usePullToRefresh } from "./usePullToRefresh";
+import { useRouter } from "./useRouter";
+import { useToast } from "./useToast";
+
+const SEARCH_CACHE_TTL = 60 * 1000;
+const CATALOG_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
 
 const DEFAULT_CONFIG = {
   saleorApiUrl: "https://demo.saleor.io/graphql/",
   saleorChannel: "default-channel",
   saleorDocsUrl: "https://docs.saleor.io",
+  // Seconds before cached stores and products are refreshed.
+  catalogCacheTtl: 5 * 60,
+  // Short name of the Mini App in @BotFather, used in shared links.
+  miniAppName: "app",
 };
 
 export default function App() {
@@ -72,15 +73,27 @@ export default function App() {
   const rawInitData = useRawInitData();
   const launchParams = useLaunchParams(true);
   const isTelegram = useMemo(() => isTMA(), []);
+  const isOnline = useOnlineStatus();
+  const now = useMinuteClock();
 
   const config = useMemo(
     () => ({
       saleorApiUrl:
         import.meta.env.VITE_SALEOR_API_URL || DEFAULT_CONFIG.saleorApiUrl,
+      graphqlProxyUrl: import.meta.env.VITE_GRAPHQL_PROXY_URL || "",
       saleorChannel:
         import.meta.env.VITE_SALEOR_CHANNEL || DEFAULT_CONFIG.saleorChannel,
       saleorDocsUrl:
         import.meta.env.VITE_SALEOR_DOCS_URL || DEFAULT_CONFIG.saleorDocsUrl,
+      paymentsApiUrl: import.meta.env.VITE_PAYMENTS_API_URL || "",
+      catalogCacheTtl: readSeconds(
+        import.meta.env.VITE_CATALOG_CACHE_TTL,
+        DEFAULT_CONFIG.catalogCacheTtl,
+      ),
+      ordersApiUrl: import.meta.env.VITE_ORDERS_API_URL || "",
+      botUsername: import.meta.env.VITE_TG_BOT_USERNAME || "",
+      miniAppName:
+        import.meta.env.VITE_TG_APP_NAME || DEFAULT_CONFIG.miniAppName,
     }),
     [],
   );
@@ -92,886 +105,772 @@ export default function App() {
 
   const telegramUser = launchParams?.tgWebAppData?.user || null;
 
-  const [stores, setStores] = useState<Store[]>([]);
-  const [storeEmptyMessage, setStoreEmptyMessage] = useState("Loading stores…");
-  const [selectedStore, setSelectedStore] = useState<Store | null>(null);
-  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(
-    null,
-  );
-  const [productsByCategory, setProductsByCategory] = useState<
-    Map<string, Category>
-  >(new Map());
-  const [productEmptyMessage, setProductEmptyMessage] = useState(
-    "This category has no products right now. Try another one.",
-  );
-  const [cart, setCart] = useState<Map<string, CartEntry>>(new Map());
-  const [currency, setCurrency] = useState<string | null>(null);
-  const [orderSheetVisible, setOrderSheetVisible] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
-  const [toast, setToast] = useState<{ message: string; visible: boolean }>({
-    message: "",
-    visible: false,
-  });
-  const toastTimerRef = useRef<number | null>(null);
-
-  const categories = useMemo(() => {
-    const values = Array.from(productsByCategory.values());
-    return values.sort((a, b) =>
-      a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+  // A `startapp` link decides the first screen unless the URL already has a
+  // route, e.g. after a reload.
+  const { route, canGoBack, navigate, back, backTo } = useRouter(() => {
+    const link = parseStartParam(
+      readStartParam(launchParams?.tgWebAppStartParam),
     );
-  }, [productsByCategory]);
+    return link ? routeFromDeepLink(link) : ROOT_ROUTE;
+  });
+  const routeRef = useRef(route);
+  routeRef.current = route;
+
+  const {
+    locale,
+    i18n,
+    languageCode,
+    isReady: isLocaleReady,
+    selectLocale: setLocale,
+  } = useLocale({
+    userId: telegramUser?.id,
+    telegramLanguageCode: telegramUser?.languageCode,
+    isTelegram,
+  });
+  const { t } = i18n;
+  const { toast, showToast } = useToast();
 
-  const selectedCategory = useMemo(() => {
-    if (!selectedCategoryId) {
-      return null;
-    }
-    return productsByCategory.get(selectedCategoryId) || null;
-  }, [productsByCategory, selectedCategoryId]);
+  const [detailProduct, setDetailProduct] = useState<Product | null>(null);
+  const [optionSelection, setOptionSelection] = useState<OptionSelection>({});
+  const [orderSheetVisible, setOrderSheetVisible] = useState(false);
+  const [checkoutStep, setCheckoutStep] = useState<CheckoutStep>("review");
+  const [completedOrder, setCompletedOrder] = useState<CompletedOrder | null>(
+    null,
+  );
+  const [ordersVisible, setOrdersVisible] = useState(false);
 
   useEffect(() => {
     document.documentElement.dataset.theme = isDark ? "dark" : "light";
   }, [isDark]);
 
-  useEffect(() => {
-    return () => {
-      if (toastTimerRef.current) {
-        window.clearTimeout(toastTimerRef.current);
-      }
-    };
-  }, []);
-
-  const showToast = useCallback((message: string, duration = 2800) => {
-    setToast({ message, visible: true });
-    if (toastTimerRef.current) {
-      window.clearTimeout(toastTimerRef.current);
-    }
-    toastTimerRef.current = window.setTimeout(() => {
-      setToast((prev) => ({ ...prev, visible: false }));
-    }, duration);
-  }, []);
-
-  const graphQLRequest = useCallback(
-    async (query: string, variables: Record<string, unknown>) => {
-      const headers: HeadersInit = { "Content-Type": "application/json" };
-      if (authHeader) {
-        headers.Authorization = authHeader;
-      }
-
-      const response = await fetch(config.saleorApiUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ query, variables }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "");
-        throw new Error(
-          `API request failed (${response.status}): ${
-            errorText || response.statusText
-          }`,
-        );
-      }
-
-      const payload = await response.json();
-      if (payload.errors?.length) {
-        throw new Error(
-          payload.errors
-            .map((err: GraphQLError) => err.message)
-            .filter(Boolean)
-            .join(", "),
-        );
-      }
+  // The proxy validates init data and talks to Saleor on our behalf.
+  const graphQLRequest = useMemo(
+    () =>
+      createGraphQLRequest({
+        url: config.graphqlProxyUrl || config.saleorApiUrl,
+        authHeader,
+      }),
+    [authHeader, config.graphqlProxyUrl, config.saleorApiUrl],
+  );
 
-      return payload.data;
-    },
-    [authHeader, config.saleorApiUrl],
+  const queryCache = useMemo(
+    () =>
+      createQueryCache({
+        ttls: {
+          StoreCollections: config.catalogCacheTtl,
+          StoreCollection: config.catalogCacheTtl,
+          CollectionProducts: config.catalogCacheTtl,
+          ProductsByIds: config.catalogCacheTtl,
+          ProductsBySlugs: config.catalogCacheTtl,
+          SearchProducts: SEARCH_CACHE_TTL,
+          Channels: config.catalogCacheTtl,
+        },
+        maxAge: CATALOG_CACHE_MAX_AGE,
+      }),
+    [config.catalogCacheTtl],
   );
 
-  const loadStores = useCallback(async () => {
-    setStoreEmptyMessage("Loading stores…");
-    const query = `
-      query StoreCollections($channel: String!) {
-        collections(first: 12, channel: $channel) {
-          edges {
-            node {
-              id
-              slug
-              name
-              description
-              seoDescription
-              backgroundImage(size: 900) {
-                url
-                alt
-              }
-            }
-          }
-        }
-      }
-    `;
+  // The channel list is not channel-scoped, so it shares one cache entry.
+  const channelsRequest = useMemo(
+    () =>
+      queryCache.wrap(
+        graphQLRequest,
+        config.graphqlProxyUrl || config.saleorApiUrl,
+      ),
+    [config.graphqlProxyUrl, config.saleorApiUrl, graphQLRequest, queryCache],
+  );
 
-    const data = await graphQLRequest(query, {
-      channel: config.saleorChannel,
-    });
+  const {
+    channels,
+    channelSlug,
+    saleorChannel,
+    activeChannel,
+    selectChannel: setChannel,
+  } = useChannels({
+    request: channelsRequest,
+    userId: telegramUser?.id,
+    telegramLanguageCode: telegramUser?.languageCode,
+    fallbackChannel: config.saleorChannel,
+    isTelegram,
+  });
+  // Stores wait for the channel and the stored language, so they load in
+  // both from the start.
+  const isCatalogReady = Boolean(channelSlug) && isLocaleReady;
+  const addressBookKey = buildAddressBookKey(telegramUser?.id);
+
+  // Catalog queries go through the cache; checkout mutations do not.
+  const catalogRequest = useMemo(
+    () =>
+      queryCache.wrap(
+        graphQLRequest,
+        `${config.graphqlProxyUrl || config.saleorApiUrl}|${saleorChannel}`,
+      ),
+    [
+      config.graphqlProxyUrl,
+      config.saleorApiUrl,
+      saleorChannel,
+      graphQLRequest,
+      queryCache,
+    ],
+  );
 
-    const edges = data?.collections?.edges ?? [];
-    const nextStores = edges.map(({ node }: { node: any }) => ({
-      id: node.id,
-      slug: node.slug,
-      name: node.name,
-      description: node.seoDescription || node.description || "",
-      image: node.backgroundImage?.url || "",
-      imageAlt: node.backgroundImage?.alt || node.name || "",
-    }));
-
-    setStores(nextStores);
-
-    if (!nextStores.length) {
-      setStoreEmptyMessage(
-        "No active stores were found in this Saleor channel.",
-      );
-    } else {
-      setStoreEmptyMessage("");
-    }
-  }, [config.saleorChannel, graphQLRequest]);
-
-  const loadStoreProducts = useCallback(
-    async (store: Store) => {
-      const query = `
-        query CollectionProducts($id: ID!, $channel: String!) {
-          collection(id: $id, channel: $channel) {
-            id
-            name
-            description
-            products(first: 60, channel: $channel) {
-              edges {
-                node {
-                  id
-                  name
-                  slug
-                  description
-                  category {
-                    id
-                    name
-                  }
-                  thumbnail(size: 512) {
-                    url
-                    alt
-                  }
-                  pricing {
-                    priceRange {
-                      start {
-                        gross {
-                          amount
-                          currency
-                        }
-                      }
-                    }
-                  }
-                  variants(first: 5) {
-                    id
-                    name
-                    sku
-                    quantityAvailable
-                    pricing {
-                      price {
-                        gross {
-                          amount
-                          currency
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
+  // Stock checks before checkout must not be answered from the cache.
+  const liveCatalogRequest = useCallback<CachedRequest>(
+    (query, variables) => graphQLRequest(query, variables),
+    [graphQLRequest],
+  );
 
-      const data = await graphQLRequest(query, {
-        id: store.id,
-        channel: config.saleorChannel,
-      });
+  const catalog = useCatalog({
+    request: catalogRequest,
+    liveRequest: liveCatalogRequest,
+    channel: saleorChannel,
+    languageCode,
+  });
+  const {
+    stores,
+    selectedStore,
+    productsByCategory,
+    activeStoreSlugRef,
+    loadStores,
+    loadMoreStores: loadNextStores,
+    clearStores,
+    findStore,
+    openStore,
+    closeStore,
+    loadMenu,
+    loadMoreProducts: loadNextProducts,
+    loadProductsBySlugs,
+    loadProductsByIds,
+    refreshProducts,
+    selectCategory,
+  } = catalog;
+
+  const search = useProductSearch(catalog.searchProducts, selectedStore);
+  const { setQuery: setSearchQuery } = search;
+
+  const {
+    cart,
+    summary,
+    isCheckingCart,
+    restoreCart,
+    clearCart,
+    detachCart,
+    dismissChanges,
+    updateCart,
+    checkCart,
+  } = useCart({
+    userId: telegramUser?.id,
+    channel: saleorChannel,
+    currency: activeChannel?.currencyCode,
+    maxItems: selectedStore?.rules.maxItems,
+    isTelegram,
+    i18n,
+    showToast,
+    activeStoreSlugRef,
+    loadProductsByIds,
+    refreshProducts,
+  });
 
-      const edges = data?.collection?.products?.edges ?? [];
-      const byCategory = new Map<string, Category>();
+  const orderHistory = useOrderHistory({
+    apiUrl: config.ordersApiUrl,
+    authHeader,
+    userId: telegramUser?.id,
+    isTelegram,
+    i18n,
+    showToast,
+    findStore,
+  });
+  const { loadOrderHistory, recordOrder, prepareReorder } = orderHistory;
 
-      edges.forEach(({ node }: { node: any }) => {
-        const categoryId = node.category?.id || "uncategorized";
-        const categoryName = node.category?.name || "Menu";
+  const { canShare, shareProduct } = useProductShare({
+    botUsername: config.botUsername,
+    miniAppName: config.miniAppName,
+    store: selectedStore,
+    i18n,
+    showToast,
+  });
 
-        if (!byCategory.has(categoryId)) {
-          byCategory.set(categoryId, {
-            id: categoryId,
-            name: categoryName,
-            products: [],
-          });
-        }
+  const hideOrderSheet = useCallback(() => {
+    setOrderSheetVisible(false);
+    setCheckoutStep("review");
+    dismissChanges();
+  }, [dismissChanges]);
+
+  const reviewOrder = useCallback(() => {
+    const storeSlug = activeStoreSlugRef.current;
+    if (!storeSlug) return;
+    navigate({ name: "order", storeSlug, step: "review" });
+  }, [activeStoreSlugRef, navigate]);
+
+  const goToCheckoutStep = useCallback(
+    (step: CheckoutStep) => {
+      const storeSlug = activeStoreSlugRef.current;
+      if (!storeSlug) return;
+      navigate({ name: "order", storeSlug, step });
+    },
+    [activeStoreSlugRef, navigate],
+  );
 
-        const variants = Array.isArray(node.variants)
-          ? node.variants
-          : node.variants?.edges?.map((edge: { node: any }) => edge.node) || [];
-
-        const selectedVariant = variants?.[0] || null;
-        const price =
-          selectedVariant?.pricing?.price?.gross ||
-          node.pricing?.priceRange?.start?.gross ||
-          null;
-
-        byCategory.get(categoryId)!.products.push({
-          id: node.id,
-          slug: node.slug,
-          name: node.name,
-          description: node.description || "",
-          image: node.thumbnail?.url || "",
-          imageAlt: node.thumbnail?.alt || node.name || "",
-          variantId: selectedVariant?.id || null,
-          variantName: selectedVariant?.name || "",
-          variantSku: selectedVariant?.sku || "",
-          quantityAvailable:
-            typeof selectedVariant?.quantityAvailable === "number"
-              ? selectedVariant.quantityAvailable
-              : null,
-          priceAmount: price?.amount ?? null,
-          priceCurrency: price?.currency ?? null,
-        });
-      });
+  // Leaves every checkout step at once, back to the store menu.
+  const closeOrderSheet = useCallback(() => {
+    const storeSlug = activeStoreSlugRef.current;
+    if (!storeSlug) return;
+    backTo((entry) => entry.name === "store" && entry.storeSlug === storeSlug, {
+      name: "store",
+      storeSlug,
+    });
+  }, [activeStoreSlugRef, backTo]);
 
-      setProductsByCategory(byCategory);
-      const firstCategory = Array.from(byCategory.values()).sort((a, b) =>
-        a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
-      )[0];
+  const backToStores = useCallback(() => {
+    backTo((entry) => entry.name === "stores", ROOT_ROUTE);
+  }, [backTo]);
 
-      setSelectedCategoryId(firstCategory?.id || null);
+  const finishOrder = useCallback(
+    (order: CompletedOrder) => {
+      recordOrder(order, selectedStore?.slug || "", cart.entries);
+      hideOrderSheet();
+      closeOrderSheet();
+      clearCart();
+      setCompletedOrder(order);
     },
-    [config.saleorChannel, graphQLRequest],
+    [
+      cart.entries,
+      clearCart,
+      closeOrderSheet,
+      hideOrderSheet,
+      recordOrder,
+      selectedStore?.slug,
+    ],
   );
 
-  const resetCart = useCallback(() => {
-    setCart(new Map());
-    setCurrency(null);
-  }, []);
+  const checkoutFlow = useCheckout({
+    request: graphQLRequest,
+    cart: cart.entries,
+    summary,
+    storeSlug: selectedStore?.slug || "",
+    hours: selectedStore?.hours || null,
+    now,
+    rules: selectedStore?.rules || null,
+    channel: saleorChannel,
+    defaultCountry: activeChannel?.countries[0] || "",
+    languageCode,
+    customer: telegramUser,
+    i18n,
+    isTelegram,
+    addressBookKey,
+    paymentsApiUrl: config.paymentsApiUrl,
+    authHeader,
+    isReviewing: orderSheetVisible && checkoutStep === "review",
+    showToast,
+    goToStep: goToCheckoutStep,
+    onOrderPlaced: finishOrder,
+  });
+  const { resetCheckout } = checkoutFlow;
+
+  // The saved cart of the store that is left stays as it was.
+  const leaveCart = useCallback(() => {
+    setDetailProduct(null);
+    setSearchQuery("");
+    detachCart();
+    resetCheckout();
+    setCheckoutStep("review");
+  }, [detachCart, resetCheckout, setSearchQuery]);
 
   const selectStore = useCallback(
-    async (store: Store) => {
-      setSelectedStore(store);
-      resetCart();
-      setProductEmptyMessage(
-        "This category has no products right now. Try another one.",
-      );
+    async (store: Store, reorderLines?: SavedCartLine[]) => {
+      openStore(store);
+      leaveCart();
 
       try {
-        await loadStoreProducts(store);
-      } catch (error: any) {
+        const byCategory = await loadMenu(store);
+        if (byCategory) {
+          await restoreCart(store, byCategory, reorderLines);
+        }
+        return byCategory;
+      } catch (error) {
         console.error(error);
-        showToast(error.message || "Unable to load products for this store.");
-        setProductsByCategory(new Map());
-        setSelectedCategoryId(null);
-        setProductEmptyMessage("Unable to load products. Swipe down to retry.");
+        showToast(errorMessage(error) || t("menu.loadFailed"));
+        return null;
       }
     },
-    [loadStoreProducts, resetCart, showToast],
+    [leaveCart, loadMenu, openStore, restoreCart, showToast, t],
   );
 
   const exitStoreView = useCallback(() => {
-    setSelectedStore(null);
-    setSelectedCategoryId(null);
-    setProductsByCategory(new Map());
-    resetCart();
-  }, [resetCart]);
-
-  const updateCart = useCallback((product: Product, nextQuantity: number) => {
-    setCart((prev) => {
-      const next = new Map(prev);
-      if (nextQuantity <= 0) {
-        next.delete(product.id);
-      } else {
-        next.set(product.id, { product, quantity: nextQuantity });
-      }
-      return next;
-    });
+    closeStore();
+    leaveCart();
+  }, [closeStore, leaveCart]);
+
+  const openOrderHistory = useCallback(() => {
+    navigate({ name: "orders" });
+  }, [navigate]);
+
+  const reorder = useCallback(
+    async (order: OrderHistoryEntry) => {
+      const found = await prepareReorder(order);
+      if (!found) return;
+      selectStore(found.store, found.lines);
+      navigate(
+        { name: "store", storeSlug: found.store.slug },
+        { replace: true },
+      );
+    },
+    [navigate, prepareReorder, selectStore],
+  );
 
-    if (product.priceCurrency) {
-      setCurrency(product.priceCurrency);
-    }
+  const openOrderSheet = useCallback(async () => {
+    if (orderSheetVisible || isCheckingCart) return;
+    setDetailProduct(null);
+    await checkCart(selectedStore);
+    setOrderSheetVisible(true);
+  }, [checkCart, isCheckingCart, orderSheetVisible, selectedStore]);
+
+  const openProductSheet = useCallback((product: Product) => {
+    setOptionSelection(defaultOptionSelection(product));
+    setDetailProduct(product);
   }, []);
 
-  const summarizeCart = useCallback((): CartSummary => {
-    let items = 0;
-    let amount = 0;
-    let nextCurrency = currency;
+  const toggleOption = useCallback((group: OptionGroup, choiceId: string) => {
+    setOptionSelection((prev) => toggleOptionChoice(prev, group, choiceId));
+  }, []);
 
-    cart.forEach(({ product, quantity }) => {
-      if (product.priceAmount != null) {
-        items += quantity;
-        amount += product.priceAmount * quantity;
-        nextCurrency = product.priceCurrency || nextCurrency;
-      }
+  const loadMoreStores = useCallback(() => {
+    loadNextStores().catch((error) => {
+      console.error(error);
+      showToast(errorMessage(error) || t("stores.loadMoreFailed"));
     });
+  }, [loadNextStores, showToast, t]);
 
-    return {
-      items,
-      total: {
-        amount,
-        currency: nextCurrency || "USD",
-      },
-    };
-  }, [cart, currency]);
-
-  const syncMainButton = useCallback(() => {
-    if (!isTelegram) {
-      return;
-    }
-    const { items, total } = summarizeCart();
-
-    if (items === 0) {
-      mainButton.hide();
-      mainButton.setParams({ isVisible: false });
-      return;
-    }
-
-    const styles = getComputedStyle(document.documentElement);
-    const buttonColor = styles.getPropertyValue("--accent-color")?.trim();
-    const buttonTextColor = styles.getPropertyValue("--accent-text")?.trim();
-
-    mainButton.setParams({
-      text: `Review order · ${formatMoney(total.amount, total.currency)}`,
-      bgColor: (buttonColor as `#${string}`) || undefined,
-      textColor: (buttonTextColor as `#${string}`) || undefined,
-      isVisible: true,
-      isEnabled: true,
+  const loadMoreProducts = useCallback(() => {
+    loadNextProducts().catch((error) => {
+      console.error(error);
+      showToast(errorMessage(error) || t("menu.loadMoreFailed"));
     });
-    mainButton.show();
-  }, [isTelegram, summarizeCart]);
+  }, [loadNextProducts, showToast, t]);
+
+  const showProduct = useCallback(
+    (product: Product) => {
+      const storeSlug = activeStoreSlugRef.current;
+      if (!storeSlug) return;
+      openProductSheet(product);
+      navigate({ name: "product", storeSlug, productSlug: product.slug });
+    },
+    [activeStoreSlugRef, navigate, openProductSheet],
+  );
 
-  const openOrderSheet = useCallback(() => {
-    if (orderSheetVisible) return;
-    setOrderSheetVisible(true);
-  }, [orderSheetVisible]);
+  // Results from another store open that store first, so going back from
+  // the product leads to its menu.
+  const openSearchResult = useCallback(
+    ({ product, store }: SearchResult) => {
+      if (activeStoreSlugRef.current === store.slug) {
+        showProduct(product);
+        return;
+      }
+      navigate({ name: "store", storeSlug: store.slug });
+      navigate({
+        name: "product",
+        storeSlug: store.slug,
+        productSlug: product.slug,
+      });
+    },
+    [activeStoreSlugRef, navigate, showProduct],
+  );
 
-  const closeOrderSheet = useCallback(() => {
-    if (!orderSheetVisible) return;
-    setOrderSheetVisible(false);
-  }, [orderSheetVisible]);
+  const showCategory = useCallback(
+    (category: Category) => {
+      const storeSlug = activeStoreSlugRef.current;
+      if (!storeSlug) return;
+      selectCategory(category.id);
+      navigate(
+        { name: "store", storeSlug, categorySlug: category.slug || undefined },
+        { replace: true },
+      );
+    },
+    [activeStoreSlugRef, navigate, selectCategory],
+  );
 
-  useEffect(() => {
+  const reloadStores = useCallback(() => {
     loadStores().catch((error) => {
       console.error(error);
-      setStoreEmptyMessage(
-        "Unable to load stores. Pull to refresh or try again later.",
-      );
     });
   }, [loadStores]);
 
-  useEffect(() => {
-    if (!isTelegram) {
+  // Failed first pages are loaded again, later pages continue from the cursor.
+  const retryStores = useCallback(() => {
+    if (!stores.length) {
+      reloadStores();
       return;
     }
-    const shouldShow = Boolean(selectedStore || orderSheetVisible);
-    if (shouldShow) {
-      backButton.show();
-    } else {
-      backButton.hide();
+    loadMoreStores();
+  }, [loadMoreStores, reloadStores, stores.length]);
+
+  const retryProducts = useCallback(() => {
+    if (!selectedStore) return;
+    if (!productsByCategory.size) {
+      selectStore(selectedStore);
+      return;
     }
-  }, [isTelegram, selectedStore, orderSheetVisible]);
+    loadMoreProducts();
+  }, [loadMoreProducts, productsByCategory.size, selectStore, selectedStore]);
+
+  // The cart is only kept inside a store, so switching channels from the
+  // store grid never carries items over to another currency.
+  const selectChannel = useCallback(
+    (slug: string) => {
+      if (!setChannel(slug)) return;
+      clearStores();
+      setSearchQuery("");
+    },
+    [clearStores, setChannel, setSearchQuery],
+  );
+
+  // Stores are loaded again in the new language; the language picker sits on
+  // the store grid, so no menu or cart is open.
+  const selectLocale = useCallback(
+    (next: Locale) => {
+      setLocale(next);
+      setSearchQuery("");
+    },
+    [setLocale, setSearchQuery],
+  );
 
   useEffect(() => {
-    if (!isTelegram) {
+    if (!isCatalogReady) return;
+    reloadStores();
+  }, [isCatalogReady, reloadStores]);
+
+  // Brings the screens in line with the route after a navigation, a history
+  // move or a reload. Opening a store, product or checkout step that is not
+  // shown yet loads what it needs; anything that no longer exists falls back
+  // to the screen above it.
+  const applyRoute = async (next: Route) => {
+    const storeSlug = routeStoreSlug(next);
+    if (!storeSlug) {
+      if (activeStoreSlugRef.current) {
+        hideOrderSheet();
+        exitStoreView();
+      }
+      if (next.name !== "orders") {
+        setOrdersVisible(false);
+      } else if (!ordersVisible) {
+        setOrdersVisible(true);
+        loadOrderHistory();
+      }
       return;
     }
-    const off = backButton.onClick(() => {
-      if (orderSheetVisible) {
-        closeOrderSheet();
-        return;
-      }
-      if (selectedStore) {
-        exitStoreView();
+
+    setOrdersVisible(false);
+    let store = selectedStore;
+    let byCategory = productsByCategory;
+    if (activeStoreSlugRef.current !== storeSlug || !store) {
+      store = await findStore(storeSlug);
+      if (routeRef.current !== next) return;
+      if (!store) {
+        showToast(t("stores.unavailable"));
+        navigate(ROOT_ROUTE, { replace: true });
         return;
       }
-    });
 
-    return () => {
-      off();
-    };
-  }, [
-    isTelegram,
-    orderSheetVisible,
-    selectedStore,
-    exitStoreView,
-    closeOrderSheet,
-  ]);
+      hideOrderSheet();
+      const loaded = await selectStore(store);
+      if (!loaded || routeRef.current !== next) return;
+      byCategory = loaded;
+    }
 
-  useEffect(() => {
-    if (!isTelegram) {
-      return;
+    if (next.name !== "product") {
+      setDetailProduct(null);
+    }
+    if (next.name !== "order") {
+      hideOrderSheet();
     }
-    const off = mainButton.onClick(() => {
-      if (cart.size > 0) {
-        openOrderSheet();
+
+    if (next.name === "store" && next.categorySlug) {
+      const category = Array.from(byCategory.values()).find(
+        ({ slug }) => slug === next.categorySlug,
+      );
+      if (category) {
+        selectCategory(category.id);
+      } else {
+        showToast(t("links.categoryUnavailable"));
+        navigate({ name: "store", storeSlug }, { replace: true });
       }
-    });
+    }
 
-    return () => {
-      off();
-    };
-  }, [isTelegram, cart, openOrderSheet]);
+    if (next.name === "product" && detailProduct?.slug !== next.productSlug) {
+      let product = findProductBySlug(byCategory, next.productSlug);
+      if (!product) {
+        // The product may be on a page of the menu that is not loaded.
+        try {
+          [product = null] = await loadProductsBySlugs(store, [
+            next.productSlug,
+          ]);
+        } catch (error) {
+          console.error(error);
+        }
+      }
+      if (routeRef.current !== next) return;
+      if (product) {
+        openProductSheet(product);
+      } else {
+        showToast(t("links.productUnavailable"));
+        navigate({ name: "store", storeSlug }, { replace: true });
+      }
+    }
 
-  useEffect(() => {
-    syncMainButton();
-  }, [cart, currency, syncMainButton]);
-
-  const submitOrder = useCallback(async () => {
-    if (isSubmitting) return;
-
-    const lines: { quantity: number; variantId: string }[] = [];
-    cart.forEach(({ product, quantity }) => {
-      if (product.variantId && product.priceAmount != null) {
-        lines.push({
-          quantity,
-          variantId: product.variantId,
-        });
+    if (next.name === "order") {
+      // Later steps need the checkout, which does not survive a reload.
+      if (next.step !== "review" && !checkoutFlow.checkout) {
+        navigate({ ...next, step: "review" }, { replace: true });
+        return;
       }
-    });
+      if (!orderSheetVisible) {
+        await openOrderSheet();
+        if (routeRef.current !== next) return;
+      }
+      setCheckoutStep(next.step);
+    }
+  };
+
+  // Routes are applied once the channel is known, so links and reloads
+  // look stores up in the right channel.
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+  useEffect(() => {
+    if (!isCatalogReady) return;
+    applyRouteRef.current(route);
+  }, [isCatalogReady, route]);
+
+  // Loads that failed while offline are retried once the connection is back.
+  const { storesFailed, productsFailed } = catalog;
+  const wasOnlineRef = useRef(isOnline);
+  useEffect(() => {
+    const reconnected = isOnline && !wasOnlineRef.current;
+    wasOnlineRef.current = isOnline;
+    if (!reconnected) return;
+    if (storesFailed) {
+      retryStores();
+    }
+    if (productsFailed) {
+      retryProducts();
+    }
+  }, [isOnline, productsFailed, retryProducts, retryStores, storesFailed]);
 
-    if (!lines.length) {
-      showToast("Nothing to submit. Add items first.");
+  // The order confirmation is not a route, every other screen is left by
+  // going back in the navigation stack.
+  useBackButton(isTelegram, canGoBack || Boolean(completedOrder), () => {
+    if (completedOrder) {
+      setCompletedOrder(null);
       return;
     }
+    back();
+  });
 
-    setIsSubmitting(true);
-
-    const summary = summarizeCart();
-    const fallbackCurrency = summary.total.currency || "USD";
-
-    const metadata = [
-      {
-        key: "telegram_user_id",
-        value: telegramUser?.id ? String(telegramUser.id) : "guest",
-      },
-      {
-        key: "telegram_username",
-        value: telegramUser?.username || "",
-      },
-      {
-        key: "store_slug",
-        value: selectedStore?.slug || "",
-      },
-      {
-        key: "telegram_order_total",
-        value: formatMoney(summary.total.amount, fallbackCurrency),
-      },
-    ];
-
-    const mutation = `
-      mutation CheckoutCreate($input: CheckoutCreateInput!) {
-        checkoutCreate(input: $input) {
-          checkout {
-            id
-            webUrl
-          }
-          errors {
-            field
-            message
-            code
-          }
+  // While a store rule is not met the button says what is missing.
+  const { unmetRule } = checkoutFlow;
+  useMainButton(
+    isTelegram,
+    summary.items > 0
+      ? {
+          text:
+            unmetRule ||
+            (summary.mixedCurrencies
+              ? t("cart.reviewOrderMixed")
+              : t("cart.reviewOrderTotal", {
+                  total: i18n.money(
+                    summary.total.amount,
+                    summary.total.currency,
+                  ),
+                })),
+          isEnabled: !unmetRule && !isCheckingCart,
+          isLoaderVisible: isCheckingCart,
         }
+      : null,
+    () => {
+      if (cart.entries.size > 0) {
+        reviewOrder();
       }
-    `;
-
-    const payload = {
-      channel: config.saleorChannel,
-      email: buildPseudoEmail(telegramUser),
-      lines,
-      metadata,
-    };
-
-    try {
-      const data = await graphQLRequest(mutation, { input: payload });
-      const result = data?.checkoutCreate;
-      const errors = result?.errors || [];
-
-      if (errors.length) {
-        const errorMessage = errors
-          .map(
-            (err: { message?: string; code?: string }) =>
-              err.message || err.code,
-          )
-          .join(", ");
-        throw new Error(errorMessage || "Saleor returned an error.");
+    },
+  );
+
+  const renderProductCard = (
+    product: Product,
+    highlight = "",
+    searchResult?: SearchResult,
+  ) => (
+    <ProductCard
+      key={product.id}
+      product={product}
+      cart={cart.entries}
+      i18n={i18n}
+      highlight={highlight}
+      searchResult={searchResult}
+      // Results from other stores open the store first.
+      onOpen={() =>
+        searchResult ? openSearchResult(searchResult) : showProduct(product)
       }
+      onCartChange={updateCart}
+    />
+  );
 
-      const checkoutUrl = result?.checkout?.webUrl || null;
-      closeOrderSheet();
-      resetCart();
-      showToast("Order draft created. Continue in Saleor to finalize.");
+  const { isSearching } = search;
 
-      if (checkoutUrl) {
-        try {
-          openLink(checkoutUrl);
-        } catch {
-          window.open(checkoutUrl, "_blank");
-        }
-      }
-    } catch (error: any) {
-      console.error(error);
-      showToast(`Order submission failed: ${error.message || "Unknown error"}`);
-    } finally {
-      setIsSubmitting(false);
-    }
-  }, [
-    cart,
-    closeOrderSheet,
-    config.saleorChannel,
-    graphQLRequest,
-    isSubmitting,
-    resetCart,
-    showToast,
-    summarizeCart,
-    telegramUser,
-    selectedStore,
-  ]);
-
-  const renderQuantityCounter = (product: Product, quantity: number) => (
-    <div className="qty-counter">
-      <button
-        type="button"
-        className="qty-button"
-        onClick={() => updateCart(product, quantity - 1)}
-      >
-        −
-      </button>
-      <span className="qty-value">{quantity}</span>
-      <button
-        type="button"
-        className="qty-button"
-        onClick={() => updateCart(product, quantity + 1)}
-      >
-        +
-      </button>
-    </div>
+  const storesSentinelRef = useInfiniteScroll<HTMLDivElement>(
+    loadMoreStores,
+    Boolean(catalog.storesPageInfo?.hasNextPage) &&
+      !catalog.isLoadingStores &&
+      !storesFailed &&
+      !selectedStore &&
+      !isSearching,
+  );
+  const productsSentinelRef = useInfiniteScroll<HTMLDivElement>(
+    loadMoreProducts,
+    Boolean(catalog.productsPageInfo?.hasNextPage) &&
+      !catalog.isLoadingProducts &&
+      !productsFailed &&
+      Boolean(selectedStore) &&
+      !isSearching,
   );
 
-  const summary = summarizeCart();
+  const hasOverlay = Boolean(
+    detailProduct || orderSheetVisible || ordersVisible || completedOrder,
+  );
+  const { pullDistance, threshold: pullThreshold } = usePullToRefresh(
+    selectedStore ? retryProducts : retryStores,
+    !hasOverlay && (selectedStore ? productsFailed : storesFailed),
+  );
 
   return (
     <>
       <div className="app-shell" id="app">
+        {!isOnline && (
+          <div className="offline-banner" id="offline-banner" role="alert">
+            {t("app.offline")}
+          </div>
+        )}
         <header className="app-header">
           <h1 className="app-title" id="app-title">
-            {selectedStore?.name || DEFAULT_TITLE}
+            {selectedStore?.name || t("app.title")}
           </h1>
           <p className="app-subtitle" id="app-subtitle">
             {selectedStore
               ? truncateText(stripHtml(selectedStore.description), 140) ||
-                "Browse the categories below to add items to your order."
-              : DEFAULT_SUBTITLE}
+                t("app.storeSubtitle")
+              : t("app.subtitle")}
           </p>
         </header>
         <main className="app-main">
-          <section
-            id="store-view"
-            className={`view ${selectedStore ? "" : "view--active"}`}
-            aria-labelledby="store-view-title"
-          >
-            <div className="view-header">
-              <h2 id="store-view-title">Choose a store</h2>
-              <p>Tap a restaurant or shop to see the menu.</p>
-            </div>
-            <div className="store-grid" id="store-grid" role="list">
-              {stores.map((store) => (
-                <button
-                  type="button"
-                  key={store.id}
-                  className="store-card"
-                  role="listitem"
-                  onClick={() => selectStore(store)}
-                >
-                  <div
-                    className="store-card__cover"
-                    style={{
-                      backgroundImage: store.image
-                        ? `url(${store.image})`
-                        : "linear-gradient(135deg, rgba(0,0,0,0.08), rgba(0,0,0,0.02))",
-                    }}
-                  >
-                    <div className="store-card__title">{store.name}</div>
-                  </div>
-                  <div className="store-card__body">
-                    <p className="store-card__description">
-                      {truncateText(stripHtml(store.description), 96) ||
-                        "Tap to explore the menu."}
-                    </p>
-                    <div className="store-card__meta">
-                      <span>Menu</span>
-                      <span>View</span>
-                    </div>
-                  </div>
-                </button>
-              ))}
-            </div>
-            {storeEmptyMessage && (
-              <div className="empty-state" id="store-empty" role="status">
-                {storeEmptyMessage}
-              </div>
-            )}
-          </section>
-
-          <section
-            id="menu-view"
-            className={`view ${selectedStore ? "view--active" : ""}`}
-            aria-labelledby="menu-view-title"
-          >
+          {pullDistance > 0 && (
             <div
-              className="menu-view__hero"
-              id="store-hero"
-              style={{
-                backgroundImage: selectedStore?.image
-                  ? `linear-gradient(180deg, rgba(0,0,0,0.25), rgba(0,0,0,0.5)), url(${selectedStore.image})`
-                  : "linear-gradient(180deg, rgba(0,0,0,0.15), rgba(0,0,0,0.25))",
-              }}
+              className="pull-indicator"
+              style={{ height: pullDistance }}
+              aria-hidden="true"
             >
-              <div className="menu-view__hero-content">
-                <h2 className="menu-view__hero-title" id="menu-view-title">
-                  {selectedStore?.name || ""}
-                </h2>
-                <p className="menu-view__hero-subtitle" id="menu-view-subtitle">
-                  {selectedStore
-                    ? truncateText(stripHtml(selectedStore.description), 120) ||
-                      "Browse the categories below to add items to your order."
-                    : ""}
-                </p>
-                <div className="menu-view__hero-actions">
-                  <button
-                    type="button"
-                    className="link-button"
-                    id="back-to-stores-btn"
-                    onClick={() => {
-                      if (orderSheetVisible) {
-                        closeOrderSheet();
-                      }
-                      exitStoreView();
-                    }}
-                  >
-                    ◀ Stores
-                  </button>
-                  <button
-                    type="button"
-                    className="link-button"
-                    id="store-info-btn"
-                    onClick={() => {
-                      if (!selectedStore) return;
-                      const description = stripHtml(selectedStore.description);
-                      showToast(
-                        description ||
-                          "We could not find extra info about this store yet.",
-                      );
-                    }}
-                  >
-                    ℹ About
-                  </button>
-                </div>
-              </div>
+              {pullDistance >= pullThreshold
+                ? t("pull.release")
+                : t("pull.pull")}
             </div>
-
-            {categories.length > 0 && (
-              <nav
-                className="category-tabs"
-                id="category-tabs"
-                aria-label="Menu categories"
-              >
-                {categories.map((category) => (
-                  <button
-                    type="button"
-                    key={category.id}
-                    className={`category-tab ${
-                      selectedCategoryId === category.id
-                        ? "category-tab--active"
-                        : ""
-                    }`}
-                    onClick={() => setSelectedCategoryId(category.id)}
-                  >
-                    {category.name}
-                  </button>
-                ))}
-              </nav>
-            )}
-
-            <div className="product-grid" id="product-grid" role="list">
-              {selectedCategory?.products?.map((product) => {
-                const cartEntry = cart.get(product.id);
-                return (
-                  <article
-                    className="product-card"
-                    role="listitem"
-                    key={product.id}
-                  >
-                    <div
-                      className="product-card__media"
-                      style={{
-                        backgroundImage: product.image
-                          ? `url(${product.image})`
-                          : "none",
-                        backgroundSize: "cover",
-                        backgroundPosition: "center",
-                        backgroundColor: product.image
-                          ? "transparent"
-                          : "rgba(0,0,0,0.06)",
-                      }}
-                    />
-                    <div className="product-card__info">
-                      <h3 className="product-card__title">{product.name}</h3>
-                      <p className="product-card__description">
-                        {truncateText(stripHtml(product.description), 120) ||
-                          "No description yet."}
-                      </p>
-                      <div className="product-card__footer">
-                        <div className="product-price">
-                          {product.priceAmount != null && product.priceCurrency
-                            ? formatMoney(
-                                product.priceAmount,
-                                product.priceCurrency,
-                              )
-                            : "—"}
-                        </div>
-                        {cartEntry ? (
-                          renderQuantityCounter(product, cartEntry.quantity)
-                        ) : (
-                          <button
-                            type="button"
-                            className="add-button"
-                            disabled={
-                              !product.variantId || product.priceAmount == null
-                            }
-                            onClick={() => updateCart(product, 1)}
-                          >
-                            Add
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                  </article>
-                );
-              })}
-            </div>
-
-            {selectedStore &&
-              (!selectedCategory || !selectedCategory.products.length) && (
-                <div className="empty-state" id="product-empty" role="status">
-                  {selectedCategoryId
-                    ? productEmptyMessage
-                    : "Select a category to view items."}
-                </div>
-              )}
-
-            {cart.size > 0 && (
-              <div className="mini-cart" id="mini-cart">
-                <button
-                  type="button"
-                  className="mini-cart__pill"
-                  id="mini-cart-button"
-                  onClick={openOrderSheet}
-                >
-                  <span id="mini-cart-count">
-                    {summary.items} item{summary.items === 1 ? "" : "s"}
-                  </span>
-                  <span id="mini-cart-total">
-                    {formatMoney(summary.total.amount, summary.total.currency)}
-                  </span>
-                </button>
-              </div>
-            )}
-          </section>
+          )}
+          <StoreListView
+            active={!selectedStore && !completedOrder && !ordersVisible}
+            stores={stores}
+            channels={channels}
+            channel={saleorChannel}
+            locale={locale}
+            search={search}
+            emptyMessage={catalog.storeEmptyMessage}
+            failed={storesFailed}
+            isLoading={catalog.isLoadingStores}
+            sentinelRef={storesSentinelRef}
+            now={now}
+            i18n={i18n}
+            renderProduct={renderProductCard}
+            onOpenStore={(store) =>
+              navigate({ name: "store", storeSlug: store.slug })
+            }
+            onOpenOrders={openOrderHistory}
+            onSelectChannel={selectChannel}
+            onSelectLocale={selectLocale}
+            onRetry={retryStores}
+          />
+
+          <MenuView
+            active={Boolean(selectedStore) && !completedOrder}
+            store={selectedStore}
+            categories={catalog.categories}
+            selectedCategory={catalog.selectedCategory}
+            selectedCategoryId={catalog.selectedCategoryId}
+            search={search}
+            emptyMessage={catalog.productEmptyMessage}
+            failed={productsFailed}
+            isLoadingMore={
+              catalog.isLoadingProducts && Boolean(catalog.productsPageInfo)
+            }
+            sentinelRef={productsSentinelRef}
+            hasItems={cart.entries.size > 0}
+            summary={summary}
+            reviewDisabled={isCheckingCart}
+            now={now}
+            i18n={i18n}
+            renderProduct={renderProductCard}
+            onBackToStores={backToStores}
+            onAbout={(store) =>
+              showToast(stripHtml(store.description) || t("menu.noInfo"))
+            }
+            onSelectCategory={showCategory}
+            onRetry={retryProducts}
+            onReview={reviewOrder}
+          />
+
+          {ordersVisible && !selectedStore && !completedOrder && (
+            <OrderHistoryView
+              orders={orderHistory.orders}
+              message={orderHistory.message}
+              stores={stores}
+              i18n={i18n}
+              onClose={back}
+              onReorder={reorder}
+            />
+          )}
+
+          {completedOrder && (
+            <OrderConfirmation
+              order={completedOrder}
+              storeName={selectedStore?.name || null}
+              i18n={i18n}
+              onDone={() => setCompletedOrder(null)}
+            />
+          )}
         </main>
       </div>
 
-      <div
-        id="order-sheet"
-        className={`order-sheet ${
-          orderSheetVisible ? "order-sheet--visible" : ""
-        }`}
-        aria-hidden={!orderSheetVisible}
-      >
-        <div
-          className="order-sheet__panel"
-          role="dialog"
-          aria-modal="true"
-          aria-labelledby="order-sheet-title"
-        >
-          <header className="order-sheet__header">
-            <h2 id="order-sheet-title">Review order</h2>
-            <button
-              type="button"
-              className="order-sheet__close"
-              id="order-close-btn"
-              aria-label="Close"
-              onClick={closeOrderSheet}
-            >
-              ×
-            </button>
-          </header>
-          <div className="order-sheet__body">
-            <div id="order-items" className="order-lines">
-              {summary.items === 0 ? (
-                <p className="order-line__meta">
-                  Your cart is empty. Add some products to place an order.
-                </p>
-              ) : (
-                Array.from(cart.values()).map(({ product, quantity }) => (
-                  <div className="order-line" key={product.id}>
-                    <div className="order-line__info">
-                      <p className="order-line__title">
-                        {quantity} × {product.name}
-                      </p>
-                      <span className="order-line__meta">
-                        {product.variantName
-                          ? `Variant: ${product.variantName}`
-                          : product.variantSku
-                            ? `SKU: ${product.variantSku}`
-                            : "Default variant"}
-                      </span>
-                      {renderQuantityCounter(product, quantity)}
-                    </div>
-                    <div className="order-line__total">
-                      {product.priceAmount != null && product.priceCurrency
-                        ? formatMoney(
-                            product.priceAmount * quantity,
-                            product.priceCurrency,
-                          )
-                        : "—"}
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
-            <div className="order-summary" id="order-summary">
-              <div className="order-summary__row">
-                <span>Subtotal</span>
-                <strong>
-                  {summary.items > 0
-                    ? formatMoney(summary.total.amount, summary.total.currency)
-                    : "—"}
-                </strong>
-              </div>
-              <div className="order-summary__row">
-                <span>Store</span>
-                <span>{selectedStore ? selectedStore.name : "—"}</span>
-              </div>
-            </div>
-          </div>
-          <footer className="order-sheet__footer">
-            <button
-              type="button"
-              className="cta-button"
-              id="order-submit-btn"
-              disabled={summary.items === 0 || isSubmitting}
-              onClick={submitOrder}
-            >
-              {isSubmitting ? "Submitting…" : "Submit order"}
-            </button>
-          </footer>
-        </div>
-      </div>
+      <ProductSheet
+        product={detailProduct}
+        optionSelection={optionSelection}
+        cart={cart.entries}
+        i18n={i18n}
+        canShare={canShare}
+        reviewDisabled={cart.entries.size === 0 || isCheckingCart}
+        onShare={shareProduct}
+        onClose={back}
+        onToggleOption={toggleOption}
+        onCartChange={updateCart}
+        onReview={reviewOrder}
+      />
+
+      <OrderSheet
+        visible={orderSheetVisible}
+        step={checkoutStep}
+        cart={cart}
+        summary={summary}
+        storeName={selectedStore?.name || ""}
+        flow={checkoutFlow}
+        countries={activeChannel?.countries || []}
+        isTelegram={isTelegram}
+        i18n={i18n}
+        onBack={back}
+        onClose={closeOrderSheet}
+        onCartChange={updateCart}
+      />
 
       <div
         id="toast"
@@ -985,41 +884,12 @@ export default function App() {
   );
 }
 
-function stripHtml(value: string) {
-  if (!value) return "";
-  const doc = new DOMParser().parseFromString(value, "text/html");
-  return doc.body.textContent || "";
-}
-
-function truncateText(value: string, maxLength: number) {
-  if (!value) return "";
-  if (value.length <= maxLength) return value;
-  return `${value.slice(0, maxLength - 1).trim()}…`;
-}
-
-function formatMoney(amount: number, currency: string) {
-  try {
-    return new Intl.NumberFormat(undefined, {
-      style: "currency",
-      currency,
-      currencyDisplay: "symbol",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount);
-  } catch {
-    return `${amount.toFixed(2)} ${currency || ""}`.trim();
-  }
-}
-
-function buildPseudoEmail(userData: { id?: number; username?: string } | null) {
-  if (!userData) {
-    return `guest+${Date.now()}@telegram.local`;
-  }
-  if (userData.username) {
-    return `${userData.username}@telegram.local`;
-  }
-  const safeId = userData.id
-    ? String(userData.id).replace(/\D+/g, "")
-    : Date.now();
-  return `user${safeId}@telegram.local`;
+// Converts a seconds setting to milliseconds; "0" disables the cache.
+function readSeconds(value: string | undefined, fallbackSeconds: number) {
+  const seconds = Number(value);
+  return (
+    (value && Number.isFinite(seconds) && seconds >= 0
+      ? seconds
+      : fallbackSeconds) * 1000
+  );
 }
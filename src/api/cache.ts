@@ -0,0 +1,196 @@
+import type { GraphQLRequest } from "./checkout";
+
+export type CachedRequest = (
+  query: string,
+  variables: Record<string, unknown>,
+  onRevalidate?: (data: unknown) => void,
+) => Promise<any>;
+
+type CacheEntry = {
+  key: string;
+  data: unknown;
+  storedAt: number;
+};
+
+type QueryCacheOptions = {
+  // Fresh time per operation name in milliseconds; operations without a TTL
+  // are not cached.
+  ttls: Record<string, number>;
+  // Entries older than this are never shown, not even while revalidating.
+  maxAge: number;
+  databaseName?: string;
+};
+
+const STORE_NAME = "queries";
+
+/**
+ * Caches GraphQL query results in memory and IndexedDB.
+ *
+ * Fresh entries are returned without a request. Stale entries are returned
+ * right away when the caller passes `onRevalidate`, which then receives the
+ * refreshed data if it changed. Identical requests in flight share one fetch.
+ * Mutations are never cached.
+ */
+export function createQueryCache(options: QueryCacheOptions) {
+  const memory = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  const database = openDatabase(
+    options.databaseName || "saleor-tma-cache",
+    options.maxAge,
+  );
+
+  async function readEntry(key: string) {
+    const cached = memory.get(key);
+    if (cached) return cached;
+
+    const db = await database;
+    if (!db) return null;
+    const stored = await idbRequest<CacheEntry | undefined>(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key),
+    ).catch(() => undefined);
+    if (stored) {
+      memory.set(key, stored);
+    }
+    return stored || null;
+  }
+
+  async function writeEntry(entry: CacheEntry) {
+    memory.set(entry.key, entry);
+    const db = await database;
+    if (!db) return;
+    await idbRequest(
+      db
+        .transaction(STORE_NAME, "readwrite")
+        .objectStore(STORE_NAME)
+        .put(entry),
+    ).catch((error) => {
+      console.warn("Unable to persist the query cache.", error);
+    });
+  }
+
+  function fetchShared(
+    request: GraphQLRequest,
+    key: string,
+    query: string,
+    variables: Record<string, unknown>,
+  ) {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = request(query, variables)
+      .then(async (data) => {
+        await writeEntry({ key, data, storedAt: Date.now() });
+        return data;
+      })
+      .finally(() => {
+        inFlight.delete(key);
+      });
+    inFlight.set(key, promise);
+    return promise;
+  }
+
+  return {
+    wrap(request: GraphQLRequest, scope: string): CachedRequest {
+      return async (query, variables, onRevalidate) => {
+        const operation = query.match(/^\s*(query|mutation)\s+(\w+)/);
+        const ttl =
+          operation?.[1] === "query" ? options.ttls[operation[2]] : undefined;
+        if (!ttl) {
+          return request(query, variables);
+        }
+
+        const key = `${scope}|${operation![2]}|${stableStringify(variables)}`;
+        const cached = await readEntry(key);
+        const age = cached ? Date.now() - cached.storedAt : Infinity;
+
+        if (cached && age < ttl) {
+          return cached.data;
+        }
+
+        if (cached && onRevalidate && age < options.maxAge) {
+          const previous = JSON.stringify(cached.data);
+          fetchShared(request, key, query, variables)
+            .then((data) => {
+              if (JSON.stringify(data) !== previous) {
+                onRevalidate(data);
+              }
+            })
+            .catch((error) => {
+              console.warn("Background refresh failed.", error);
+            });
+          return cached.data;
+        }
+
+        return fetchShared(request, key, query, variables);
+      };
+    },
+  };
+}
+
+function openDatabase(
+  name: string,
+  maxAge: number,
+): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    try {
+      const open = indexedDB.open(name, 1);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      open.onsuccess = () => {
+        pruneEntries(open.result, Date.now() - maxAge);
+        resolve(open.result);
+      };
+      // Private browsing modes may refuse IndexedDB; memory still works.
+      open.onerror = () => resolve(null);
+      open.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+function pruneEntries(db: IDBDatabase, olderThan: number) {
+  const cursorRequest = db
+    .transaction(STORE_NAME, "readwrite")
+    .objectStore(STORE_NAME)
+    .openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if ((cursor.value as CacheEntry).storedAt < olderThan) {
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+}
+
+function idbRequest<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Variables are keyed independently of their property order.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key],
+          )}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
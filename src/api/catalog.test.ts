@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+
+import collectionProducts from "../test/saleor/collectionProducts.json";
+import storeCollections from "../test/saleor/storeCollections.json";
+import {
+  groupProductsByCategory,
+  mapProduct,
+  mapStore,
+  UNCATEGORIZED_ID,
+} from "./catalog";
+import type {
+  CollectionProductsQuery,
+  StoreCollectionsQuery,
+} from "./generated";
+
+// Responses recorded from Saleor for the StoreCollections and
+// CollectionProducts operations, trimmed to a few nodes.
+const storeNodes = (storeCollections.data as StoreCollectionsQuery)
+  .collections!.edges.map(({ node }) => node);
+const productNodes = (collectionProducts.data as CollectionProductsQuery)
+  .collection!.products!.edges.map(({ node }) => node);
+
+const [latteNode, croissantNode, giftCardNode] = productNodes;
+
+describe("mapStore", () => {
+  it("prefers translated names and short descriptions", () => {
+    const store = mapStore(storeNodes[0]);
+    expect(store).toMatchObject({
+      id: "Q29sbGVjdGlvbjox",
+      slug: "central",
+      name: "Центральное кафе",
+      description: "Кофе и выпечка у вокзала.",
+      image:
+        "https://demo.saleor.io/media/thumbnails/collection-backgrounds/central_thumbnail_1024.webp",
+      imageAlt: "Центральное кафе",
+    });
+  });
+
+  it("reads opening hours from the metadata", () => {
+    const { hours } = mapStore(storeNodes[0]);
+    expect(hours?.timeZone).toBe("Europe/Berlin");
+    expect(hours?.days).toEqual([
+      [],
+      [{ start: 8 * 60, end: 18 * 60 }],
+      [],
+      [],
+      [],
+      [
+        { start: 8 * 60, end: 14 * 60 },
+        { start: 18 * 60, end: 26 * 60 },
+      ],
+      [],
+    ]);
+  });
+
+  it("reads order rules by currency and skips invalid amounts", () => {
+    expect(mapStore(storeNodes[0]).rules).toEqual({
+      minOrderAmount: { USD: 10, EUR: 9.5 },
+      maxItems: 12,
+      serviceFeeVariantId: "UHJvZHVjdFZhcmlhbnQ6OTk5",
+      serviceFeeBelow: { USD: 25 },
+    });
+  });
+
+  it("falls back for stores without translations, images or rules", () => {
+    expect(mapStore(storeNodes[1])).toEqual({
+      id: "Q29sbGVjdGlvbjoy",
+      slug: "harbour-bakery",
+      name: "Harbour Bakery",
+      description: "",
+      image: "",
+      imageAlt: "Harbour Bakery",
+      // A day key with invalid ranges still marks the store as having hours.
+      hours: { timeZone: undefined, days: [[], [], [], [], [], [], []] },
+      rules: {
+        minOrderAmount: {},
+        maxItems: null,
+        serviceFeeVariantId: null,
+        serviceFeeBelow: {},
+      },
+    });
+  });
+});
+
+describe("mapProduct", () => {
+  it("maps variants and starts from the cheapest price", () => {
+    const product = mapProduct(latteNode);
+    expect(product).toMatchObject({
+      id: "UHJvZHVjdDo3Mg==",
+      slug: "latte",
+      name: "Латте",
+      description: latteNode.description,
+      image:
+        "https://demo.saleor.io/media/thumbnails/products/latte_thumbnail_512.webp",
+      imageAlt: "Латте",
+      priceAmount: 4.5,
+      priceCurrency: "USD",
+    });
+    expect(product.variants).toEqual([
+      {
+        id: "UHJvZHVjdFZhcmlhbnQ6MjAy",
+        name: "Large",
+        sku: "LATTE-L",
+        quantityAvailable: null,
+        priceAmount: 5.5,
+        priceCurrency: "USD",
+      },
+      {
+        id: "UHJvZHVjdFZhcmlhbnQ6MjAx",
+        name: "Small",
+        sku: "LATTE-S",
+        quantityAvailable: 10,
+        priceAmount: 4.5,
+        priceCurrency: "USD",
+      },
+    ]);
+  });
+
+  it("turns option attributes into option groups with price deltas", () => {
+    expect(mapProduct(latteNode).optionGroups).toEqual([
+      {
+        id: "QXR0cmlidXRlOjEx",
+        slug: "milk",
+        name: "Milk",
+        required: true,
+        multiple: false,
+        choices: [
+          { id: "QXR0cmlidXRlVmFsdWU6MzE=", name: "Whole", priceDelta: 0 },
+          { id: "QXR0cmlidXRlVmFsdWU6MzI=", name: "Oat", priceDelta: 0.5 },
+          { id: "QXR0cmlidXRlVmFsdWU6MzM=", name: "Soy", priceDelta: 0 },
+        ],
+        defaultChoiceIds: ["QXR0cmlidXRlVmFsdWU6MzE="],
+      },
+      {
+        id: "QXR0cmlidXRlOjEy",
+        slug: "extras",
+        name: "Extras",
+        required: false,
+        multiple: true,
+        choices: [
+          { id: "QXR0cmlidXRlVmFsdWU6NDE=", name: "Extra shot", priceDelta: 1 },
+          { id: "QXR0cmlidXRlVmFsdWU6NDI=", name: "Syrup", priceDelta: 0 },
+        ],
+        defaultChoiceIds: [],
+      },
+      {
+        id: "QXR0cmlidXRlOjEz",
+        slug: "decaf",
+        name: "Decaf",
+        required: false,
+        multiple: true,
+        choices: [{ id: "QXR0cmlidXRlOjEz", name: "Decaf", priceDelta: 0.3 }],
+        defaultChoiceIds: [],
+      },
+    ]);
+  });
+
+  it("uses the product price for variants without their own", () => {
+    expect(mapProduct(croissantNode)).toMatchObject({
+      name: "Croissant",
+      description: "",
+      image: "",
+      imageAlt: "Croissant",
+      priceAmount: 3.2,
+      variants: [
+        {
+          id: "UHJvZHVjdFZhcmlhbnQ6MjAz",
+          name: "",
+          sku: "",
+          quantityAvailable: 0,
+          priceAmount: 3.2,
+          priceCurrency: "USD",
+        },
+      ],
+    });
+  });
+
+  it("leaves products without pricing unpriced", () => {
+    const product = mapProduct(giftCardNode);
+    expect(product.priceAmount).toBeNull();
+    expect(product.priceCurrency).toBeNull();
+    expect(product.variants[0].priceAmount).toBeNull();
+  });
+});
+
+describe("groupProductsByCategory", () => {
+  it("groups products by their translated category", () => {
+    const byCategory = groupProductsByCategory(productNodes);
+    expect(
+      Array.from(byCategory.values(), ({ id, slug, name, products }) => ({
+        id,
+        slug,
+        name,
+        products: products.map(({ slug }) => slug),
+      })),
+    ).toEqual([
+      {
+        id: "Q2F0ZWdvcnk6MQ==",
+        slug: "coffee",
+        name: "Кофе",
+        products: ["latte"],
+      },
+      {
+        id: "Q2F0ZWdvcnk6Mg==",
+        slug: "bakery",
+        name: "Bakery",
+        products: ["croissant"],
+      },
+      { id: UNCATEGORIZED_ID, slug: "", name: "Menu", products: ["gift-card"] },
+    ]);
+  });
+
+  it("replaces loaded products without changing the base map", () => {
+    const base = groupProductsByCategory(productNodes);
+    const restocked = {
+      ...croissantNode,
+      variants: [{ ...croissantNode.variants![0], quantityAvailable: 6 }],
+    };
+
+    const next = groupProductsByCategory([restocked], base);
+    const bakery = next.get("Q2F0ZWdvcnk6Mg==")!;
+    expect(bakery.products).toHaveLength(1);
+    expect(bakery.products[0].variants[0].quantityAvailable).toBe(6);
+    expect(
+      base.get("Q2F0ZWdvcnk6Mg==")!.products[0].variants[0].quantityAvailable,
+    ).toBe(0);
+  });
+
+  it("moves products to their new category and drops empty ones", () => {
+    const base = groupProductsByCategory(productNodes);
+    const moved = { ...latteNode, category: croissantNode.category };
+
+    const next = groupProductsByCategory([moved], base);
+    expect(next.has("Q2F0ZWdvcnk6MQ==")).toBe(false);
+    expect(
+      next.get("Q2F0ZWdvcnk6Mg==")!.products.map(({ slug }) => slug),
+    ).toEqual(["croissant", "latte"]);
+  });
+});
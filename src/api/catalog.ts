@@ -0,0 +1,613 @@
+import type { CachedRequest } from "./cache";
+import type {
+  ChannelsQuery,
+  ChannelsQueryVariables,
+  CollectionProductsQuery,
+  CollectionProductsQueryVariables,
+  ProductFieldsFragment,
+  ProductsByIdsQuery,
+  ProductsByIdsQueryVariables,
+  ProductsBySlugsQuery,
+  ProductsBySlugsQueryVariables,
+  SearchProductsQuery,
+  SearchProductsQueryVariables,
+  StoreCollectionQuery,
+  StoreCollectionQueryVariables,
+  StoreCollectionsQuery,
+  StoreCollectionsQueryVariables,
+  StoreFieldsFragment,
+} from "./generated";
+import channels from "./operations/Channels.graphql?raw";
+import collectionProducts from "./operations/CollectionProducts.graphql?raw";
+import productFields from "./operations/ProductFields.fragment.graphql?raw";
+import productsByIds from "./operations/ProductsByIds.graphql?raw";
+import productsBySlugs from "./operations/ProductsBySlugs.graphql?raw";
+import searchProducts from "./operations/SearchProducts.graphql?raw";
+import storeCollection from "./operations/StoreCollection.graphql?raw";
+import storeCollections from "./operations/StoreCollections.graphql?raw";
+import storeFields from "./operations/StoreFields.fragment.graphql?raw";
+
+export type Channel = {
+  id: string;
+  slug: string;
+  name: string;
+  currencyCode: string;
+  // Upper-case ISO codes; the default country comes first.
+  countries: string[];
+};
+
+export type Store = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  image: string;
+  imageAlt: string;
+  // Null for stores that take orders at any time.
+  hours: OpeningHours | null;
+  rules: OrderRules;
+};
+
+// Amounts by upper-case ISO currency code, since a store can sell in
+// channels with different currencies.
+export type CurrencyAmounts = Record<string, number>;
+
+export type OrderRules = {
+  // Carts in a currency without an amount have no minimum.
+  minOrderAmount: CurrencyAmounts;
+  maxItems: number | null;
+  // Variant of a product priced at the fee; it is added to the checkout.
+  serviceFeeVariantId: string | null;
+  // When set, the fee only applies to orders below the amount for their
+  // currency, and not at all in currencies without one.
+  serviceFeeBelow: CurrencyAmounts;
+};
+
+// Minutes since midnight. Ranges that run past midnight end after 1440.
+export type TimeRange = {
+  start: number;
+  end: number;
+};
+
+export type OpeningHours = {
+  // IANA time zone of the store; the device zone when it is not set.
+  timeZone: string | undefined;
+  // Ranges by weekday, Sunday first like `Date.getDay()`.
+  days: TimeRange[][];
+};
+
+export type ProductVariant = {
+  id: string;
+  name: string;
+  sku: string;
+  quantityAvailable: number | null;
+  priceAmount: number | null;
+  priceCurrency: string | null;
+};
+
+export type OptionChoice = {
+  id: string;
+  name: string;
+  priceDelta: number;
+};
+
+export type OptionGroup = {
+  id: string;
+  slug: string;
+  name: string;
+  required: boolean;
+  multiple: boolean;
+  choices: OptionChoice[];
+  defaultChoiceIds: string[];
+};
+
+export type Product = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  image: string;
+  imageAlt: string;
+  variants: ProductVariant[];
+  optionGroups: OptionGroup[];
+  priceAmount: number | null;
+  priceCurrency: string | null;
+};
+
+export type Category = {
+  id: string;
+  // Empty for the uncategorized group.
+  slug: string;
+  name: string;
+  products: Product[];
+};
+
+export type PageInfo = {
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+export type Page<T> = {
+  items: T[];
+  pageInfo: PageInfo;
+};
+
+export type SearchResult = {
+  product: Product;
+  // The store collections of the channel the product is listed in.
+  stores: Store[];
+};
+
+// Products without a category are grouped under this id.
+export const UNCATEGORIZED_ID = "uncategorized";
+
+// Product metadata keys of the form `option_price:<attribute>:<value>` carry
+// the price delta of an option value, e.g. `option_price:extras:bacon = 1.5`.
+// Boolean attributes use the attribute slug alone: `option_price:no-onions`.
+const OPTION_PRICE_PREFIX = "option_price:";
+
+const OPTION_INPUT_TYPES = ["DROPDOWN", "MULTISELECT", "BOOLEAN"];
+
+// Collection metadata keys `opening_hours:<day>` list the opening hours of a
+// store, e.g. `opening_hours:fri = 11:00-15:00, 18:00-02:00`. Days without a
+// key are closed. `timezone` holds the IANA zone the hours are given in.
+const OPENING_HOURS_PREFIX = "opening_hours:";
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const TIME_RANGE_PATTERN = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+
+// Collection metadata keys with the order rules of a store. Amount keys end
+// in the currency they are given in, e.g. `min_order_amount:EUR = 15`.
+const ORDER_RULE_KEYS = {
+  minOrderAmount: "min_order_amount",
+  maxItems: "max_order_items",
+  serviceFeeVariantId: "service_fee_variant",
+  serviceFeeBelow: "service_fee_below",
+};
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+// Documents are sent with the fragments they spread; Saleor rejects unused
+// fragments, so each operation only gets the ones it needs.
+const STORE_COLLECTIONS = [storeCollections, storeFields].join("\n");
+const STORE_COLLECTION = [storeCollection, storeFields].join("\n");
+const COLLECTION_PRODUCTS = [collectionProducts, productFields].join("\n");
+const PRODUCTS_BY_IDS = [productsByIds, productFields].join("\n");
+const PRODUCTS_BY_SLUGS = [productsBySlugs, productFields].join("\n");
+const SEARCH_PRODUCTS = [searchProducts, productFields, storeFields].join("\n");
+
+function execute<TData, TVariables extends Record<string, unknown>>(
+  request: CachedRequest,
+  document: string,
+  variables: TVariables,
+  onRevalidate?: (data: TData) => void,
+): Promise<TData> {
+  return request(
+    document,
+    variables,
+    onRevalidate && ((data) => onRevalidate(data as TData)),
+  );
+}
+
+// Saleor only lists channels for apps and staff, so this needs the proxy.
+export async function fetchChannels(
+  request: CachedRequest,
+): Promise<Channel[]> {
+  const data = await execute<ChannelsQuery, ChannelsQueryVariables>(
+    request,
+    channels,
+    {},
+  );
+
+  return (data?.channels ?? [])
+    .filter(({ isActive }) => isActive)
+    .map((node) => ({
+      id: node.id,
+      slug: node.slug,
+      name: node.name,
+      currencyCode: node.currencyCode,
+      countries: Array.from(
+        new Set([
+          node.defaultCountry.code,
+          ...(node.countries ?? []).map(({ code }) => code),
+        ]),
+      ).map((code) => code.toUpperCase()),
+    }));
+}
+
+export async function fetchStores(
+  request: CachedRequest,
+  variables: StoreCollectionsQueryVariables,
+  onRevalidate?: (page: Page<Store>) => void,
+): Promise<Page<Store>> {
+  const toPage = (data: StoreCollectionsQuery): Page<Store> => ({
+    items: (data?.collections?.edges ?? []).map(({ node }) => mapStore(node)),
+    pageInfo: readPageInfo(data?.collections?.pageInfo),
+  });
+
+  const data = await execute<
+    StoreCollectionsQuery,
+    StoreCollectionsQueryVariables
+  >(
+    request,
+    STORE_COLLECTIONS,
+    variables,
+    onRevalidate && ((fresh) => onRevalidate(toPage(fresh))),
+  );
+  return toPage(data);
+}
+
+export async function fetchStoreBySlug(
+  request: CachedRequest,
+  variables: StoreCollectionQueryVariables,
+): Promise<Store | null> {
+  const data = await execute<
+    StoreCollectionQuery,
+    StoreCollectionQueryVariables
+  >(request, STORE_COLLECTION, variables);
+
+  return data?.collection ? mapStore(data.collection) : null;
+}
+
+export async function fetchStoreProducts(
+  request: CachedRequest,
+  variables: CollectionProductsQueryVariables,
+  onRevalidate?: (page: Page<ProductFieldsFragment>) => void,
+): Promise<Page<ProductFieldsFragment>> {
+  const toPage = (
+    data: CollectionProductsQuery,
+  ): Page<ProductFieldsFragment> => ({
+    items: (data?.collection?.products?.edges ?? []).map(({ node }) => node),
+    pageInfo: readPageInfo(data?.collection?.products?.pageInfo),
+  });
+
+  const data = await execute<
+    CollectionProductsQuery,
+    CollectionProductsQueryVariables
+  >(
+    request,
+    COLLECTION_PRODUCTS,
+    variables,
+    onRevalidate && ((fresh) => onRevalidate(toPage(fresh))),
+  );
+  return toPage(data);
+}
+
+export async function fetchProductsByIds(
+  request: CachedRequest,
+  variables: ProductsByIdsQueryVariables,
+): Promise<Product[]> {
+  const data = await execute<ProductsByIdsQuery, ProductsByIdsQueryVariables>(
+    request,
+    PRODUCTS_BY_IDS,
+    variables,
+  );
+
+  return (data?.products?.edges ?? []).map(({ node }) => mapProduct(node));
+}
+
+export async function fetchProductsBySlugs(
+  request: CachedRequest,
+  variables: ProductsBySlugsQueryVariables,
+): Promise<Product[]> {
+  const data = await execute<
+    ProductsBySlugsQuery,
+    ProductsBySlugsQueryVariables
+  >(request, PRODUCTS_BY_SLUGS, variables);
+
+  return (data?.products?.edges ?? []).map(({ node }) => mapProduct(node));
+}
+
+export async function fetchSearchResults(
+  request: CachedRequest,
+  variables: SearchProductsQueryVariables,
+): Promise<SearchResult[]> {
+  const data = await execute<SearchProductsQuery, SearchProductsQueryVariables>(
+    request,
+    SEARCH_PRODUCTS,
+    variables,
+  );
+
+  return (data?.products?.edges ?? []).map(({ node }) => ({
+    product: mapProduct(node),
+    stores: (node.collections ?? []).map(mapStore),
+  }));
+}
+
+// Names and descriptions come from the Saleor translation for the requested
+// language when one exists.
+export function mapStore(node: StoreFieldsFragment): Store {
+  const name = node.translation?.name || node.name;
+  return {
+    id: node.id,
+    slug: node.slug,
+    name,
+    description:
+      node.translation?.seoDescription ||
+      node.translation?.description ||
+      node.seoDescription ||
+      node.description ||
+      "",
+    image: node.backgroundImage?.url || "",
+    imageAlt: node.backgroundImage?.alt || name || "",
+    hours: readOpeningHours(node.metadata),
+    rules: readOrderRules(node.metadata),
+  };
+}
+
+function readOrderRules(metadata: StoreFieldsFragment["metadata"]): OrderRules {
+  const values = new Map(metadata.map(({ key, value }) => [key, value.trim()]));
+  const readAmount = (value: string | undefined) => {
+    const amount = Number.parseFloat(value || "");
+    return Number.isFinite(amount) && amount > 0 ? amount : null;
+  };
+  const readAmounts = (prefix: string) => {
+    const amounts: CurrencyAmounts = {};
+    values.forEach((value, key) => {
+      if (!key.startsWith(`${prefix}:`)) return;
+      const currency = key.slice(prefix.length + 1).trim().toUpperCase();
+      const amount = readAmount(value);
+      if (CURRENCY_PATTERN.test(currency) && amount != null) {
+        amounts[currency] = amount;
+      }
+    });
+    return amounts;
+  };
+
+  return {
+    minOrderAmount: readAmounts(ORDER_RULE_KEYS.minOrderAmount),
+    maxItems:
+      Math.floor(readAmount(values.get(ORDER_RULE_KEYS.maxItems)) || 0) ||
+      null,
+    serviceFeeVariantId:
+      values.get(ORDER_RULE_KEYS.serviceFeeVariantId) || null,
+    serviceFeeBelow: readAmounts(ORDER_RULE_KEYS.serviceFeeBelow),
+  };
+}
+
+function readOpeningHours(
+  metadata: StoreFieldsFragment["metadata"],
+): OpeningHours | null {
+  const days: TimeRange[][] = WEEKDAYS.map(() => []);
+  let hasHours = false;
+  let timeZone: string | undefined;
+
+  metadata.forEach(({ key, value }) => {
+    if (key === "timezone") {
+      timeZone = readTimeZone(value);
+      return;
+    }
+    if (!key.startsWith(OPENING_HOURS_PREFIX)) return;
+    const day = WEEKDAYS.indexOf(
+      key.slice(OPENING_HOURS_PREFIX.length).trim().toLowerCase(),
+    );
+    if (day < 0) return;
+
+    hasHours = true;
+    value.split(",").forEach((part) => {
+      const range = readTimeRange(part.trim());
+      if (range) {
+        days[day].push(range);
+      }
+    });
+  });
+
+  return hasHours ? { timeZone, days } : null;
+}
+
+// Accepts `HH:MM-HH:MM`; anything else, such as `closed`, adds no range.
+function readTimeRange(value: string): TimeRange | null {
+  const match = TIME_RANGE_PATTERN.exec(value);
+  if (!match) return null;
+  const [startHours, startMinutes, endHours, endMinutes] = match
+    .slice(1)
+    .map(Number);
+  if (
+    startHours > 23 ||
+    endHours > 24 ||
+    startMinutes > 59 ||
+    endMinutes > 59
+  ) {
+    return null;
+  }
+
+  const start = startHours * 60 + startMinutes;
+  let end = endHours * 60 + endMinutes;
+  if (end <= start) {
+    end += 24 * 60;
+  }
+  return { start, end };
+}
+
+function readTimeZone(value: string) {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: value.trim(),
+    }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+function readPageInfo(
+  pageInfo: { hasNextPage: boolean; endCursor?: string | null } | undefined,
+): PageInfo {
+  return {
+    hasNextPage: Boolean(pageInfo?.hasNextPage),
+    endCursor: pageInfo?.endCursor || null,
+  };
+}
+
+/**
+ * Groups product nodes by category on top of the already loaded pages.
+ * Products that are already loaded are replaced with the new data, which
+ * lets refreshed pages update prices and stock. Categories are copied, so
+ * `base` is left untouched for React state.
+ */
+export function groupProductsByCategory(
+  nodes: ProductFieldsFragment[],
+  base: Map<string, Category> = new Map(),
+) {
+  const byCategory = new Map<string, Category>();
+  base.forEach((category, id) => {
+    byCategory.set(id, { ...category, products: [...category.products] });
+  });
+
+  nodes.forEach((node) => {
+    const categoryId = node.category?.id || UNCATEGORIZED_ID;
+    const categoryName =
+      node.category?.translation?.name || node.category?.name || "Menu";
+
+    if (!byCategory.has(categoryId)) {
+      byCategory.set(categoryId, {
+        id: categoryId,
+        slug: node.category?.slug || "",
+        name: categoryName,
+        products: [],
+      });
+    }
+
+    const product = mapProduct(node);
+    const products = byCategory.get(categoryId)!.products;
+    const index = products.findIndex(({ id }) => id === node.id);
+    if (index >= 0) {
+      products[index] = product;
+      return;
+    }
+
+    // A product that moved to another category leaves the old one.
+    byCategory.forEach((category, id) => {
+      if (id === categoryId) return;
+      category.products = category.products.filter(
+        (item) => item.id !== node.id,
+      );
+    });
+    products.push(product);
+  });
+
+  byCategory.forEach((category, id) => {
+    if (!category.products.length) {
+      byCategory.delete(id);
+    }
+  });
+
+  return byCategory;
+}
+
+export function mapProduct(node: ProductFieldsFragment): Product {
+  const startPrice = node.pricing?.priceRange?.start?.gross || null;
+
+  const productVariants: ProductVariant[] = (node.variants ?? []).map(
+    (variant) => {
+      const price = variant.pricing?.price?.gross || startPrice;
+      return {
+        id: variant.id,
+        name: variant.name || "",
+        sku: variant.sku || "",
+        quantityAvailable:
+          typeof variant.quantityAvailable === "number"
+            ? variant.quantityAvailable
+            : null,
+        priceAmount: price?.amount ?? null,
+        priceCurrency: price?.currency ?? null,
+      };
+    },
+  );
+
+  const name = node.translation?.name || node.name;
+  const cheapestVariant = productVariants
+    .filter((variant) => variant.priceAmount != null)
+    .sort((a, b) => a.priceAmount! - b.priceAmount!)[0];
+
+  return {
+    id: node.id,
+    slug: node.slug,
+    name,
+    description: node.translation?.description || node.description || "",
+    image: node.thumbnail?.url || "",
+    imageAlt: node.thumbnail?.alt || name || "",
+    variants: productVariants,
+    optionGroups: mapOptionGroups(node.attributes, node.metadata),
+    priceAmount: cheapestVariant?.priceAmount ?? startPrice?.amount ?? null,
+    priceCurrency:
+      cheapestVariant?.priceCurrency ?? startPrice?.currency ?? null,
+  };
+}
+
+function mapOptionGroups(
+  attributes: ProductFieldsFragment["attributes"],
+  metadata: ProductFieldsFragment["metadata"],
+): OptionGroup[] {
+  const priceDeltas = new Map<string, number>();
+  metadata.forEach(({ key, value }) => {
+    if (!key.startsWith(OPTION_PRICE_PREFIX)) return;
+    const amount = Number.parseFloat(value);
+    if (Number.isFinite(amount)) {
+      priceDeltas.set(key.slice(OPTION_PRICE_PREFIX.length), amount);
+    }
+  });
+
+  const groups: OptionGroup[] = [];
+  attributes.forEach(({ attribute, values }) => {
+    if (
+      !attribute.inputType ||
+      !OPTION_INPUT_TYPES.includes(attribute.inputType)
+    ) {
+      return;
+    }
+
+    const slug = attribute.slug || "";
+    const name = attribute.name || slug;
+
+    if (attribute.inputType === "BOOLEAN") {
+      groups.push({
+        id: attribute.id,
+        slug,
+        name,
+        required: false,
+        multiple: true,
+        choices: [
+          {
+            id: attribute.id,
+            name,
+            priceDelta: priceDeltas.get(slug) || 0,
+          },
+        ],
+        defaultChoiceIds: [],
+      });
+      return;
+    }
+
+    // A product holds a single value of a dropdown attribute, so every choice
+    // of the attribute is offered with the assigned one preselected. For
+    // multiselect attributes the assigned values are the offered add-ons.
+    const multiple = attribute.inputType === "MULTISELECT";
+    const source = multiple
+      ? values
+      : attribute.choices?.edges.map(({ node }) => node) || values;
+
+    const choices: OptionChoice[] = source.map((value) => ({
+      id: value.id,
+      name: value.name || "",
+      priceDelta: priceDeltas.get(`${slug}:${value.slug}`) || 0,
+    }));
+
+    if (!choices.length) {
+      return;
+    }
+
+    groups.push({
+      id: attribute.id,
+      slug,
+      name,
+      required: attribute.valueRequired,
+      multiple,
+      choices,
+      defaultChoiceIds: multiple
+        ? []
+        : values
+            .map((value) => value.id)
+            .filter((id) => choices.some((choice) => choice.id === id)),
+    });
+  });
+
+  return groups;
+}
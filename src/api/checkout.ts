@@ -0,0 +1,457 @@
+import type {
+  AddressFieldsFragment,
+  AddressInput as SaleorAddressInput,
+  CheckoutAddPromoCodeMutation,
+  CheckoutAddPromoCodeMutationVariables,
+  CheckoutAddressesUpdateMutation,
+  CheckoutAddressesUpdateMutationVariables,
+  CheckoutBillingAddressUpdateMutation,
+  CheckoutBillingAddressUpdateMutationVariables,
+  CheckoutCompleteMutation,
+  CheckoutCompleteMutationVariables,
+  CheckoutCreateMutation,
+  CheckoutCreateMutationVariables,
+  CheckoutDeliveryMethodUpdateMutation,
+  CheckoutDeliveryMethodUpdateMutationVariables,
+  CheckoutEmailUpdateMutation,
+  CheckoutEmailUpdateMutationVariables,
+  CheckoutFieldsFragment,
+  CheckoutLinesAddMutation,
+  CheckoutLinesAddMutationVariables,
+  CheckoutLinesDeleteMutation,
+  CheckoutLinesDeleteMutationVariables,
+  CheckoutLinesUpdateMutation,
+  CheckoutLinesUpdateMutationVariables,
+  CheckoutMetadataUpdateMutation,
+  CheckoutMetadataUpdateMutationVariables,
+  CheckoutRemovePromoCodeMutation,
+  CheckoutRemovePromoCodeMutationVariables,
+  CountryCode,
+  LanguageCodeEnum,
+} from "./generated";
+import addressFields from "./operations/AddressFields.fragment.graphql?raw";
+import checkoutAddPromoCode from "./operations/CheckoutAddPromoCode.graphql?raw";
+import checkoutAddressesUpdate from "./operations/CheckoutAddressesUpdate.graphql?raw";
+import checkoutBillingAddressUpdate from "./operations/CheckoutBillingAddressUpdate.graphql?raw";
+import checkoutComplete from "./operations/CheckoutComplete.graphql?raw";
+import checkoutCreate from "./operations/CheckoutCreate.graphql?raw";
+import checkoutDeliveryMethodUpdate from "./operations/CheckoutDeliveryMethodUpdate.graphql?raw";
+import checkoutEmailUpdate from "./operations/CheckoutEmailUpdate.graphql?raw";
+import checkoutFields from "./operations/CheckoutFields.fragment.graphql?raw";
+import checkoutLinesAdd from "./operations/CheckoutLinesAdd.graphql?raw";
+import checkoutLinesDelete from "./operations/CheckoutLinesDelete.graphql?raw";
+import checkoutLinesUpdate from "./operations/CheckoutLinesUpdate.graphql?raw";
+import checkoutMetadataUpdate from "./operations/CheckoutMetadataUpdate.graphql?raw";
+import checkoutRemovePromoCode from "./operations/CheckoutRemovePromoCode.graphql?raw";
+
+export type RequestOptions = {
+  // Mutations are only retried when repeating them cannot change the result.
+  idempotent?: boolean;
+};
+
+export type GraphQLRequest = (
+  query: string,
+  variables: Record<string, unknown>,
+  options?: RequestOptions,
+) => Promise<unknown>;
+
+export type Money = {
+  amount: number;
+  currency: string;
+};
+
+export type MetadataEntry = {
+  key: string;
+  value: string;
+};
+
+export type CheckoutLineInput = {
+  quantity: number;
+  variantId: string;
+  forceNewLine?: boolean;
+  metadata?: MetadataEntry[];
+};
+
+export type AddressInput = {
+  firstName: string;
+  lastName: string;
+  streetAddress1: string;
+  streetAddress2: string;
+  city: string;
+  postalCode: string;
+  country: string;
+  countryArea: string;
+  phone: string;
+};
+
+export type CheckoutLine = {
+  id: string;
+  quantity: number;
+  variantId: string;
+  cartKey: string | null;
+  total: Money | null;
+};
+
+export type ShippingMethod = {
+  id: string;
+  name: string;
+  price: Money | null;
+  minimumDeliveryDays: number | null;
+  maximumDeliveryDays: number | null;
+};
+
+// A warehouse the customer can collect the order from.
+export type CollectionPoint = {
+  id: string;
+  name: string;
+  address: AddressInput | null;
+};
+
+export type AppliedGiftCard = {
+  id: string;
+  last4CodeChars: string;
+  currentBalance: Money | null;
+};
+
+export type Checkout = {
+  id: string;
+  isShippingRequired: boolean;
+  lines: CheckoutLine[];
+  shippingAddress: AddressInput | null;
+  shippingMethods: ShippingMethod[];
+  collectionPoints: CollectionPoint[];
+  deliveryMethodId: string | null;
+  subtotal: Money | null;
+  shipping: Money | null;
+  total: Money | null;
+  voucherCode: string | null;
+  discount: Money | null;
+  discountName: string | null;
+  giftCards: AppliedGiftCard[];
+};
+
+export type CompletedOrder = {
+  id: string;
+  number: string;
+  status: string;
+  created: string;
+  total: Money | null;
+};
+
+type MutationError = {
+  field?: string | null;
+  message?: string | null;
+  code?: string | null;
+};
+
+type CheckoutPayload =
+  | {
+      checkout?: CheckoutFieldsFragment | null;
+      errors: MutationError[];
+    }
+  | null
+  | undefined;
+
+// Operations that return a checkout are sent with its fragments.
+const withCheckoutFields = (operation: string) =>
+  [operation, checkoutFields, addressFields].join("\n");
+
+const CHECKOUT_CREATE = withCheckoutFields(checkoutCreate);
+const CHECKOUT_LINES_ADD = withCheckoutFields(checkoutLinesAdd);
+const CHECKOUT_LINES_UPDATE = withCheckoutFields(checkoutLinesUpdate);
+const CHECKOUT_LINES_DELETE = withCheckoutFields(checkoutLinesDelete);
+const CHECKOUT_ADDRESSES_UPDATE = withCheckoutFields(checkoutAddressesUpdate);
+const CHECKOUT_BILLING_ADDRESS_UPDATE = withCheckoutFields(
+  checkoutBillingAddressUpdate,
+);
+const CHECKOUT_EMAIL_UPDATE = withCheckoutFields(checkoutEmailUpdate);
+const CHECKOUT_DELIVERY_METHOD_UPDATE = withCheckoutFields(
+  checkoutDeliveryMethodUpdate,
+);
+const CHECKOUT_ADD_PROMO_CODE = withCheckoutFields(checkoutAddPromoCode);
+const CHECKOUT_REMOVE_PROMO_CODE = withCheckoutFields(checkoutRemovePromoCode);
+
+function execute<TData, TVariables extends Record<string, unknown>>(
+  request: GraphQLRequest,
+  document: string,
+  variables: TVariables,
+  options?: RequestOptions,
+): Promise<TData> {
+  return request(document, variables, options) as Promise<TData>;
+}
+
+export async function createCheckout(
+  request: GraphQLRequest,
+  input: {
+    channel: string;
+    email: string;
+    // Saleor `LanguageCodeEnum` value used for customer notifications.
+    languageCode?: LanguageCodeEnum;
+    lines: CheckoutLineInput[];
+    metadata: MetadataEntry[];
+  },
+) {
+  const data = await execute<
+    CheckoutCreateMutation,
+    CheckoutCreateMutationVariables
+  >(request, CHECKOUT_CREATE, { input });
+  return readCheckout(data?.checkoutCreate);
+}
+
+export async function addCheckoutLines(
+  request: GraphQLRequest,
+  id: string,
+  lines: CheckoutLineInput[],
+) {
+  const data = await execute<
+    CheckoutLinesAddMutation,
+    CheckoutLinesAddMutationVariables
+  >(request, CHECKOUT_LINES_ADD, { id, lines });
+  return readCheckout(data?.checkoutLinesAdd);
+}
+
+export async function updateCheckoutLines(
+  request: GraphQLRequest,
+  id: string,
+  lines: { lineId: string; quantity: number }[],
+) {
+  const data = await execute<
+    CheckoutLinesUpdateMutation,
+    CheckoutLinesUpdateMutationVariables
+  >(request, CHECKOUT_LINES_UPDATE, { id, lines }, { idempotent: true });
+  return readCheckout(data?.checkoutLinesUpdate);
+}
+
+export async function deleteCheckoutLines(
+  request: GraphQLRequest,
+  id: string,
+  linesIds: string[],
+) {
+  const data = await execute<
+    CheckoutLinesDeleteMutation,
+    CheckoutLinesDeleteMutationVariables
+  >(request, CHECKOUT_LINES_DELETE, { id, linesIds });
+  return readCheckout(data?.checkoutLinesDelete);
+}
+
+export async function updateCheckoutAddresses(
+  request: GraphQLRequest,
+  id: string,
+  address: AddressInput,
+) {
+  const data = await execute<
+    CheckoutAddressesUpdateMutation,
+    CheckoutAddressesUpdateMutationVariables
+  >(
+    request,
+    CHECKOUT_ADDRESSES_UPDATE,
+    { id, address: toSaleorAddress(address) },
+    { idempotent: true },
+  );
+  throwOnErrors(data?.checkoutShippingAddressUpdate?.errors);
+  return readCheckout(data?.checkoutBillingAddressUpdate);
+}
+
+// Pickup orders still need a billing address, but no shipping address.
+export async function updateBillingAddress(
+  request: GraphQLRequest,
+  id: string,
+  address: AddressInput,
+) {
+  const data = await execute<
+    CheckoutBillingAddressUpdateMutation,
+    CheckoutBillingAddressUpdateMutationVariables
+  >(
+    request,
+    CHECKOUT_BILLING_ADDRESS_UPDATE,
+    { id, address: toSaleorAddress(address) },
+    { idempotent: true },
+  );
+  return readCheckout(data?.checkoutBillingAddressUpdate);
+}
+
+export async function updateCheckoutEmail(
+  request: GraphQLRequest,
+  id: string,
+  email: string,
+) {
+  const data = await execute<
+    CheckoutEmailUpdateMutation,
+    CheckoutEmailUpdateMutationVariables
+  >(request, CHECKOUT_EMAIL_UPDATE, { id, email }, { idempotent: true });
+  return readCheckout(data?.checkoutEmailUpdate);
+}
+
+export async function updateDeliveryMethod(
+  request: GraphQLRequest,
+  id: string,
+  deliveryMethodId: string,
+) {
+  const data = await execute<
+    CheckoutDeliveryMethodUpdateMutation,
+    CheckoutDeliveryMethodUpdateMutationVariables
+  >(
+    request,
+    CHECKOUT_DELIVERY_METHOD_UPDATE,
+    { id, deliveryMethodId },
+    { idempotent: true },
+  );
+  return readCheckout(data?.checkoutDeliveryMethodUpdate);
+}
+
+// Applies a voucher code or a gift card code; Saleor decides which it is.
+export async function addPromoCode(
+  request: GraphQLRequest,
+  id: string,
+  promoCode: string,
+) {
+  const data = await execute<
+    CheckoutAddPromoCodeMutation,
+    CheckoutAddPromoCodeMutationVariables
+  >(request, CHECKOUT_ADD_PROMO_CODE, { id, promoCode }, { idempotent: true });
+  return readCheckout(data?.checkoutAddPromoCode);
+}
+
+// Vouchers are removed by their code, gift cards by their ID.
+export async function removePromoCode(
+  request: GraphQLRequest,
+  id: string,
+  code: { promoCode: string } | { promoCodeId: string },
+) {
+  const data = await execute<
+    CheckoutRemovePromoCodeMutation,
+    CheckoutRemovePromoCodeMutationVariables
+  >(
+    request,
+    CHECKOUT_REMOVE_PROMO_CODE,
+    { id, ...code },
+    { idempotent: true },
+  );
+  return readCheckout(data?.checkoutRemovePromoCode);
+}
+
+// Sets the given metadata keys on the checkout and keeps the other ones.
+export async function updateCheckoutMetadata(
+  request: GraphQLRequest,
+  id: string,
+  metadata: MetadataEntry[],
+) {
+  const data = await execute<
+    CheckoutMetadataUpdateMutation,
+    CheckoutMetadataUpdateMutationVariables
+  >(request, checkoutMetadataUpdate, { id, metadata }, { idempotent: true });
+  throwOnErrors(data?.updateMetadata?.errors);
+}
+
+export async function completeCheckout(
+  request: GraphQLRequest,
+  id: string,
+): Promise<CompletedOrder> {
+  const data = await execute<
+    CheckoutCompleteMutation,
+    CheckoutCompleteMutationVariables
+  >(request, checkoutComplete, { id });
+  const result = data?.checkoutComplete;
+  throwOnErrors(result?.errors);
+
+  if (result?.confirmationNeeded) {
+    throw new Error("The payment requires additional confirmation.");
+  }
+
+  const order = result?.order;
+  if (!order) {
+    throw new Error("Saleor did not return an order.");
+  }
+
+  return {
+    id: order.id,
+    number: String(order.number ?? ""),
+    status: order.status || "",
+    created: order.created || "",
+    total: order.total?.gross || null,
+  };
+}
+
+function readCheckout(result: CheckoutPayload): Checkout {
+  throwOnErrors(result?.errors);
+
+  const node = result?.checkout;
+  if (!node) {
+    throw new Error("Saleor did not return a checkout.");
+  }
+
+  return {
+    id: node.id,
+    isShippingRequired: Boolean(node.isShippingRequired),
+    lines: node.lines.map((line) => ({
+      id: line.id,
+      quantity: line.quantity,
+      variantId: line.variant.id,
+      cartKey: line.cartKey || null,
+      total: line.totalPrice?.gross || null,
+    })),
+    shippingAddress: readAddress(node.shippingAddress),
+    shippingMethods: node.shippingMethods
+      .filter((method) => method.active !== false)
+      .map((method) => ({
+        id: method.id,
+        name: method.name,
+        price: method.price || null,
+        minimumDeliveryDays: method.minimumDeliveryDays ?? null,
+        maximumDeliveryDays: method.maximumDeliveryDays ?? null,
+      })),
+    collectionPoints: node.availableCollectionPoints.map((point) => ({
+      id: point.id,
+      name: point.name || "",
+      address: readAddress(point.address),
+    })),
+    deliveryMethodId: node.deliveryMethod?.id || null,
+    subtotal: node.subtotalPrice?.gross || null,
+    shipping: node.shippingPrice?.gross || null,
+    total: node.totalPrice?.gross || null,
+    voucherCode: node.voucherCode || null,
+    discount: node.discount?.amount ? node.discount : null,
+    discountName: node.translatedDiscountName || node.discountName || null,
+    giftCards: node.giftCards.map((card) => ({
+      id: card.id,
+      last4CodeChars: card.last4CodeChars || "",
+      currentBalance: card.currentBalance || null,
+    })),
+  };
+}
+
+function readAddress(
+  address: AddressFieldsFragment | null | undefined,
+): AddressInput | null {
+  if (!address) return null;
+  return {
+    firstName: address.firstName || "",
+    lastName: address.lastName || "",
+    streetAddress1: address.streetAddress1 || "",
+    streetAddress2: address.streetAddress2 || "",
+    city: address.city || "",
+    postalCode: address.postalCode || "",
+    country: address.country?.code || "",
+    countryArea: address.countryArea || "",
+    phone: address.phone || "",
+  };
+}
+
+// Countries are validated by the address form; Saleor rejects unknown codes.
+function toSaleorAddress(address: AddressInput): SaleorAddressInput {
+  return {
+    ...address,
+    country: address.country.trim().toUpperCase() as CountryCode,
+  };
+}
+
+function throwOnErrors(errors: MutationError[] | null | undefined) {
+  if (!errors?.length) {
+    return;
+  }
+  const errorMessage = errors
+    .map((err) => err.message || err.code)
+    .filter(Boolean)
+    .join(", ");
+  throw new Error(errorMessage || "Saleor returned an error.");
+}
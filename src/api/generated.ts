@@ -0,0 +1,644 @@
+export type Maybe<T> = T | null;
+export type InputMaybe<T> = Maybe<T>;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+  /** The `DateTime` scalar type represents a DateTime value as specified by ISO 8601. */
+  DateTime: { input: string; output: string; }
+  /** The `JSONString` scalar type represents JSON values as specified by ECMA-404. */
+  JSONString: { input: string; output: string; }
+};
+
+export type AddressInput = {
+  city?: InputMaybe<Scalars['String']['input']>;
+  cityArea?: InputMaybe<Scalars['String']['input']>;
+  companyName?: InputMaybe<Scalars['String']['input']>;
+  country?: InputMaybe<CountryCode>;
+  countryArea?: InputMaybe<Scalars['String']['input']>;
+  firstName?: InputMaybe<Scalars['String']['input']>;
+  lastName?: InputMaybe<Scalars['String']['input']>;
+  phone?: InputMaybe<Scalars['String']['input']>;
+  postalCode?: InputMaybe<Scalars['String']['input']>;
+  skipValidation?: InputMaybe<Scalars['Boolean']['input']>;
+  streetAddress1?: InputMaybe<Scalars['String']['input']>;
+  streetAddress2?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type AttributeChoicesSortField =
+  | 'NAME'
+  | 'SLUG';
+
+export type AttributeChoicesSortingInput = {
+  direction: OrderDirection;
+  field: AttributeChoicesSortField;
+};
+
+export type AttributeInputTypeEnum =
+  | 'BOOLEAN'
+  | 'DATE'
+  | 'DATE_TIME'
+  | 'DROPDOWN'
+  | 'FILE'
+  | 'MULTISELECT'
+  | 'NUMERIC'
+  | 'PLAIN_TEXT'
+  | 'REFERENCE'
+  | 'RICH_TEXT'
+  | 'SINGLE_REFERENCE'
+  | 'SWATCH';
+
+export type CheckoutCreateInput = {
+  billingAddress?: InputMaybe<AddressInput>;
+  channel?: InputMaybe<Scalars['String']['input']>;
+  email?: InputMaybe<Scalars['String']['input']>;
+  languageCode?: InputMaybe<LanguageCodeEnum>;
+  lines: Array<CheckoutLineInput>;
+  metadata?: InputMaybe<Array<MetadataInput>>;
+  privateMetadata?: InputMaybe<Array<MetadataInput>>;
+  shippingAddress?: InputMaybe<AddressInput>;
+};
+
+export type CheckoutErrorCode =
+  | 'BILLING_ADDRESS_NOT_SET'
+  | 'CHANNEL_INACTIVE'
+  | 'CHECKOUT_NOT_FULLY_PAID'
+  | 'DELIVERY_METHOD_NOT_APPLICABLE'
+  | 'EMAIL_NOT_SET'
+  | 'GIFT_CARD_NOT_APPLICABLE'
+  | 'GRAPHQL_ERROR'
+  | 'INACTIVE_PAYMENT'
+  | 'INSUFFICIENT_STOCK'
+  | 'INVALID'
+  | 'INVALID_SHIPPING_METHOD'
+  | 'MISSING_CHANNEL_SLUG'
+  | 'NON_EDITABLE_GIFT_LINE'
+  | 'NON_REMOVABLE_GIFT_LINE'
+  | 'NOT_FOUND'
+  | 'NO_LINES'
+  | 'PAYMENT_ERROR'
+  | 'PRODUCT_NOT_PUBLISHED'
+  | 'PRODUCT_UNAVAILABLE_FOR_PURCHASE'
+  | 'QUANTITY_GREATER_THAN_LIMIT'
+  | 'REQUIRED'
+  | 'SHIPPING_ADDRESS_NOT_SET'
+  | 'SHIPPING_CHANGE_FORBIDDEN'
+  | 'SHIPPING_METHOD_NOT_APPLICABLE'
+  | 'SHIPPING_METHOD_NOT_SET'
+  | 'SHIPPING_NOT_REQUIRED'
+  | 'TAX_ERROR'
+  | 'UNAVAILABLE_VARIANT_IN_CHANNEL'
+  | 'UNIQUE'
+  | 'VOUCHER_NOT_APPLICABLE'
+  | 'ZERO_QUANTITY';
+
+export type CheckoutLineInput = {
+  forceNewLine?: InputMaybe<Scalars['Boolean']['input']>;
+  metadata?: InputMaybe<Array<MetadataInput>>;
+  quantity: Scalars['Int']['input'];
+  variantId: Scalars['ID']['input'];
+};
+
+export type CheckoutLineUpdateInput = {
+  lineId?: InputMaybe<Scalars['ID']['input']>;
+  quantity?: InputMaybe<Scalars['Int']['input']>;
+  variantId?: InputMaybe<Scalars['ID']['input']>;
+};
+
+export type CollectionFilterInput = {
+  channel?: InputMaybe<Scalars['String']['input']>;
+  ids?: InputMaybe<Array<Scalars['ID']['input']>>;
+  metadata?: InputMaybe<Array<MetadataFilter>>;
+  published?: InputMaybe<CollectionPublished>;
+  search?: InputMaybe<Scalars['String']['input']>;
+  slugs?: InputMaybe<Array<Scalars['String']['input']>>;
+};
+
+export type CollectionPublished =
+  | 'HIDDEN'
+  | 'PUBLISHED';
+
+export type CollectionSortField =
+  | 'AVAILABILITY'
+  | 'NAME'
+  | 'PRODUCT_COUNT'
+  | 'PUBLICATION_DATE'
+  | 'PUBLISHED_AT';
+
+export type CollectionSortingInput = {
+  channel?: InputMaybe<Scalars['String']['input']>;
+  direction: OrderDirection;
+  field: CollectionSortField;
+};
+
+export type CountryCode =
+  | 'AD'
+  | 'AE'
+  | 'AF'
+  | 'AG'
+  | 'AI'
+  | 'AL'
+  | 'AM'
+  | 'AO'
+  | 'AQ'
+  | 'AR'
+  | 'AS'
+  | 'AT'
+  | 'AU'
+  | 'AW'
+  | 'AX'
+  | 'AZ'
+  | 'BA'
+  | 'BB'
+  | 'BD'
+  | 'BE'
+  | 'BF'
+  | 'BG'
+  | 'BH'
+  | 'BI'
+  | 'BJ'
+  | 'BL'
+  | 'BM'
+  | 'BN'
+  | 'BO'
+  | 'BQ'
+  | 'BR'
+  | 'BS'
+  | 'BT'
+  | 'BV'
+  | 'BW'
+  | 'BY'
+  | 'BZ'
+  | 'CA'
+  | 'CC'
+  | 'CD'
+  | 'CF'
+  | 'CG'
+  | 'CH'
+  | 'CI'
+  | 'CK'
+  | 'CL'
+  | 'CM'
+  | 'CN'
+  | 'CO'
+  | 'CR'
+  | 'CU'
+  | 'CV'
+  | 'CW'
+  | 'CX'
+  | 'CY'
+  | 'CZ'
+  | 'DE'
+  | 'DJ'
+  | 'DK'
+  | 'DM'
+  | 'DO'
+  | 'DZ'
+  | 'EC'
+  | 'EE'
+  | 'EG'
+  | 'EH'
+  | 'ER'
+  | 'ES'
+  | 'ET'
+  | 'EU'
+  | 'FI'
+  | 'FJ'
+  | 'FK'
+  | 'FM'
+  | 'FO'
+  | 'FR'
+  | 'GA'
+  | 'GB'
+  | 'GD'
+  | 'GE'
+  | 'GF'
+  | 'GG'
+  | 'GH'
+  | 'GI'
+  | 'GL'
+  | 'GM'
+  | 'GN'
+  | 'GP'
+  | 'GQ'
+  | 'GR'
+  | 'GS'
+  | 'GT'
+  | 'GU'
+  | 'GW'
+  | 'GY'
+  | 'HK'
+  | 'HM'
+  | 'HN'
+  | 'HR'
+  | 'HT'
+  | 'HU'
+  | 'ID'
+  | 'IE'
+  | 'IL'
+  | 'IM'
+  | 'IN'
+  | 'IO'
+  | 'IQ'
+  | 'IR'
+  | 'IS'
+  | 'IT'
+  | 'JE'
+  | 'JM'
+  | 'JO'
+  | 'JP'
+  | 'KE'
+  | 'KG'
+  | 'KH'
+  | 'KI'
+  | 'KM'
+  | 'KN'
+  | 'KP'
+  | 'KR'
+  | 'KW'
+  | 'KY'
+  | 'KZ'
+  | 'LA'
+  | 'LB'
+  | 'LC'
+  | 'LI'
+  | 'LK'
+  | 'LR'
+  | 'LS'
+  | 'LT'
+  | 'LU'
+  | 'LV'
+  | 'LY'
+  | 'MA'
+  | 'MC'
+  | 'MD'
+  | 'ME'
+  | 'MF'
+  | 'MG'
+  | 'MH'
+  | 'MK'
+  | 'ML'
+  | 'MM'
+  | 'MN'
+  | 'MO'
+  | 'MP'
+  | 'MQ'
+  | 'MR'
+  | 'MS'
+  | 'MT'
+  | 'MU'
+  | 'MV'
+  | 'MW'
+  | 'MX'
+  | 'MY'
+  | 'MZ'
+  | 'NA'
+  | 'NC'
+  | 'NE'
+  | 'NF'
+  | 'NG'
+  | 'NI'
+  | 'NL'
+  | 'NO'
+  | 'NP'
+  | 'NR'
+  | 'NU'
+  | 'NZ'
+  | 'OM'
+  | 'PA'
+  | 'PE'
+  | 'PF'
+  | 'PG'
+  | 'PH'
+  | 'PK'
+  | 'PL'
+  | 'PM'
+  | 'PN'
+  | 'PR'
+  | 'PS'
+  | 'PT'
+  | 'PW'
+  | 'PY'
+  | 'QA'
+  | 'RE'
+  | 'RO'
+  | 'RS'
+  | 'RU'
+  | 'RW'
+  | 'SA'
+  | 'SB'
+  | 'SC'
+  | 'SD'
+  | 'SE'
+  | 'SG'
+  | 'SH'
+  | 'SI'
+  | 'SJ'
+  | 'SK'
+  | 'SL'
+  | 'SM'
+  | 'SN'
+  | 'SO'
+  | 'SR'
+  | 'SS'
+  | 'ST'
+  | 'SV'
+  | 'SX'
+  | 'SY'
+  | 'SZ'
+  | 'TC'
+  | 'TD'
+  | 'TF'
+  | 'TG'
+  | 'TH'
+  | 'TJ'
+  | 'TK'
+  | 'TL'
+  | 'TM'
+  | 'TN'
+  | 'TO'
+  | 'TR'
+  | 'TT'
+  | 'TV'
+  | 'TW'
+  | 'TZ'
+  | 'UA'
+  | 'UG'
+  | 'UM'
+  | 'US'
+  | 'UY'
+  | 'UZ'
+  | 'VA'
+  | 'VC'
+  | 'VE'
+  | 'VG'
+  | 'VI'
+  | 'VN'
+  | 'VU'
+  | 'WF'
+  | 'WS'
+  | 'YE'
+  | 'YT'
+  | 'ZA'
+  | 'ZM'
+  | 'ZW';
+
+export type LanguageCodeEnum =
+  | 'EN'
+  | 'RU';
+
+export type MetadataErrorCode =
+  | 'GRAPHQL_ERROR'
+  | 'INVALID'
+  | 'NOT_FOUND'
+  | 'NOT_UPDATED'
+  | 'REQUIRED';
+
+export type MetadataFilter = {
+  key: Scalars['String']['input'];
+  value?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type MetadataInput = {
+  key: Scalars['String']['input'];
+  value: Scalars['String']['input'];
+};
+
+export type OrderDirection =
+  | 'ASC'
+  | 'DESC';
+
+export type OrderStatus =
+  | 'CANCELED'
+  | 'DRAFT'
+  | 'EXPIRED'
+  | 'FULFILLED'
+  | 'PARTIALLY_FULFILLED'
+  | 'PARTIALLY_RETURNED'
+  | 'RETURNED'
+  | 'UNCONFIRMED'
+  | 'UNFULFILLED';
+
+export type ProductFilterInput = {
+  categories?: InputMaybe<Array<Scalars['ID']['input']>>;
+  channel?: InputMaybe<Scalars['String']['input']>;
+  collections?: InputMaybe<Array<Scalars['ID']['input']>>;
+  hasCategory?: InputMaybe<Scalars['Boolean']['input']>;
+  ids?: InputMaybe<Array<Scalars['ID']['input']>>;
+  isPublished?: InputMaybe<Scalars['Boolean']['input']>;
+  metadata?: InputMaybe<Array<MetadataFilter>>;
+  search?: InputMaybe<Scalars['String']['input']>;
+  slugs?: InputMaybe<Array<Scalars['String']['input']>>;
+  stockAvailability?: InputMaybe<StockAvailability>;
+};
+
+export type ProductOrder = {
+  attributeId?: InputMaybe<Scalars['ID']['input']>;
+  channel?: InputMaybe<Scalars['String']['input']>;
+  direction: OrderDirection;
+  field?: InputMaybe<ProductOrderField>;
+};
+
+export type ProductOrderField =
+  | 'COLLECTION'
+  | 'CREATED_AT'
+  | 'DATE'
+  | 'LAST_MODIFIED'
+  | 'LAST_MODIFIED_AT'
+  | 'MINIMAL_PRICE'
+  | 'NAME'
+  | 'PRICE'
+  | 'PUBLICATION_DATE'
+  | 'PUBLISHED'
+  | 'PUBLISHED_AT'
+  | 'RANK'
+  | 'RATING'
+  | 'TYPE';
+
+export type StockAvailability =
+  | 'IN_STOCK'
+  | 'OUT_OF_STOCK';
+
+export type ThumbnailFormatEnum =
+  | 'AVIF'
+  | 'ORIGINAL'
+  | 'WEBP';
+
+export type AddressFieldsFragment = { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } };
+
+export type ChannelsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type ChannelsQuery = { channels?: Array<{ id: string, slug: string, name: string, isActive: boolean, currencyCode: string, defaultCountry: { code: string }, countries?: Array<{ code: string }> | null }> | null };
+
+export type CheckoutAddPromoCodeMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  promoCode: Scalars['String']['input'];
+}>;
+
+
+export type CheckoutAddPromoCodeMutation = { checkoutAddPromoCode?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutAddressesUpdateMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  address: AddressInput;
+}>;
+
+
+export type CheckoutAddressesUpdateMutation = { checkoutShippingAddressUpdate?: { errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null, checkoutBillingAddressUpdate?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutBillingAddressUpdateMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  address: AddressInput;
+}>;
+
+
+export type CheckoutBillingAddressUpdateMutation = { checkoutBillingAddressUpdate?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutCompleteMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type CheckoutCompleteMutation = { checkoutComplete?: { confirmationNeeded: boolean, order?: { id: string, number: string, status: OrderStatus, created: string, total: { gross: { amount: number, currency: string } } } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutCreateMutationVariables = Exact<{
+  input: CheckoutCreateInput;
+}>;
+
+
+export type CheckoutCreateMutation = { checkoutCreate?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutDeliveryMethodUpdateMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  deliveryMethodId: Scalars['ID']['input'];
+}>;
+
+
+export type CheckoutDeliveryMethodUpdateMutation = { checkoutDeliveryMethodUpdate?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutEmailUpdateMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  email: Scalars['String']['input'];
+}>;
+
+
+export type CheckoutEmailUpdateMutation = { checkoutEmailUpdate?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutFieldsFragment = { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> };
+
+export type CheckoutLinesAddMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  lines: Array<CheckoutLineInput> | CheckoutLineInput;
+}>;
+
+
+export type CheckoutLinesAddMutation = { checkoutLinesAdd?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutLinesDeleteMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  linesIds: Array<Scalars['ID']['input']> | Scalars['ID']['input'];
+}>;
+
+
+export type CheckoutLinesDeleteMutation = { checkoutLinesDelete?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutLinesUpdateMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  lines: Array<CheckoutLineUpdateInput> | CheckoutLineUpdateInput;
+}>;
+
+
+export type CheckoutLinesUpdateMutation = { checkoutLinesUpdate?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CheckoutMetadataUpdateMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  metadata: Array<MetadataInput> | MetadataInput;
+}>;
+
+
+export type CheckoutMetadataUpdateMutation = { updateMetadata?: { errors: Array<{ field?: string | null, message?: string | null, code: MetadataErrorCode }> } | null };
+
+export type CheckoutRemovePromoCodeMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  promoCode?: InputMaybe<Scalars['String']['input']>;
+  promoCodeId?: InputMaybe<Scalars['ID']['input']>;
+}>;
+
+
+export type CheckoutRemovePromoCodeMutation = { checkoutRemovePromoCode?: { checkout?: { id: string, isShippingRequired: boolean, voucherCode?: string | null, discountName?: string | null, translatedDiscountName?: string | null, lines: Array<{ id: string, quantity: number, cartKey?: string | null, variant: { id: string }, totalPrice: { gross: { amount: number, currency: string } } }>, shippingAddress?: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } | null, shippingMethods: Array<{ id: string, name: string, active: boolean, minimumDeliveryDays?: number | null, maximumDeliveryDays?: number | null, price: { amount: number, currency: string } }>, availableCollectionPoints: Array<{ id: string, name: string, address: { firstName: string, lastName: string, streetAddress1: string, streetAddress2: string, city: string, postalCode: string, countryArea: string, phone?: string | null, country: { code: string } } }>, deliveryMethod?: { id: string } | { id: string } | null, subtotalPrice: { gross: { amount: number, currency: string } }, shippingPrice: { gross: { amount: number, currency: string } }, totalPrice: { gross: { amount: number, currency: string } }, discount?: { amount: number, currency: string } | null, giftCards: Array<{ id: string, last4CodeChars: string, currentBalance: { amount: number, currency: string } }> } | null, errors: Array<{ field?: string | null, message?: string | null, code: CheckoutErrorCode }> } | null };
+
+export type CollectionProductsQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+  channel: Scalars['String']['input'];
+  languageCode: LanguageCodeEnum;
+  first: Scalars['Int']['input'];
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type CollectionProductsQuery = { collection?: { id: string, products?: { pageInfo: { hasNextPage: boolean, endCursor?: string | null }, edges: Array<{ node: { id: string, name: string, slug: string, description?: string | null, translation?: { name?: string | null, description?: string | null } | null, category?: { id: string, name: string, slug: string, translation?: { name?: string | null } | null } | null, thumbnail?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }>, attributes: Array<{ attribute: { id: string, slug?: string | null, name?: string | null, inputType?: AttributeInputTypeEnum | null, valueRequired: boolean, choices?: { edges: Array<{ node: { id: string, slug?: string | null, name?: string | null } }> } | null }, values: Array<{ id: string, slug?: string | null, name?: string | null, boolean?: boolean | null }> }>, pricing?: { priceRange?: { start?: { gross: { amount: number, currency: string } } | null } | null } | null, variants?: Array<{ id: string, name: string, sku?: string | null, quantityAvailable?: number | null, pricing?: { price?: { gross: { amount: number, currency: string } } | null } | null }> | null } }> } | null } | null };
+
+export type ProductFieldsFragment = { id: string, name: string, slug: string, description?: string | null, translation?: { name?: string | null, description?: string | null } | null, category?: { id: string, name: string, slug: string, translation?: { name?: string | null } | null } | null, thumbnail?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }>, attributes: Array<{ attribute: { id: string, slug?: string | null, name?: string | null, inputType?: AttributeInputTypeEnum | null, valueRequired: boolean, choices?: { edges: Array<{ node: { id: string, slug?: string | null, name?: string | null } }> } | null }, values: Array<{ id: string, slug?: string | null, name?: string | null, boolean?: boolean | null }> }>, pricing?: { priceRange?: { start?: { gross: { amount: number, currency: string } } | null } | null } | null, variants?: Array<{ id: string, name: string, sku?: string | null, quantityAvailable?: number | null, pricing?: { price?: { gross: { amount: number, currency: string } } | null } | null }> | null };
+
+export type ProductsByIdsQueryVariables = Exact<{
+  ids?: InputMaybe<Array<Scalars['ID']['input']> | Scalars['ID']['input']>;
+  collections?: InputMaybe<Array<Scalars['ID']['input']> | Scalars['ID']['input']>;
+  channel: Scalars['String']['input'];
+  languageCode: LanguageCodeEnum;
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type ProductsByIdsQuery = { products?: { edges: Array<{ node: { id: string, name: string, slug: string, description?: string | null, translation?: { name?: string | null, description?: string | null } | null, category?: { id: string, name: string, slug: string, translation?: { name?: string | null } | null } | null, thumbnail?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }>, attributes: Array<{ attribute: { id: string, slug?: string | null, name?: string | null, inputType?: AttributeInputTypeEnum | null, valueRequired: boolean, choices?: { edges: Array<{ node: { id: string, slug?: string | null, name?: string | null } }> } | null }, values: Array<{ id: string, slug?: string | null, name?: string | null, boolean?: boolean | null }> }>, pricing?: { priceRange?: { start?: { gross: { amount: number, currency: string } } | null } | null } | null, variants?: Array<{ id: string, name: string, sku?: string | null, quantityAvailable?: number | null, pricing?: { price?: { gross: { amount: number, currency: string } } | null } | null }> | null } }> } | null };
+
+export type ProductsBySlugsQueryVariables = Exact<{
+  slugs?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+  collections?: InputMaybe<Array<Scalars['ID']['input']> | Scalars['ID']['input']>;
+  channel: Scalars['String']['input'];
+  languageCode: LanguageCodeEnum;
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type ProductsBySlugsQuery = { products?: { edges: Array<{ node: { id: string, name: string, slug: string, description?: string | null, translation?: { name?: string | null, description?: string | null } | null, category?: { id: string, name: string, slug: string, translation?: { name?: string | null } | null } | null, thumbnail?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }>, attributes: Array<{ attribute: { id: string, slug?: string | null, name?: string | null, inputType?: AttributeInputTypeEnum | null, valueRequired: boolean, choices?: { edges: Array<{ node: { id: string, slug?: string | null, name?: string | null } }> } | null }, values: Array<{ id: string, slug?: string | null, name?: string | null, boolean?: boolean | null }> }>, pricing?: { priceRange?: { start?: { gross: { amount: number, currency: string } } | null } | null } | null, variants?: Array<{ id: string, name: string, sku?: string | null, quantityAvailable?: number | null, pricing?: { price?: { gross: { amount: number, currency: string } } | null } | null }> | null } }> } | null };
+
+export type SearchProductsQueryVariables = Exact<{
+  search: Scalars['String']['input'];
+  channel: Scalars['String']['input'];
+  languageCode: LanguageCodeEnum;
+  collections?: InputMaybe<Array<Scalars['ID']['input']> | Scalars['ID']['input']>;
+  first: Scalars['Int']['input'];
+}>;
+
+
+export type SearchProductsQuery = { products?: { edges: Array<{ node: { id: string, name: string, slug: string, description?: string | null, collections?: Array<{ id: string, slug: string, name: string, description?: string | null, seoDescription?: string | null, translation?: { name?: string | null, description?: string | null, seoDescription?: string | null } | null, backgroundImage?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }> }> | null, translation?: { name?: string | null, description?: string | null } | null, category?: { id: string, name: string, slug: string, translation?: { name?: string | null } | null } | null, thumbnail?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }>, attributes: Array<{ attribute: { id: string, slug?: string | null, name?: string | null, inputType?: AttributeInputTypeEnum | null, valueRequired: boolean, choices?: { edges: Array<{ node: { id: string, slug?: string | null, name?: string | null } }> } | null }, values: Array<{ id: string, slug?: string | null, name?: string | null, boolean?: boolean | null }> }>, pricing?: { priceRange?: { start?: { gross: { amount: number, currency: string } } | null } | null } | null, variants?: Array<{ id: string, name: string, sku?: string | null, quantityAvailable?: number | null, pricing?: { price?: { gross: { amount: number, currency: string } } | null } | null }> | null } }> } | null };
+
+export type StoreCollectionQueryVariables = Exact<{
+  slug: Scalars['String']['input'];
+  channel: Scalars['String']['input'];
+  languageCode: LanguageCodeEnum;
+}>;
+
+
+export type StoreCollectionQuery = { collection?: { id: string, slug: string, name: string, description?: string | null, seoDescription?: string | null, translation?: { name?: string | null, description?: string | null, seoDescription?: string | null } | null, backgroundImage?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }> } | null };
+
+export type StoreCollectionsQueryVariables = Exact<{
+  channel: Scalars['String']['input'];
+  languageCode: LanguageCodeEnum;
+  first: Scalars['Int']['input'];
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type StoreCollectionsQuery = { collections?: { pageInfo: { hasNextPage: boolean, endCursor?: string | null }, edges: Array<{ node: { id: string, slug: string, name: string, description?: string | null, seoDescription?: string | null, translation?: { name?: string | null, description?: string | null, seoDescription?: string | null } | null, backgroundImage?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }> } }> } | null };
+
+export type StoreFieldsFragment = { id: string, slug: string, name: string, description?: string | null, seoDescription?: string | null, translation?: { name?: string | null, description?: string | null, seoDescription?: string | null } | null, backgroundImage?: { url: string, alt?: string | null } | null, metadata: Array<{ key: string, value: string }> };
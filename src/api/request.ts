@@ -0,0 +1,126 @@
+import type { GraphQLRequest } from "./checkout";
+
+type GraphQLError = {
+  message?: string;
+};
+
+type TransportOptions = {
+  url: string;
+  authHeader: string | null;
+  // Milliseconds before a single attempt is aborted.
+  timeout?: number;
+  // Extra attempts after the first one for requests that are safe to repeat.
+  retries?: number;
+  // Delay before the first retry in milliseconds; doubled on every retry.
+  retryDelay?: number;
+};
+
+const DEFAULT_TIMEOUT = 15 * 1000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+
+// Failures that may succeed when the same request is sent again.
+class TransientError extends Error {}
+
+/**
+ * Creates the GraphQL transport used by the catalog and checkout.
+ *
+ * Every attempt is aborted after `timeout`. Network errors, timeouts, 429
+ * and 5xx responses are retried with exponential backoff, but only for
+ * queries and for mutations the caller marks as idempotent: a mutation that
+ * timed out may still have been applied by Saleor.
+ */
+export function createGraphQLRequest(
+  options: TransportOptions,
+): GraphQLRequest {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+  return async (query, variables, requestOptions) => {
+    const attempts =
+      isQuery(query) || requestOptions?.idempotent ? retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await send(options, timeout, query, variables);
+      } catch (error) {
+        if (!(error instanceof TransientError) || attempt >= attempts) {
+          throw error;
+        }
+        // Jitter keeps clients that failed together from retrying together.
+        const delay = retryDelay * 2 ** (attempt - 1);
+        await wait(delay + Math.random() * delay * 0.25);
+      }
+    }
+  };
+}
+
+async function send(
+  options: TransportOptions,
+  timeout: number,
+  query: string,
+  variables: Record<string, unknown>,
+) {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    throw new Error("You are offline. Check your connection and try again.");
+  }
+
+  const headers: HeadersInit = { "Content-Type": "application/json" };
+  if (options.authHeader) {
+    headers.Authorization = options.authHeader;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  let response: Response;
+  try {
+    response = await fetch(options.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ query, variables }),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    console.warn("GraphQL request failed.", error);
+    throw new TransientError(
+      controller.signal.aborted
+        ? `The request timed out after ${Math.round(timeout / 1000)}s.`
+        : "Unable to reach the server. Check your connection.",
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    const message = `API request failed (${response.status}): ${
+      errorText || response.statusText
+    }`;
+    if (response.status >= 500 || response.status === 429) {
+      throw new TransientError(message);
+    }
+    throw new Error(message);
+  }
+
+  const payload = await response.json();
+  if (payload.errors?.length) {
+    throw new Error(
+      payload.errors
+        .map((err: GraphQLError) => err.message)
+        .filter(Boolean)
+        .join(", "),
+    );
+  }
+
+  return payload.data;
+}
+
+function isQuery(query: string) {
+  return /^\s*(query\b|\{)/.test(query);
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
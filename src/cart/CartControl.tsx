@@ -0,0 +1,101 @@
+import type { Product, ProductVariant } from "../api/catalog";
+import type { SelectedOption } from "../catalog/options";
+import type { Translator } from "../i18n";
+import { buildCartKey, stockLimit, type CartEntry } from "./cartStore";
+
+export type CartUpdate = (
+  product: Product,
+  variant: ProductVariant,
+  options: SelectedOption[],
+  quantity: number,
+) => void;
+
+type QuantityCounterProps = {
+  cart: Map<string, CartEntry>;
+  product: Product;
+  variant: ProductVariant;
+  options: SelectedOption[];
+  quantity: number;
+  onChange: CartUpdate;
+};
+
+export function QuantityCounter({
+  cart,
+  product,
+  variant,
+  options,
+  quantity,
+  onChange,
+}: QuantityCounterProps) {
+  const limit = stockLimit(cart, variant, buildCartKey(variant.id, options));
+  return (
+    <div className="qty-counter">
+      <button
+        type="button"
+        className="qty-button"
+        onClick={() => onChange(product, variant, options, quantity - 1)}
+      >
+        −
+      </button>
+      <span className="qty-value">{quantity}</span>
+      <button
+        type="button"
+        className="qty-button"
+        disabled={limit != null && quantity >= limit}
+        onClick={() => onChange(product, variant, options, quantity + 1)}
+      >
+        +
+      </button>
+    </div>
+  );
+}
+
+type CartControlProps = {
+  cart: Map<string, CartEntry>;
+  product: Product;
+  variant: ProductVariant;
+  options?: SelectedOption[];
+  disabled?: boolean;
+  i18n: Translator;
+  onChange: CartUpdate;
+};
+
+// An add button that turns into a quantity counter once the line is in the
+// cart.
+export function CartControl({
+  cart,
+  product,
+  variant,
+  options = [],
+  disabled = false,
+  i18n,
+  onChange,
+}: CartControlProps) {
+  const cartEntry = cart.get(buildCartKey(variant.id, options));
+  if (cartEntry) {
+    return (
+      <QuantityCounter
+        cart={cart}
+        product={product}
+        variant={variant}
+        options={options}
+        quantity={cartEntry.quantity}
+        onChange={onChange}
+      />
+    );
+  }
+  return (
+    <button
+      type="button"
+      className="add-button"
+      disabled={
+        disabled ||
+        variant.priceAmount == null ||
+        variant.quantityAvailable === 0
+      }
+      onClick={() => onChange(product, variant, options, 1)}
+    >
+      {i18n.t("product.add")}
+    </button>
+  );
+}
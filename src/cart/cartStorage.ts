@@ -0,0 +1,74 @@
+import { buildStorageKey, readStoredValue, writeStoredValue } from "../storage";
+
+export type SavedCartLine = {
+  productId: string;
+  variantId: string;
+  choiceIds: string[];
+  quantity: number;
+  unitPrice: number | null;
+  // Named in notices when a saved or reordered product is no longer on the
+  // menu.
+  productName?: string;
+};
+
+type SavedCart = {
+  version: 1;
+  savedAt: number;
+  lines: SavedCartLine[];
+};
+
+const CART_VERSION = 1;
+
+// Carts are kept per channel, so a cart never mixes currencies.
+export function buildCartStorageKey(
+  userId: number | string | null | undefined,
+  channel: string,
+  storeSlug: string,
+) {
+  return buildStorageKey(
+    "cart",
+    userId ? String(userId) : "guest",
+    channel,
+    storeSlug,
+  );
+}
+
+export async function readSavedCart(
+  key: string,
+  isTelegram: boolean,
+): Promise<SavedCartLine[]> {
+  const raw = await readStoredValue(key, isTelegram);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const payload = JSON.parse(raw) as Partial<SavedCart>;
+    if (payload.version !== CART_VERSION || !Array.isArray(payload.lines)) {
+      return [];
+    }
+    return payload.lines.filter(
+      (line) => line?.variantId && Number(line.quantity) > 0,
+    );
+  } catch {
+    return [];
+  }
+}
+
+export async function writeSavedCart(
+  key: string,
+  lines: SavedCartLine[],
+  isTelegram: boolean,
+) {
+  if (!lines.length) {
+    await writeStoredValue(key, null, isTelegram);
+    return;
+  }
+
+  const payload: SavedCart = {
+    version: CART_VERSION,
+    savedAt: Date.now(),
+    lines,
+  };
+  await writeStoredValue(key, JSON.stringify(payload), isTelegram);
+}
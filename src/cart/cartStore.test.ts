@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+
+import type { SelectedOption } from "../catalog/options";
+import { makeProduct, makeVariant } from "../test/fixtures";
+import {
+  buildCartKey,
+  cartReducer,
+  getUnitPrice,
+  initialCartState,
+  stockLimit,
+  summarizeCart,
+  type CartEntry,
+  type CartState,
+} from "./cartStore";
+
+const oatMilk: SelectedOption = {
+  groupSlug: "milk",
+  groupName: "Milk",
+  choice: { id: "choice-oat", name: "Oat", priceDelta: 0.5 },
+};
+
+function setQuantity(
+  state: CartState,
+  quantity: number,
+  variant = makeVariant(),
+  options: SelectedOption[] = [],
+) {
+  return cartReducer(state, {
+    type: "quantitySet",
+    product: makeProduct({ variants: [variant] }),
+    variant,
+    options,
+    quantity,
+  });
+}
+
+describe("cartReducer", () => {
+  it("adds, updates and removes lines", () => {
+    const added = setQuantity(initialCartState, 2);
+    expect(added.entries.get("variant-1")?.quantity).toBe(2);
+    expect(added.currency).toBe("USD");
+
+    const updated = setQuantity(added, 3);
+    expect(updated.entries.get("variant-1")?.quantity).toBe(3);
+    expect(added.entries.get("variant-1")?.quantity).toBe(2);
+
+    const removed = setQuantity(updated, 0);
+    expect(removed.entries.size).toBe(0);
+  });
+
+  it("keeps a line per option combination", () => {
+    const plain = setQuantity(initialCartState, 1);
+    const withOat = setQuantity(plain, 1, makeVariant(), [oatMilk]);
+    expect(Array.from(withOat.entries.keys())).toEqual([
+      "variant-1",
+      "variant-1|choice-oat",
+    ]);
+  });
+
+  it("takes the currency of restored and checked entries", () => {
+    const entry: CartEntry = {
+      product: makeProduct(),
+      variant: makeVariant({ priceCurrency: "EUR" }),
+      options: [],
+      quantity: 1,
+    };
+    const entries = new Map([["variant-1", entry]]);
+
+    const restored = cartReducer(initialCartState, {
+      type: "restored",
+      entries,
+    });
+    expect(restored.currency).toBe("EUR");
+
+    const changes = { lines: new Map(), removed: ["Mocha"] };
+    const checked = cartReducer(restored, {
+      type: "checked",
+      entries: new Map(),
+      changes,
+    });
+    expect(checked.currency).toBeNull();
+    expect(checked.changes).toBe(changes);
+
+    expect(
+      cartReducer(checked, { type: "changesDismissed" }).changes,
+    ).toBeNull();
+  });
+
+  it("clears the cart", () => {
+    const state = setQuantity(initialCartState, 2);
+    expect(cartReducer(state, { type: "cleared" })).toBe(initialCartState);
+  });
+});
+
+describe("summarizeCart", () => {
+  it("adds up priced items with option prices", () => {
+    let state = setQuantity(initialCartState, 2);
+    state = setQuantity(state, 1, makeVariant(), [oatMilk]);
+    expect(summarizeCart(state)).toEqual({
+      items: 3,
+      total: { amount: 14, currency: "USD" },
+      mixedCurrencies: false,
+    });
+  });
+
+  it("skips unpriced items", () => {
+    const state = setQuantity(
+      initialCartState,
+      2,
+      makeVariant({ priceAmount: null, priceCurrency: null }),
+    );
+    expect(summarizeCart(state, "EUR")).toEqual({
+      items: 0,
+      total: { amount: 0, currency: "EUR" },
+      mixedCurrencies: false,
+    });
+  });
+
+  it("flags mixed currencies", () => {
+    let state = setQuantity(initialCartState, 1);
+    state = setQuantity(
+      state,
+      1,
+      makeVariant({ id: "variant-2", priceCurrency: "EUR" }),
+    );
+    expect(summarizeCart(state).mixedCurrencies).toBe(true);
+  });
+});
+
+describe("cart helpers", () => {
+  it("builds keys independent of the option order", () => {
+    const soy: SelectedOption = {
+      ...oatMilk,
+      choice: { id: "choice-soy", name: "Soy", priceDelta: 0 },
+    };
+    expect(buildCartKey("variant-1", [])).toBe("variant-1");
+    expect(buildCartKey("variant-1", [soy, oatMilk])).toBe(
+      buildCartKey("variant-1", [oatMilk, soy]),
+    );
+  });
+
+  it("prices a unit with its options", () => {
+    expect(getUnitPrice(makeVariant(), [oatMilk])).toBe(5);
+    expect(getUnitPrice(makeVariant({ priceAmount: null }), [])).toBeNull();
+  });
+
+  it("limits a line to the stock left by the other lines", () => {
+    const variant = makeVariant({ quantityAvailable: 5 });
+    let state = setQuantity(initialCartState, 2, variant);
+    state = setQuantity(state, 1, variant, [oatMilk]);
+
+    expect(stockLimit(state.entries, variant, "variant-1|choice-oat")).toBe(3);
+    expect(stockLimit(state.entries, variant, "variant-1")).toBe(4);
+    expect(stockLimit(state.entries, makeVariant(), "variant-1")).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import type { Product, ProductVariant } from "../api/catalog";
+import type { SelectedOption } from "../catalog/options";
+
+export type CartEntry = {
+  product: Product;
+  variant: ProductVariant;
+  options: SelectedOption[];
+  quantity: number;
+};
+
+// What changed about a cart line when it was checked against fresh data.
+export type CartLineChange = {
+  previousQuantity?: number;
+  previousUnitPrice?: number;
+};
+
+export type CartChanges = {
+  lines: Map<string, CartLineChange>;
+  removed: string[];
+};
+
+export type CartSummary = {
+  items: number;
+  total: {
+    amount: number;
+    currency: string;
+  };
+  // Amounts in different currencies cannot be added up or checked out.
+  mixedCurrencies: boolean;
+};
+
+export type CartState = {
+  entries: Map<string, CartEntry>;
+  // Currency of the items added so far; items in others are refused.
+  currency: string | null;
+  // Shown in the review step after the cart was checked before checkout.
+  changes: CartChanges | null;
+};
+
+export type CartAction =
+  | { type: "cleared" }
+  // A saved cart or a reorder was matched against the loaded products.
+  | { type: "restored"; entries: Map<string, CartEntry> }
+  // The cart was checked against fresh stock and prices.
+  | {
+      type: "checked";
+      entries: Map<string, CartEntry>;
+      changes: CartChanges | null;
+    }
+  | {
+      type: "quantitySet";
+      product: Product;
+      variant: ProductVariant;
+      options: SelectedOption[];
+      quantity: number;
+    }
+  | { type: "changesDismissed" };
+
+export const initialCartState: CartState = {
+  entries: new Map(),
+  currency: null,
+  changes: null,
+};
+
+export function cartReducer(state: CartState, action: CartAction): CartState {
+  switch (action.type) {
+    case "cleared":
+      return initialCartState;
+    case "restored":
+      return {
+        ...state,
+        entries: action.entries,
+        currency: firstCurrency(action.entries),
+      };
+    case "checked":
+      return {
+        entries: action.entries,
+        currency: firstCurrency(action.entries),
+        changes: action.changes,
+      };
+    case "quantitySet": {
+      const { product, variant, options, quantity } = action;
+      const key = buildCartKey(variant.id, options);
+      const entries = new Map(state.entries);
+      if (quantity <= 0) {
+        entries.delete(key);
+      } else {
+        entries.set(key, { product, variant, options, quantity });
+      }
+      return {
+        ...state,
+        entries,
+        currency: variant.priceCurrency || state.currency,
+      };
+    }
+    case "changesDismissed":
+      return { ...state, changes: null };
+  }
+}
+
+// Totals of the priced items. Without any, the total is shown in
+// `fallbackCurrency`, usually the channel currency.
+export function summarizeCart(
+  { entries, currency }: CartState,
+  fallbackCurrency = "",
+): CartSummary {
+  let items = 0;
+  let amount = 0;
+  const currencies = new Set<string>();
+
+  entries.forEach(({ variant, options, quantity }) => {
+    const unitPrice = getUnitPrice(variant, options);
+    if (unitPrice != null) {
+      items += quantity;
+      amount += unitPrice * quantity;
+      if (variant.priceCurrency) {
+        currencies.add(variant.priceCurrency);
+      }
+    }
+  });
+
+  return {
+    items,
+    total: {
+      amount,
+      currency:
+        currency || currencies.values().next().value || fallbackCurrency,
+    },
+    mixedCurrencies: currencies.size > 1,
+  };
+}
+
+// Units of a product in the cart across its variants and options.
+export function productQuantity(
+  entries: Map<string, CartEntry>,
+  productId: string,
+) {
+  let quantity = 0;
+  entries.forEach((entry) => {
+    if (entry.product.id === productId) {
+      quantity += entry.quantity;
+    }
+  });
+  return quantity;
+}
+
+// Quantity of a variant the cart can still take on the line `key`, or
+// `null` when Saleor does not track its stock.
+export function stockLimit(
+  entries: Map<string, CartEntry>,
+  variant: ProductVariant,
+  key: string,
+) {
+  if (variant.quantityAvailable == null) return null;
+  let otherLines = 0;
+  entries.forEach((entry, entryKey) => {
+    if (entryKey !== key && entry.variant.id === variant.id) {
+      otherLines += entry.quantity;
+    }
+  });
+  return Math.max(variant.quantityAvailable - otherLines, 0);
+}
+
+export function buildCartKey(variantId: string, options: SelectedOption[]) {
+  if (!options.length) return variantId;
+  const choiceIds = options.map(({ choice }) => choice.id).sort();
+  return `${variantId}|${choiceIds.join(",")}`;
+}
+
+export function getUnitPrice(
+  variant: ProductVariant,
+  options: SelectedOption[],
+) {
+  if (variant.priceAmount == null) return null;
+  return options.reduce(
+    (amount, { choice }) => amount + choice.priceDelta,
+    variant.priceAmount,
+  );
+}
+
+function firstCurrency(entries: Map<string, CartEntry>) {
+  const firstEntry = entries.values().next().value;
+  return firstEntry?.variant.priceCurrency || null;
+}
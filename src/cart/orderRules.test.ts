@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import type { OrderRules } from "../api/catalog";
+import { createTranslator } from "../i18n";
+import { makeSummary } from "../test/fixtures";
+import {
+  describeServiceFee,
+  describeUnmetRule,
+  serviceFeeApplies,
+} from "./orderRules";
+
+const i18n = createTranslator("en");
+
+function makeRules(overrides: Partial<OrderRules> = {}): OrderRules {
+  return {
+    minOrderAmount: {},
+    maxItems: null,
+    serviceFeeVariantId: null,
+    serviceFeeBelow: {},
+    ...overrides,
+  };
+}
+
+describe("describeUnmetRule", () => {
+  it("asks for the amount missing in the cart currency", () => {
+    const rules = makeRules({ minOrderAmount: { USD: 10, EUR: 30 } });
+    expect(describeUnmetRule(rules, makeSummary(7.1), i18n)).toBe(
+      `Add ${i18n.money(2.9, "USD")} more to order`,
+    );
+    expect(describeUnmetRule(rules, makeSummary(12), i18n)).toBeNull();
+    expect(describeUnmetRule(rules, makeSummary(12, "EUR"), i18n)).toBe(
+      `Add ${i18n.money(18, "EUR")} more to order`,
+    );
+  });
+
+  it("has no minimum in currencies without an amount", () => {
+    const rules = makeRules({ minOrderAmount: { USD: 10 } });
+    expect(describeUnmetRule(rules, makeSummary(1, "GBP"), i18n)).toBeNull();
+  });
+
+  it("checks the item limit first", () => {
+    const rules = makeRules({ maxItems: 2, minOrderAmount: { USD: 100 } });
+    expect(describeUnmetRule(rules, makeSummary(5, "USD", 3), i18n)).toBe(
+      "Up to 2 items per order",
+    );
+  });
+
+  it("ignores empty carts", () => {
+    const rules = makeRules({ minOrderAmount: { USD: 10 } });
+    expect(describeUnmetRule(rules, makeSummary(0, "USD", 0), i18n)).toBeNull();
+  });
+});
+
+describe("service fee", () => {
+  it("applies to every order without thresholds", () => {
+    const rules = makeRules({ serviceFeeVariantId: "fee" });
+    expect(serviceFeeApplies(rules, makeSummary(100))).toBe(true);
+    expect(describeServiceFee(rules, makeSummary(100), i18n)).toBe(
+      "A service fee is added at checkout.",
+    );
+  });
+
+  it("applies below the threshold of the cart currency only", () => {
+    const rules = makeRules({
+      serviceFeeVariantId: "fee",
+      serviceFeeBelow: { USD: 20 },
+    });
+    expect(serviceFeeApplies(rules, makeSummary(15))).toBe(true);
+    expect(serviceFeeApplies(rules, makeSummary(25))).toBe(false);
+    expect(serviceFeeApplies(rules, makeSummary(15, "EUR"))).toBe(false);
+    expect(describeServiceFee(rules, makeSummary(15), i18n)).toBe(
+      `Add ${i18n.money(5, "USD")} more to skip the service fee.`,
+    );
+  });
+
+  it("needs a fee variant", () => {
+    expect(serviceFeeApplies(makeRules(), makeSummary(1))).toBe(false);
+  });
+});
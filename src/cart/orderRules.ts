@@ -0,0 +1,66 @@
+import type { OrderRules } from "../api/catalog";
+import type { Translator } from "../i18n";
+import type { CartSummary } from "./cartStore";
+
+// Differences are rounded to cents so float sums never ask for "0.00 more".
+function remainingAmount(target: number, amount: number) {
+  return Math.round((target - amount) * 100) / 100;
+}
+
+// The first store rule the cart breaks, worded for the order sheet and the
+// main button, or null when the order can go ahead.
+export function describeUnmetRule(
+  rules: OrderRules | null,
+  summary: CartSummary,
+  i18n: Translator,
+) {
+  if (!rules || summary.items === 0 || summary.mixedCurrencies) return null;
+
+  if (rules.maxItems != null && summary.items > rules.maxItems) {
+    return i18n.t("rules.maxItems", { count: rules.maxItems });
+  }
+  const minimum = rules.minOrderAmount[summary.total.currency];
+  const missing =
+    minimum != null ? remainingAmount(minimum, summary.total.amount) : 0;
+  if (missing > 0) {
+    return i18n.t("rules.addMore", {
+      amount: i18n.money(missing, summary.total.currency),
+    });
+  }
+  return null;
+}
+
+// Stores without thresholds charge the fee on every order.
+function hasFeeThresholds(rules: OrderRules) {
+  return Object.keys(rules.serviceFeeBelow).length > 0;
+}
+
+export function serviceFeeApplies(
+  rules: OrderRules | null,
+  summary: CartSummary,
+) {
+  if (!rules?.serviceFeeVariantId || summary.items === 0) return false;
+  if (!hasFeeThresholds(rules)) return true;
+  const threshold = rules.serviceFeeBelow[summary.total.currency];
+  return threshold != null && summary.total.amount < threshold;
+}
+
+export function describeServiceFee(
+  rules: OrderRules | null,
+  summary: CartSummary,
+  i18n: Translator,
+) {
+  if (!rules || !serviceFeeApplies(rules, summary)) return null;
+  if (!hasFeeThresholds(rules) || summary.mixedCurrencies) {
+    return i18n.t("rules.serviceFee");
+  }
+  return i18n.t("rules.serviceFeeUntil", {
+    amount: i18n.money(
+      remainingAmount(
+        rules.serviceFeeBelow[summary.total.currency],
+        summary.total.amount,
+      ),
+      summary.total.currency,
+    ),
+  });
+}
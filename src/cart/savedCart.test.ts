@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import { createTranslator } from "../i18n";
+import {
+  makeCategory,
+  makeOptionGroup,
+  makeProduct,
+  makeVariant,
+} from "../test/fixtures";
+import type { SavedCartLine } from "./cartStorage";
+import { reconcileSavedCart, serializeCart } from "./savedCart";
+
+const i18n = createTranslator("en");
+
+function savedLine(overrides: Partial<SavedCartLine> = {}): SavedCartLine {
+  return {
+    productId: "product-1",
+    variantId: "variant-1",
+    choiceIds: [],
+    quantity: 2,
+    unitPrice: 4.5,
+    productName: "Latte",
+    ...overrides,
+  };
+}
+
+describe("reconcileSavedCart", () => {
+  it("restores lines that are still sold, with their options", () => {
+    const product = makeProduct({ optionGroups: [makeOptionGroup()] });
+    const { entries, notices } = reconcileSavedCart(
+      [savedLine({ choiceIds: ["choice-oat"], unitPrice: 5 })],
+      new Map([["category-1", makeCategory([product])]]),
+      i18n,
+    );
+
+    expect(notices).toEqual([]);
+    const entry = entries.get("variant-1|choice-oat");
+    expect(entry?.quantity).toBe(2);
+    expect(entry?.options.map(({ choice }) => choice.id)).toEqual([
+      "choice-oat",
+    ]);
+  });
+
+  it("drops missing products and caps quantities at the stock", () => {
+    const product = makeProduct({
+      variants: [makeVariant({ quantityAvailable: 1 })],
+    });
+    const { entries, changes, unavailable, notices } = reconcileSavedCart(
+      [savedLine(), savedLine({ productId: "gone", productName: "Mocha" })],
+      new Map(),
+      i18n,
+      [product],
+    );
+
+    expect(entries.get("variant-1")?.quantity).toBe(1);
+    expect(changes.get("variant-1")).toEqual({ previousQuantity: 2 });
+    expect(unavailable).toEqual(["Mocha"]);
+    expect(notices).toEqual(["removed Mocha", "reduced Latte (1 left)"]);
+  });
+
+  it("reports new prices", () => {
+    const { changes, notices } = reconcileSavedCart(
+      [savedLine({ unitPrice: 4 })],
+      new Map(),
+      i18n,
+      [makeProduct()],
+    );
+
+    expect(changes.get("variant-1")).toEqual({ previousUnitPrice: 4 });
+    expect(notices).toEqual([
+      `new price for Latte (now ${i18n.money(4.5, "USD")})`,
+    ]);
+  });
+
+  it("drops sold out variants and options that no longer exist", () => {
+    const { entries, unavailable } = reconcileSavedCart(
+      [
+        savedLine(),
+        savedLine({
+          productId: "product-2",
+          variantId: "variant-2",
+          choiceIds: ["choice-gone"],
+        }),
+      ],
+      new Map(),
+      i18n,
+      [
+        makeProduct({ variants: [makeVariant({ quantityAvailable: 0 })] }),
+        makeProduct({
+          id: "product-2",
+          name: "Mocha",
+          variants: [makeVariant({ id: "variant-2" })],
+          optionGroups: [makeOptionGroup()],
+        }),
+      ],
+    );
+
+    expect(entries.size).toBe(0);
+    expect(unavailable).toEqual(["Latte", "Mocha"]);
+  });
+
+  it("round-trips a serialized cart", () => {
+    const product = makeProduct();
+    const { entries } = reconcileSavedCart([savedLine()], new Map(), i18n, [
+      product,
+    ]);
+    expect(serializeCart(entries)).toEqual([savedLine()]);
+  });
+});
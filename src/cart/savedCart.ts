@@ -0,0 +1,155 @@
+import type { Category, Product, ProductVariant } from "../api/catalog";
+import { resolveSelectedOptions } from "../catalog/options";
+import type { Translator } from "../i18n";
+import type { SavedCartLine } from "./cartStorage";
+import {
+  buildCartKey,
+  getUnitPrice,
+  type CartEntry,
+  type CartLineChange,
+} from "./cartStore";
+
+export type CartRestoreResult = {
+  entries: Map<string, CartEntry>;
+  notices: string[];
+  changes: Map<string, CartLineChange>;
+  unavailable: string[];
+};
+
+export function serializeCart(cart: Map<string, CartEntry>): SavedCartLine[] {
+  return Array.from(cart.values()).map(
+    ({ product, variant, options, quantity }) => ({
+      productId: product.id,
+      variantId: variant.id,
+      choiceIds: options.map(({ choice }) => choice.id),
+      quantity,
+      unitPrice: getUnitPrice(variant, options),
+      productName: product.name,
+    }),
+  );
+}
+
+// Rebuilds cart entries from saved lines, dropping what is no longer sold
+// and capping quantities at the current stock.
+export function reconcileSavedCart(
+  savedLines: SavedCartLine[],
+  byCategory: Map<string, Category>,
+  i18n: Translator,
+  extraProducts: Product[] = [],
+): CartRestoreResult {
+  const productsById = new Map<string, Product>();
+  byCategory.forEach((category) => {
+    category.products.forEach((product) => {
+      productsById.set(product.id, product);
+    });
+  });
+  extraProducts.forEach((product) => {
+    productsById.set(product.id, product);
+  });
+
+  const entries = new Map<string, CartEntry>();
+  const changes = new Map<string, CartLineChange>();
+  const unavailable: string[] = [];
+  const repriced: string[] = [];
+  const reduced: string[] = [];
+
+  savedLines.forEach((line) => {
+    const product = productsById.get(line.productId);
+    const variant = product?.variants.find(({ id }) => id === line.variantId);
+    if (!product || !variant) {
+      unavailable.push(line.productName || i18n.t("cart.unavailableItem"));
+      return;
+    }
+
+    const options = resolveSelectedOptions(
+      product,
+      Object.fromEntries(
+        product.optionGroups.map((group) => [group.id, line.choiceIds]),
+      ),
+    );
+    const unitPrice = getUnitPrice(variant, options);
+    if (
+      unitPrice == null ||
+      options.length !== line.choiceIds.length ||
+      variant.quantityAvailable === 0
+    ) {
+      unavailable.push(product.name);
+      return;
+    }
+
+    const key = buildCartKey(variant.id, options);
+    const change: CartLineChange = {};
+    let quantity = line.quantity;
+    if (
+      variant.quantityAvailable != null &&
+      quantity > variant.quantityAvailable
+    ) {
+      quantity = variant.quantityAvailable;
+      change.previousQuantity = line.quantity;
+      reduced.push(
+        i18n.t("cart.itemsLeft", { name: product.name, count: quantity }),
+      );
+    }
+
+    if (line.unitPrice != null && line.unitPrice !== unitPrice) {
+      change.previousUnitPrice = line.unitPrice;
+      repriced.push(
+        i18n.t("cart.newPrice", {
+          name: product.name,
+          price: i18n.money(unitPrice, variant.priceCurrency || ""),
+        }),
+      );
+    }
+
+    if (Object.keys(change).length) {
+      changes.set(key, change);
+    }
+    const existing = entries.get(key);
+    entries.set(key, {
+      product,
+      variant,
+      options,
+      quantity: (existing?.quantity || 0) + quantity,
+    });
+  });
+
+  const notices: string[] = [];
+  if (unavailable.length) {
+    notices.push(i18n.t("cart.removed", { items: unavailable.join(", ") }));
+  }
+  if (reduced.length) {
+    notices.push(i18n.t("cart.reduced", { items: reduced.join(", ") }));
+  }
+  if (repriced.length) {
+    notices.push(i18n.t("cart.repriced", { items: repriced.join(", ") }));
+  }
+
+  return { entries, notices, changes, unavailable };
+}
+
+export function describeCartChange(
+  change: CartLineChange,
+  variant: ProductVariant,
+  i18n: Translator,
+) {
+  const parts: string[] = [];
+  if (change.previousQuantity != null) {
+    parts.push(
+      i18n.t("cart.quantityWas", {
+        count: variant.quantityAvailable ?? 0,
+        previous: change.previousQuantity,
+      }),
+    );
+  }
+  if (change.previousUnitPrice != null) {
+    parts.push(
+      i18n.t("cart.priceWas", {
+        price: i18n.money(
+          change.previousUnitPrice,
+          variant.priceCurrency || "",
+        ),
+      }),
+    );
+  }
+  return parts.join(" · ");
+}
@@ -0,0 +1,295 @@
+import {
+  useCallback,
+  useEffect,
+  useReducer,
+  useRef,
+  useState,
+  type MutableRefObject,
+} from "react";
+
+import type { Category, Product, Store } from "../api/catalog";
+import type { Translator } from "../i18n";
+import type { ShowToast } from "../useToast";
+import type { CartUpdate } from "./CartControl";
+import {
+  buildCartStorageKey,
+  readSavedCart,
+  writeSavedCart,
+  type SavedCartLine,
+} from "./cartStorage";
+import {
+  buildCartKey,
+  cartReducer,
+  initialCartState,
+  stockLimit,
+  summarizeCart,
+} from "./cartStore";
+import { reconcileSavedCart, serializeCart } from "./savedCart";
+
+type CartOptions = {
+  userId: number | undefined;
+  channel: string;
+  // Currency of the channel, shown for the empty cart.
+  currency: string | undefined;
+  // Item limit of the open store, if it sets one.
+  maxItems: number | null | undefined;
+  isTelegram: boolean;
+  i18n: Translator;
+  showToast: ShowToast;
+  // The store whose menu is open; results for another store are dropped.
+  activeStoreSlugRef: MutableRefObject<string | null>;
+  loadProductsByIds: (
+    store: Store,
+    ids: string[],
+    live?: boolean,
+  ) => Promise<Product[]>;
+  refreshProducts: (products: Product[]) => void;
+};
+
+/**
+ * Keeps the cart of the open store. The cart is saved per user, channel and
+ * store once it has been restored, and checked against fresh stock before
+ * the customer reviews it.
+ */
+export function useCart({
+  userId,
+  channel,
+  currency,
+  maxItems,
+  isTelegram,
+  i18n,
+  showToast,
+  activeStoreSlugRef,
+  loadProductsByIds,
+  refreshProducts,
+}: CartOptions) {
+  const { t } = i18n;
+  const [cart, dispatch] = useReducer(cartReducer, initialCartState);
+  const [isCheckingCart, setIsCheckingCart] = useState(false);
+  // Null until the cart of the open store has been restored, so the empty
+  // cart of a store being opened never overwrites its saved cart.
+  const storageKeyRef = useRef<string | null>(null);
+
+  const summary = summarizeCart(cart, currency);
+
+  useEffect(() => {
+    const key = storageKeyRef.current;
+    if (!key) {
+      return;
+    }
+    writeSavedCart(key, serializeCart(cart.entries), isTelegram).catch(
+      (error) => {
+        console.warn("Unable to save the cart.", error);
+      },
+    );
+  }, [cart.entries, isTelegram]);
+
+  /**
+   * Fills the cart with the saved lines of the store, or with the lines of a
+   * past order. Products that are not on the loaded menu pages are fetched;
+   * anything that changed or sold out is reported in a toast.
+   */
+  const restoreCart = useCallback(
+    async (
+      store: Store,
+      byCategory: Map<string, Category>,
+      reorderLines?: SavedCartLine[],
+    ) => {
+      const key = buildCartStorageKey(userId, channel, store.slug);
+
+      let savedLines: SavedCartLine[] = reorderLines || [];
+      if (!reorderLines) {
+        try {
+          savedLines = await readSavedCart(key, isTelegram);
+        } catch (error) {
+          console.warn("Unable to read the saved cart.", error);
+        }
+      }
+
+      const loadedIds = new Set<string>();
+      byCategory.forEach(({ products }) => {
+        products.forEach(({ id }) => loadedIds.add(id));
+      });
+      const missingIds = Array.from(
+        new Set(savedLines.map(({ productId }) => productId)),
+      ).filter((id) => id && !loadedIds.has(id));
+
+      let extraProducts: Product[] = [];
+      if (missingIds.length) {
+        try {
+          extraProducts = await loadProductsByIds(store, missingIds);
+        } catch (error) {
+          console.warn("Unable to load saved cart products.", error);
+        }
+      }
+
+      if (activeStoreSlugRef.current !== store.slug) {
+        return;
+      }
+
+      const { entries, notices } = reconcileSavedCart(
+        savedLines,
+        byCategory,
+        i18n,
+        extraProducts,
+      );
+      storageKeyRef.current = key;
+      dispatch({ type: "restored", entries });
+
+      if (reorderLines) {
+        showToast(
+          notices.length
+            ? t("cart.reorderChanged", { notices: notices.join("; ") })
+            : t("cart.reordered"),
+          notices.length ? 5200 : undefined,
+        );
+      } else if (notices.length) {
+        showToast(t("cart.changed", { notices: notices.join("; ") }), 5200);
+      } else if (entries.size) {
+        showToast(t("cart.restored"));
+      }
+    },
+    [
+      activeStoreSlugRef,
+      channel,
+      i18n,
+      isTelegram,
+      loadProductsByIds,
+      showToast,
+      t,
+      userId,
+    ],
+  );
+
+  // Empties the cart and its saved copy, e.g. after an order.
+  const clearCart = useCallback(() => {
+    dispatch({ type: "cleared" });
+  }, []);
+
+  // Empties the cart when its store is left; the saved copy is kept.
+  const detachCart = useCallback(() => {
+    storageKeyRef.current = null;
+    dispatch({ type: "cleared" });
+  }, []);
+
+  const dismissChanges = useCallback(() => {
+    dispatch({ type: "changesDismissed" });
+  }, []);
+
+  const updateCart = useCallback<CartUpdate>(
+    (product, variant, options, nextQuantity) => {
+      if (
+        nextQuantity > 0 &&
+        cart.currency &&
+        variant.priceCurrency &&
+        variant.priceCurrency !== cart.currency
+      ) {
+        showToast(
+          t("product.otherCurrency", {
+            itemCurrency: variant.priceCurrency,
+            cartCurrency: cart.currency,
+          }),
+        );
+        return;
+      }
+
+      const key = buildCartKey(variant.id, options);
+      const limit = stockLimit(cart.entries, variant, key);
+      if (limit != null && nextQuantity > limit) {
+        showToast(
+          limit > 0
+            ? t("cart.stockLimit", {
+                name: product.name,
+                count: variant.quantityAvailable!,
+              })
+            : t("product.outOfStock"),
+        );
+        if (limit === (cart.entries.get(key)?.quantity || 0)) {
+          return;
+        }
+        nextQuantity = limit;
+      }
+
+      const quantity = cart.entries.get(key)?.quantity || 0;
+      if (
+        maxItems != null &&
+        nextQuantity > quantity &&
+        summary.items - quantity + nextQuantity > maxItems
+      ) {
+        showToast(t("rules.maxItems", { count: maxItems }));
+        return;
+      }
+
+      dispatch({
+        type: "quantitySet",
+        product,
+        variant,
+        options,
+        quantity: nextQuantity,
+      });
+    },
+    [cart, maxItems, showToast, summary.items, t],
+  );
+
+  // Stock and prices may have changed since the items were added, so the
+  // cart is checked against fresh data before the customer reviews it.
+  const checkCart = useCallback(
+    async (store: Store | null) => {
+      dispatch({ type: "changesDismissed" });
+      if (!store || !cart.entries.size) return;
+
+      setIsCheckingCart(true);
+      try {
+        const ids = Array.from(
+          new Set(
+            Array.from(cart.entries.values(), ({ product }) => product.id),
+          ),
+        );
+        const products = await loadProductsByIds(store, ids, true);
+        if (activeStoreSlugRef.current !== store.slug) {
+          return;
+        }
+
+        const { entries, changes, unavailable } = reconcileSavedCart(
+          serializeCart(cart.entries),
+          new Map(),
+          i18n,
+          products,
+        );
+        dispatch({
+          type: "checked",
+          entries,
+          changes:
+            changes.size || unavailable.length
+              ? { lines: changes, removed: unavailable }
+              : null,
+        });
+        refreshProducts(products);
+      } catch (error) {
+        // Saleor checks stock again when the checkout is created.
+        console.warn("Unable to check the cart.", error);
+      } finally {
+        setIsCheckingCart(false);
+      }
+    },
+    [
+      activeStoreSlugRef,
+      cart.entries,
+      i18n,
+      loadProductsByIds,
+      refreshProducts,
+    ],
+  );
+
+  return {
+    cart,
+    summary,
+    isCheckingCart,
+    restoreCart,
+    clearCart,
+    detachCart,
+    dismissChanges,
+    updateCart,
+    checkCart,
+  };
+}
@@ -0,0 +1,228 @@
+import type { ReactNode, RefObject } from "react";
+
+import {
+  UNCATEGORIZED_ID,
+  type Category,
+  type Product,
+  type Store,
+} from "../api/catalog";
+import type { CartSummary } from "../cart/cartStore";
+import type { MessageKey, Translator } from "../i18n";
+import { SearchField } from "./SearchField";
+import { describeOpeningState, isStoreOpen } from "./storeHours";
+import { stripHtml, truncateText } from "./text";
+import type { ProductSearch } from "./useProductSearch";
+
+type MenuViewProps = {
+  active: boolean;
+  // Stays null while no store is open; the view is hidden then.
+  store: Store | null;
+  categories: Category[];
+  selectedCategory: Category | null;
+  selectedCategoryId: string | null;
+  search: ProductSearch;
+  emptyMessage: MessageKey;
+  failed: boolean;
+  isLoadingMore: boolean;
+  sentinelRef: RefObject<HTMLDivElement>;
+  // Unpriced items count towards the mini cart but not the summary.
+  hasItems: boolean;
+  summary: CartSummary;
+  reviewDisabled: boolean;
+  now: Date;
+  i18n: Translator;
+  renderProduct: (product: Product, highlight?: string) => ReactNode;
+  onBackToStores: () => void;
+  onAbout: (store: Store) => void;
+  onSelectCategory: (category: Category) => void;
+  onRetry: () => void;
+  onReview: () => void;
+};
+
+export function MenuView({
+  active,
+  store,
+  categories,
+  selectedCategory,
+  selectedCategoryId,
+  search,
+  emptyMessage,
+  failed,
+  isLoadingMore,
+  sentinelRef,
+  hasItems,
+  summary,
+  reviewDisabled,
+  now,
+  i18n,
+  renderProduct,
+  onBackToStores,
+  onAbout,
+  onSelectCategory,
+  onRetry,
+  onReview,
+}: MenuViewProps) {
+  const { t } = i18n;
+  const { isSearching } = search;
+
+  return (
+    <section
+      id="menu-view"
+      className={`view ${active ? "view--active" : ""}`}
+      aria-labelledby="menu-view-title"
+    >
+      <div
+        className="menu-view__hero"
+        id="store-hero"
+        style={{
+          backgroundImage: store?.image
+            ? `linear-gradient(180deg, rgba(0,0,0,0.25), rgba(0,0,0,0.5)), url(${store.image})`
+            : "linear-gradient(180deg, rgba(0,0,0,0.15), rgba(0,0,0,0.25))",
+        }}
+      >
+        <div className="menu-view__hero-content">
+          <h2 className="menu-view__hero-title" id="menu-view-title">
+            {store?.name || ""}
+          </h2>
+          <p className="menu-view__hero-subtitle" id="menu-view-subtitle">
+            {store
+              ? truncateText(stripHtml(store.description), 120) ||
+                t("app.storeSubtitle")
+              : ""}
+          </p>
+          {store?.hours && (
+            <p
+              className={`store-hours store-hours--hero ${
+                isStoreOpen(store.hours, now) ? "" : "store-hours--closed"
+              }`}
+              id="store-hours"
+            >
+              {describeOpeningState(store.hours, now, i18n)}
+            </p>
+          )}
+          <div className="menu-view__hero-actions">
+            <button
+              type="button"
+              className="link-button"
+              id="back-to-stores-btn"
+              onClick={onBackToStores}
+            >
+              {t("menu.backToStores")}
+            </button>
+            <button
+              type="button"
+              className="link-button"
+              id="store-info-btn"
+              onClick={() => {
+                if (store) onAbout(store);
+              }}
+            >
+              {t("menu.about")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <SearchField
+        id="menu-search-input"
+        placeholder={
+          store
+            ? t("menu.search", { store: store.name })
+            : t("menu.searchFallback")
+        }
+        value={search.query}
+        onChange={search.setQuery}
+      />
+
+      {categories.length > 0 && !isSearching && (
+        <nav
+          className="category-tabs"
+          id="category-tabs"
+          aria-label={t("menu.categories")}
+        >
+          {categories.map((category) => (
+            <button
+              type="button"
+              key={category.id}
+              className={`category-tab ${
+                selectedCategoryId === category.id
+                  ? "category-tab--active"
+                  : ""
+              }`}
+              onClick={() => onSelectCategory(category)}
+            >
+              {category.id === UNCATEGORIZED_ID
+                ? t("menu.uncategorized")
+                : category.name}
+            </button>
+          ))}
+        </nav>
+      )}
+
+      <div className="product-grid" id="product-grid" role="list">
+        {isSearching
+          ? search.results.map(({ product }) =>
+              renderProduct(product, search.query),
+            )
+          : selectedCategory?.products?.map((product) =>
+              renderProduct(product),
+            )}
+      </div>
+
+      {isSearching && search.message && (
+        <div className="empty-state" id="menu-search-empty" role="status">
+          {t(search.message, { query: search.query.trim() })}
+        </div>
+      )}
+
+      {store &&
+        !isSearching &&
+        (!selectedCategory || !selectedCategory.products.length) && (
+          <div className="empty-state" id="product-empty" role="status">
+            {failed || selectedCategoryId
+              ? t(emptyMessage)
+              : t("menu.selectCategory")}
+          </div>
+        )}
+
+      {failed && !isSearching && (
+        <button
+          type="button"
+          className="option-chip retry-button"
+          id="product-retry-btn"
+          onClick={onRetry}
+        >
+          {t("common.retry")}
+        </button>
+      )}
+
+      <div ref={sentinelRef} className="scroll-sentinel" aria-hidden="true" />
+      {isLoadingMore && (
+        <div className="empty-state" role="status">
+          {t("menu.loadingMore")}
+        </div>
+      )}
+
+      {hasItems && (
+        <div className="mini-cart" id="mini-cart">
+          <button
+            type="button"
+            className="mini-cart__pill"
+            id="mini-cart-button"
+            disabled={reviewDisabled}
+            onClick={onReview}
+          >
+            <span id="mini-cart-count">
+              {t("cart.items", { count: summary.items })}
+            </span>
+            <span id="mini-cart-total">
+              {summary.mixedCurrencies
+                ? t("common.mixedCurrencies")
+                : i18n.money(summary.total.amount, summary.total.currency)}
+            </span>
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,111 @@
+import type { Product } from "../api/catalog";
+import { CartControl, type CartUpdate } from "../cart/CartControl";
+import { productQuantity, type CartEntry } from "../cart/cartStore";
+import type { Translator } from "../i18n";
+import { LOW_STOCK_THRESHOLD, productStock } from "./products";
+import { highlightMatch, stripHtml, truncateText } from "./text";
+import type { SearchResult } from "./useCatalog";
+
+type ProductCardProps = {
+  product: Product;
+  cart: Map<string, CartEntry>;
+  i18n: Translator;
+  // Search terms to mark in the name and description.
+  highlight?: string;
+  // Set for results of the store grid search, which may come from any store.
+  searchResult?: SearchResult;
+  onOpen: () => void;
+  onCartChange: CartUpdate;
+};
+
+export function ProductCard({
+  product,
+  cart,
+  i18n,
+  highlight = "",
+  searchResult,
+  onOpen,
+  onCartChange,
+}: ProductCardProps) {
+  const { t } = i18n;
+  const hasOptions =
+    product.variants.length > 1 || product.optionGroups.length > 0;
+  const inCart = productQuantity(cart, product.id);
+  const description = truncateText(stripHtml(product.description), 120);
+  const stock = productStock(product);
+  return (
+    <article className="product-card" role="listitem">
+      <button
+        type="button"
+        className="product-card__media"
+        aria-label={t("product.showDetails", { name: product.name })}
+        onClick={onOpen}
+        style={{
+          backgroundImage: product.image ? `url(${product.image})` : "none",
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+          backgroundColor: product.image ? "transparent" : "rgba(0,0,0,0.06)",
+        }}
+      >
+        {stock === 0 && (
+          <span className="product-card__badge">{t("product.outOfStock")}</span>
+        )}
+      </button>
+      <div className="product-card__info">
+        <h3 className="product-card__title" onClick={onOpen}>
+          {highlightMatch(product.name, highlight)}
+        </h3>
+        {searchResult && (
+          <span className="product-card__store">{searchResult.store.name}</span>
+        )}
+        <p className="product-card__description">
+          {description
+            ? highlightMatch(description, highlight)
+            : t("product.noDescription")}
+        </p>
+        {stock != null && stock > 0 && stock <= LOW_STOCK_THRESHOLD && (
+          <span className="product-card__stock">
+            {t("product.fewLeft", { count: stock })}
+          </span>
+        )}
+        <div className="product-card__footer">
+          <div className="product-price">
+            {product.priceAmount != null && product.priceCurrency
+              ? hasOptions
+                ? t("product.from", {
+                    price: i18n.money(
+                      product.priceAmount,
+                      product.priceCurrency,
+                    ),
+                  })
+                : i18n.money(product.priceAmount, product.priceCurrency)
+              : "—"}
+          </div>
+          {searchResult ? (
+            <button type="button" className="add-button" onClick={onOpen}>
+              {t("product.view")}
+            </button>
+          ) : hasOptions ? (
+            <button type="button" className="add-button" onClick={onOpen}>
+              {inCart > 0
+                ? t("product.optionsInCart", { count: inCart })
+                : t("product.options")}
+            </button>
+          ) : product.variants[0] ? (
+            <CartControl
+              cart={cart}
+              product={product}
+              variant={product.variants[0]}
+              i18n={i18n}
+              onChange={onCartChange}
+            />
+          ) : (
+            <button type="button" className="add-button" disabled>
+              {t("product.add")}
+            </button>
+          )}
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,208 @@
+import type { OptionGroup, Product } from "../api/catalog";
+import { CartControl, type CartUpdate } from "../cart/CartControl";
+import { getUnitPrice, type CartEntry } from "../cart/cartStore";
+import type { Translator } from "../i18n";
+import {
+  findMissingOptionGroups,
+  formatPriceDelta,
+  resolveSelectedOptions,
+  type OptionSelection,
+} from "./options";
+import { describeStock } from "./products";
+import { stripHtml } from "./text";
+
+type ProductSheetProps = {
+  // The sheet stays mounted and slides out while this is null.
+  product: Product | null;
+  optionSelection: OptionSelection;
+  cart: Map<string, CartEntry>;
+  i18n: Translator;
+  canShare: boolean;
+  reviewDisabled: boolean;
+  onShare: (product: Product) => void;
+  onClose: () => void;
+  onToggleOption: (group: OptionGroup, choiceId: string) => void;
+  onCartChange: CartUpdate;
+  onReview: () => void;
+};
+
+export function ProductSheet({
+  product,
+  optionSelection,
+  cart,
+  i18n,
+  canShare,
+  reviewDisabled,
+  onShare,
+  onClose,
+  onToggleOption,
+  onCartChange,
+  onReview,
+}: ProductSheetProps) {
+  const { t } = i18n;
+  const selectedOptions = product
+    ? resolveSelectedOptions(product, optionSelection)
+    : [];
+  const missingOptionGroups = product
+    ? findMissingOptionGroups(product, optionSelection)
+    : [];
+
+  return (
+    <div
+      id="product-sheet"
+      className={`order-sheet ${product ? "order-sheet--visible" : ""}`}
+      aria-hidden={!product}
+    >
+      <div
+        className="order-sheet__panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="product-sheet-title"
+      >
+        <header className="order-sheet__header">
+          <h2 id="product-sheet-title">{product?.name || ""}</h2>
+          {canShare && (
+            <button
+              type="button"
+              className="order-sheet__share"
+              id="product-share-btn"
+              onClick={() => product && onShare(product)}
+            >
+              {t("product.share")}
+            </button>
+          )}
+          <button
+            type="button"
+            className="order-sheet__close"
+            id="product-close-btn"
+            aria-label={t("common.close")}
+            onClick={onClose}
+          >
+            ×
+          </button>
+        </header>
+        <div className="order-sheet__body">
+          {product?.image && (
+            <img
+              className="product-sheet__image"
+              src={product.image}
+              alt={product.imageAlt}
+            />
+          )}
+          <p className="product-sheet__description">
+            {stripHtml(product?.description || "") ||
+              t("product.noDescription")}
+          </p>
+          {product?.optionGroups.map((group) => (
+            <fieldset className="option-group" key={group.id}>
+              <legend className="option-group__title">
+                {group.name}
+                <span
+                  className={`option-group__hint ${
+                    missingOptionGroups.includes(group)
+                      ? "option-group__hint--missing"
+                      : ""
+                  }`}
+                >
+                  {group.required
+                    ? t("product.required")
+                    : t("product.optional")}
+                </span>
+              </legend>
+              <div className="option-group__choices">
+                {group.choices.map((choice) => {
+                  const isSelected = (optionSelection[group.id] || []).includes(
+                    choice.id,
+                  );
+                  return (
+                    <button
+                      type="button"
+                      key={choice.id}
+                      className={`option-chip ${
+                        isSelected ? "option-chip--active" : ""
+                      }`}
+                      aria-pressed={isSelected}
+                      onClick={() => onToggleOption(group, choice.id)}
+                    >
+                      {choice.name}
+                      {choice.priceDelta !== 0 && (
+                        <span className="option-chip__delta">
+                          {formatPriceDelta(
+                            choice.priceDelta,
+                            product.priceCurrency || "",
+                            i18n,
+                          )}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </fieldset>
+          ))}
+          {missingOptionGroups.length > 0 && (
+            <p className="order-line__meta">
+              {t("product.chooseOptions", {
+                groups: missingOptionGroups
+                  .map((group) => group.name)
+                  .join(", "),
+              })}
+            </p>
+          )}
+          <div className="variant-list" role="list">
+            {product?.variants.map((variant) => (
+              <div className="variant-option" role="listitem" key={variant.id}>
+                <div className="order-line__info">
+                  <p className="order-line__title">
+                    {variant.name || product.name}
+                  </p>
+                  <span className="order-line__meta">
+                    {[
+                      variant.sku ? t("product.sku", { sku: variant.sku }) : "",
+                      describeStock(variant.quantityAvailable, i18n),
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </span>
+                </div>
+                <div className="variant-option__actions">
+                  <div className="product-price">
+                    {variant.priceAmount != null && variant.priceCurrency
+                      ? i18n.money(
+                          getUnitPrice(variant, selectedOptions)!,
+                          variant.priceCurrency,
+                        )
+                      : "—"}
+                  </div>
+                  <CartControl
+                    cart={cart}
+                    product={product}
+                    variant={variant}
+                    options={selectedOptions}
+                    disabled={missingOptionGroups.length > 0}
+                    i18n={i18n}
+                    onChange={onCartChange}
+                  />
+                </div>
+              </div>
+            ))}
+            {product && !product.variants.length && (
+              <p className="order-line__meta">{t("product.noVariants")}</p>
+            )}
+          </div>
+        </div>
+        <footer className="order-sheet__footer">
+          <button
+            type="button"
+            className="cta-button"
+            id="product-review-btn"
+            disabled={reviewDisabled}
+            onClick={onReview}
+          >
+            {t("cart.reviewOrder")}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
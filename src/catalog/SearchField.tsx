@@ -0,0 +1,29 @@
+type SearchFieldProps = {
+  id: string;
+  placeholder: string;
+  value: string;
+  onChange: (value: string) => void;
+};
+
+export function SearchField({
+  id,
+  placeholder,
+  value,
+  onChange,
+}: SearchFieldProps) {
+  return (
+    <div className="search-bar">
+      <input
+        type="search"
+        className="search-bar__input"
+        id={id}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        autoComplete="off"
+        enterKeyHint="search"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import type { ReactNode, RefObject } from "react";
+
+import type { Channel, Product, Store } from "../api/catalog";
+import {
+  isLocale,
+  LOCALE_NAMES,
+  LOCALES,
+  type Locale,
+  type MessageKey,
+  type Translator,
+} from "../i18n";
+import { SearchField } from "./SearchField";
+import { describeOpeningState, isStoreOpen } from "./storeHours";
+import { stripHtml, truncateText } from "./text";
+import type { SearchResult } from "./useCatalog";
+import type { ProductSearch } from "./useProductSearch";
+
+type StoreListViewProps = {
+  active: boolean;
+  stores: Store[];
+  channels: Channel[];
+  channel: string;
+  locale: Locale;
+  search: ProductSearch;
+  emptyMessage: MessageKey | "";
+  failed: boolean;
+  isLoading: boolean;
+  sentinelRef: RefObject<HTMLDivElement>;
+  now: Date;
+  i18n: Translator;
+  renderProduct: (
+    product: Product,
+    highlight: string,
+    searchResult: SearchResult,
+  ) => ReactNode;
+  onOpenStore: (store: Store) => void;
+  onOpenOrders: () => void;
+  onSelectChannel: (slug: string) => void;
+  onSelectLocale: (locale: Locale) => void;
+  onRetry: () => void;
+};
+
+export function StoreListView({
+  active,
+  stores,
+  channels,
+  channel,
+  locale,
+  search,
+  emptyMessage,
+  failed,
+  isLoading,
+  sentinelRef,
+  now,
+  i18n,
+  renderProduct,
+  onOpenStore,
+  onOpenOrders,
+  onSelectChannel,
+  onSelectLocale,
+  onRetry,
+}: StoreListViewProps) {
+  const { t } = i18n;
+  const { isSearching } = search;
+
+  return (
+    <section
+      id="store-view"
+      className={`view ${active ? "view--active" : ""}`}
+      aria-labelledby="store-view-title"
+    >
+      <div className="view-header view-header--with-action">
+        <div>
+          <h2 id="store-view-title">{t("stores.title")}</h2>
+          <p>{t("stores.hint")}</p>
+        </div>
+        <button
+          type="button"
+          className="option-chip"
+          id="my-orders-btn"
+          onClick={onOpenOrders}
+        >
+          {t("stores.myOrders")}
+        </button>
+      </div>
+      <div className="settings-row">
+        {channels.length > 1 && (
+          <label className="setting-picker" htmlFor="channel-select">
+            <span>{t("settings.region")}</span>
+            <select
+              id="channel-select"
+              className="setting-picker__select"
+              value={channel}
+              onChange={(event) => onSelectChannel(event.target.value)}
+            >
+              {channels.map((option) => (
+                <option key={option.id} value={option.slug}>
+                  {option.name} · {option.currencyCode}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="setting-picker" htmlFor="language-select">
+          <span>{t("settings.language")}</span>
+          <select
+            id="language-select"
+            className="setting-picker__select"
+            value={locale}
+            onChange={(event) => {
+              if (isLocale(event.target.value)) {
+                onSelectLocale(event.target.value);
+              }
+            }}
+          >
+            {LOCALES.map((option) => (
+              <option key={option} value={option}>
+                {LOCALE_NAMES[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <SearchField
+        id="store-search-input"
+        placeholder={t("stores.search")}
+        value={search.query}
+        onChange={search.setQuery}
+      />
+      {isSearching && (
+        <div className="product-grid" id="store-search-results" role="list">
+          {search.results.map((result) =>
+            renderProduct(result.product, search.query, result),
+          )}
+        </div>
+      )}
+      {isSearching && search.message && (
+        <div className="empty-state" id="store-search-empty" role="status">
+          {t(search.message, { query: search.query.trim() })}
+        </div>
+      )}
+      <div className="store-grid" id="store-grid" role="list">
+        {!isSearching &&
+          stores.map((store) => (
+            <button
+              type="button"
+              key={store.id}
+              className="store-card"
+              role="listitem"
+              onClick={() => onOpenStore(store)}
+            >
+              <div
+                className="store-card__cover"
+                style={{
+                  backgroundImage: store.image
+                    ? `url(${store.image})`
+                    : "linear-gradient(135deg, rgba(0,0,0,0.08), rgba(0,0,0,0.02))",
+                }}
+              >
+                <div className="store-card__title">{store.name}</div>
+              </div>
+              <div className="store-card__body">
+                <p className="store-card__description">
+                  {truncateText(stripHtml(store.description), 96) ||
+                    t("stores.cardFallback")}
+                </p>
+                <div className="store-card__meta">
+                  {store.hours ? (
+                    <span
+                      className={`store-hours ${
+                        isStoreOpen(store.hours, now)
+                          ? ""
+                          : "store-hours--closed"
+                      }`}
+                    >
+                      {describeOpeningState(store.hours, now, i18n)}
+                    </span>
+                  ) : (
+                    <span>{t("stores.cardMenu")}</span>
+                  )}
+                  <span>{t("stores.cardView")}</span>
+                </div>
+              </div>
+            </button>
+          ))}
+      </div>
+      {emptyMessage && !isSearching && (
+        <div className="empty-state" id="store-empty" role="status">
+          {t(emptyMessage)}
+        </div>
+      )}
+      {failed && !isSearching && (
+        <button
+          type="button"
+          className="option-chip retry-button"
+          id="store-retry-btn"
+          onClick={onRetry}
+        >
+          {t("common.retry")}
+        </button>
+      )}
+      <div ref={sentinelRef} className="scroll-sentinel" aria-hidden="true" />
+      {isLoading && stores.length > 0 && (
+        <div className="empty-state" role="status">
+          {t("stores.loadingMore")}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  makeCategory,
+  makeProduct,
+  makeStore,
+  makeVariant,
+} from "../test/fixtures";
+import {
+  catalogReducer,
+  findProductBySlug,
+  initialCatalogState,
+  sortCategories,
+  type CatalogState,
+} from "./catalogStore";
+
+const central = makeStore();
+const harbour = makeStore({ id: "store-2", slug: "harbour", name: "Harbour" });
+
+function loadStores(state: CatalogState, after: string | null = null) {
+  return catalogReducer(state, {
+    type: "storesLoaded",
+    after,
+    page: {
+      items: after ? [harbour] : [central],
+      pageInfo: { hasNextPage: !after, endCursor: after ? null : "c1" },
+    },
+  });
+}
+
+describe("catalogReducer stores", () => {
+  it("replaces the list with a first page and appends later pages", () => {
+    const requested = catalogReducer(initialCatalogState, {
+      type: "storesRequested",
+      after: null,
+    });
+    expect(requested.isLoadingStores).toBe(true);
+    expect(requested.storeEmptyMessage).toBe("stores.loading");
+
+    const first = loadStores(requested);
+    expect(first.stores).toEqual([central]);
+    expect(first.storeEmptyMessage).toBe("");
+    expect(first.isLoadingStores).toBe(false);
+
+    const second = loadStores(first, "c1");
+    expect(second.stores).toEqual([central, harbour]);
+    expect(second.storesPageInfo?.hasNextPage).toBe(false);
+  });
+
+  it("says when there are no stores", () => {
+    const state = catalogReducer(initialCatalogState, {
+      type: "storesLoaded",
+      after: null,
+      page: { items: [], pageInfo: { hasNextPage: false, endCursor: null } },
+    });
+    expect(state.storeEmptyMessage).toBe("stores.empty");
+  });
+
+  it("keeps loaded stores when a later page fails", () => {
+    const first = loadStores(initialCatalogState);
+    const failedMore = catalogReducer(first, {
+      type: "storesFailed",
+      after: "c1",
+    });
+    expect(failedMore.storesFailed).toBe(true);
+    expect(failedMore.storeEmptyMessage).toBe("");
+
+    const failedFirst = catalogReducer(initialCatalogState, {
+      type: "storesFailed",
+      after: null,
+    });
+    expect(failedFirst.storeEmptyMessage).toBe("stores.failed");
+  });
+
+  it("merges revalidated stores by id", () => {
+    const first = loadStores(initialCatalogState);
+    const renamed = { ...central, name: "Central Station" };
+    const state = catalogReducer(first, {
+      type: "storesRevalidated",
+      stores: [renamed, harbour],
+    });
+    expect(state.stores).toEqual([renamed, harbour]);
+  });
+});
+
+describe("catalogReducer menu", () => {
+  const latte = makeProduct();
+  const tea = makeProduct({ id: "product-2", slug: "tea", name: "Tea" });
+  const byCategory = new Map([
+    ["coffee", makeCategory([latte], { id: "coffee", name: "Coffee" })],
+    ["bakery", makeCategory([], { id: "bakery", name: "bakery" })],
+    ["tea", makeCategory([tea], { id: "tea", slug: "tea", name: "Tea" })],
+  ]);
+
+  function openMenu() {
+    const opened = catalogReducer(initialCatalogState, {
+      type: "storeOpened",
+      store: central,
+    });
+    return catalogReducer(opened, {
+      type: "menuLoaded",
+      productsByCategory: byCategory,
+      pageInfo: { hasNextPage: false, endCursor: null },
+    });
+  }
+
+  it("selects the first category of the menu", () => {
+    const state = openMenu();
+    expect(state.selectedStore).toBe(central);
+    expect(state.selectedCategoryId).toBe("bakery");
+  });
+
+  it("swaps refreshed products in place", () => {
+    const fresh = makeProduct({
+      variants: [makeVariant({ quantityAvailable: 1 })],
+    });
+    const state = catalogReducer(openMenu(), {
+      type: "productsRefreshed",
+      products: [fresh],
+    });
+    expect(state.productsByCategory.get("coffee")?.products).toEqual([fresh]);
+    expect(state.productsByCategory.get("tea")?.products).toEqual([tea]);
+  });
+
+  it("empties the menu when the first page fails", () => {
+    const state = catalogReducer(openMenu(), {
+      type: "productsFailed",
+      after: null,
+    });
+    expect(state.productsByCategory.size).toBe(0);
+    expect(state.productEmptyMessage).toBe("menu.failed");
+  });
+
+  it("resets the menu when the store is closed", () => {
+    const state = catalogReducer(openMenu(), { type: "storeClosed" });
+    expect(state.selectedStore).toBeNull();
+    expect(state.selectedCategoryId).toBeNull();
+    expect(state.productsByCategory.size).toBe(0);
+  });
+
+  it("sorts categories by name and finds products by slug", () => {
+    expect(sortCategories(byCategory).map(({ id }) => id)).toEqual([
+      "bakery",
+      "coffee",
+      "tea",
+    ]);
+    expect(findProductBySlug(byCategory, "tea")).toBe(tea);
+    expect(findProductBySlug(byCategory, "mocha")).toBeNull();
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  groupProductsByCategory,
+  type Category,
+  type Page,
+  type PageInfo,
+  type Product,
+  type Store,
+} from "../api/catalog";
+import type { ProductFieldsFragment } from "../api/generated";
+import type { MessageKey } from "../i18n";
+
+export type CatalogState = {
+  stores: Store[];
+  storesPageInfo: PageInfo | null;
+  isLoadingStores: boolean;
+  storesFailed: boolean;
+  storeEmptyMessage: MessageKey | "";
+  selectedStore: Store | null;
+  productsByCategory: Map<string, Category>;
+  productsPageInfo: PageInfo | null;
+  isLoadingProducts: boolean;
+  productsFailed: boolean;
+  productEmptyMessage: MessageKey;
+  selectedCategoryId: string | null;
+};
+
+// Stores arrive page by page: with an `after` cursor an action concerns a
+// later page, without one the first page that replaces the list. A store's
+// menu starts with `menuLoaded` and grows with `productsLoaded`.
+export type CatalogAction =
+  | { type: "storesRequested"; after: string | null }
+  | { type: "storesLoaded"; page: Page<Store>; after: string | null }
+  | { type: "storesRevalidated"; stores: Store[] }
+  | { type: "storesFailed"; after: string | null }
+  | { type: "storesDiscarded" }
+  | { type: "storesCleared" }
+  | { type: "storeOpened"; store: Store }
+  | { type: "storeClosed" }
+  | { type: "productsRequested" }
+  | {
+      type: "menuLoaded";
+      productsByCategory: Map<string, Category>;
+      pageInfo: PageInfo;
+    }
+  | { type: "productsLoaded"; page: Page<ProductFieldsFragment> }
+  | { type: "productsRevalidated"; products: ProductFieldsFragment[] }
+  // Fresher copies of loaded products, e.g. after a stock check.
+  | { type: "productsRefreshed"; products: Product[] }
+  | { type: "productsFailed"; after: string | null }
+  | { type: "productsDiscarded" }
+  | { type: "categorySelected"; categoryId: string | null };
+
+export const initialCatalogState: CatalogState = {
+  stores: [],
+  storesPageInfo: null,
+  isLoadingStores: false,
+  storesFailed: false,
+  storeEmptyMessage: "stores.loading",
+  selectedStore: null,
+  productsByCategory: new Map(),
+  productsPageInfo: null,
+  isLoadingProducts: false,
+  productsFailed: false,
+  productEmptyMessage: "menu.emptyCategory",
+  selectedCategoryId: null,
+};
+
+export function catalogReducer(
+  state: CatalogState,
+  action: CatalogAction,
+): CatalogState {
+  switch (action.type) {
+    case "storesRequested":
+      return {
+        ...state,
+        isLoadingStores: true,
+        storesFailed: false,
+        storeEmptyMessage: action.after
+          ? state.storeEmptyMessage
+          : "stores.loading",
+      };
+    case "storesLoaded":
+      if (action.after) {
+        return {
+          ...state,
+          stores: mergeById(state.stores, action.page.items),
+          storesPageInfo: action.page.pageInfo,
+          isLoadingStores: false,
+        };
+      }
+      return {
+        ...state,
+        stores: action.page.items,
+        storesPageInfo: action.page.pageInfo,
+        isLoadingStores: false,
+        storeEmptyMessage: action.page.items.length ? "" : "stores.empty",
+      };
+    case "storesRevalidated":
+      return { ...state, stores: mergeById(state.stores, action.stores) };
+    case "storesFailed":
+      return {
+        ...state,
+        isLoadingStores: false,
+        // Also stops the sentinel from retrying until the user asks for it.
+        storesFailed: true,
+        storeEmptyMessage: action.after
+          ? state.storeEmptyMessage
+          : "stores.failed",
+      };
+    case "storesDiscarded":
+      return { ...state, isLoadingStores: false };
+    case "storesCleared":
+      return { ...state, stores: [], storesPageInfo: null };
+    case "storeOpened":
+      return {
+        ...state,
+        selectedStore: action.store,
+        productsPageInfo: null,
+        productsFailed: false,
+        productEmptyMessage: "menu.emptyCategory",
+      };
+    case "storeClosed":
+      return {
+        ...state,
+        selectedStore: null,
+        selectedCategoryId: null,
+        productsByCategory: new Map(),
+        productsPageInfo: null,
+        productsFailed: false,
+      };
+    case "productsRequested":
+      return { ...state, isLoadingProducts: true, productsFailed: false };
+    case "menuLoaded":
+      return {
+        ...state,
+        productsByCategory: action.productsByCategory,
+        productsPageInfo: action.pageInfo,
+        isLoadingProducts: false,
+        selectedCategoryId:
+          sortCategories(action.productsByCategory)[0]?.id || null,
+      };
+    case "productsLoaded":
+      return {
+        ...state,
+        productsByCategory: groupProductsByCategory(
+          action.page.items,
+          state.productsByCategory,
+        ),
+        productsPageInfo: action.page.pageInfo,
+        isLoadingProducts: false,
+      };
+    case "productsRevalidated":
+      return {
+        ...state,
+        productsByCategory: groupProductsByCategory(
+          action.products,
+          state.productsByCategory,
+        ),
+      };
+    case "productsRefreshed":
+      return {
+        ...state,
+        productsByCategory: replaceProducts(
+          state.productsByCategory,
+          action.products,
+        ),
+      };
+    case "productsFailed":
+      if (action.after) {
+        return { ...state, isLoadingProducts: false, productsFailed: true };
+      }
+      return {
+        ...state,
+        productsByCategory: new Map(),
+        selectedCategoryId: null,
+        isLoadingProducts: false,
+        productsFailed: true,
+        productEmptyMessage: "menu.failed",
+      };
+    case "productsDiscarded":
+      return { ...state, isLoadingProducts: false };
+    case "categorySelected":
+      return { ...state, selectedCategoryId: action.categoryId };
+  }
+}
+
+// Categories in the order of the menu tabs.
+export function sortCategories(productsByCategory: Map<string, Category>) {
+  return Array.from(productsByCategory.values()).sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+  );
+}
+
+export function findProductBySlug(
+  productsByCategory: Map<string, Category>,
+  slug: string,
+) {
+  for (const { products } of productsByCategory.values()) {
+    const product = products.find((item) => item.slug === slug);
+    if (product) return product;
+  }
+  return null;
+}
+
+// Replaces items with the same id in place and appends new ones.
+function mergeById<T extends { id: string }>(current: T[], incoming: T[]) {
+  const next = [...current];
+  incoming.forEach((item) => {
+    const index = next.findIndex(({ id }) => id === item.id);
+    if (index >= 0) {
+      next[index] = item;
+    } else {
+      next.push(item);
+    }
+  });
+  return next;
+}
+
+// Swaps loaded products for fresher copies, keeping their categories.
+function replaceProducts(
+  byCategory: Map<string, Category>,
+  products: Product[],
+) {
+  const fresh = new Map(products.map((product) => [product.id, product]));
+  const next = new Map<string, Category>();
+  byCategory.forEach((category, id) => {
+    next.set(id, {
+      ...category,
+      products: category.products.map(
+        (product) => fresh.get(product.id) || product,
+      ),
+    });
+  });
+  return next;
+}
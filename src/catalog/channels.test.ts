@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import type { Channel } from "../api/catalog";
+import { pickChannel } from "./channels";
+
+const channels: Channel[] = [
+  {
+    id: "1",
+    slug: "default-channel",
+    name: "US",
+    currencyCode: "USD",
+    countries: ["US"],
+  },
+  {
+    id: "2",
+    slug: "channel-ru",
+    name: "Russia",
+    currencyCode: "RUB",
+    countries: ["RU", "KZ"],
+  },
+  {
+    id: "3",
+    slug: "channel-eu",
+    name: "Europe",
+    currencyCode: "EUR",
+    countries: ["DE", "FR"],
+  },
+];
+
+describe("pickChannel", () => {
+  it("keeps a stored channel that still exists", () => {
+    expect(pickChannel(channels, "channel-eu", "ru", "default-channel")).toBe(
+      "channel-eu",
+    );
+  });
+
+  it("matches the region of the Telegram language", () => {
+    expect(pickChannel(channels, "gone", "ru", "default-channel")).toBe(
+      "channel-ru",
+    );
+    expect(pickChannel(channels, null, "fr-fr", "default-channel")).toBe(
+      "channel-eu",
+    );
+  });
+
+  it("falls back to the configured channel", () => {
+    expect(pickChannel(channels, null, "ja", "default-channel")).toBe(
+      "default-channel",
+    );
+    expect(pickChannel([], "stored", "ru", "default-channel")).toBe("stored");
+    expect(pickChannel([], null, "ru", "default-channel")).toBe(
+      "default-channel",
+    );
+  });
+});
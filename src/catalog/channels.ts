@@ -0,0 +1,40 @@
+import type { Channel } from "../api/catalog";
+
+// Picks the stored channel when it still exists, then one whose countries
+// include the region of the Telegram language, then the configured one.
+export function pickChannel(
+  channels: Channel[],
+  preferred: string | null,
+  languageCode: string | undefined,
+  fallback: string,
+) {
+  if (!channels.length) {
+    return preferred || fallback;
+  }
+  if (preferred && channels.some(({ slug }) => slug === preferred)) {
+    return preferred;
+  }
+
+  const region = readRegion(languageCode);
+  const byRegion = region
+    ? channels.find(({ countries }) => countries[0] === region) ||
+      channels.find(({ countries }) => countries.includes(region))
+    : undefined;
+
+  return (
+    byRegion ||
+    channels.find(({ slug }) => slug === fallback) ||
+    channels[0]
+  ).slug;
+}
+
+// Telegram sends tags such as `en`, `pt-br` or `ru`. Tags without a region
+// resolve to the most likely one, e.g. `ru` to `RU`.
+function readRegion(languageCode: string | undefined) {
+  if (!languageCode) return null;
+  try {
+    return new Intl.Locale(languageCode).maximize().region || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { createTranslator } from "../i18n";
+import { makeOptionGroup, makeProduct } from "../test/fixtures";
+import {
+  defaultOptionSelection,
+  describeOptions,
+  findMissingOptionGroups,
+  resolveSelectedOptions,
+  toggleOptionChoice,
+} from "./options";
+
+const i18n = createTranslator("en");
+
+describe("option selection", () => {
+  const single = makeOptionGroup({ defaultChoiceIds: ["choice-soy"] });
+  const multiple = makeOptionGroup({
+    id: "group-extras",
+    slug: "extras",
+    name: "Extras",
+    multiple: true,
+    choices: [
+      { id: "choice-shot", name: "Extra shot", priceDelta: 1 },
+      { id: "choice-syrup", name: "Syrup", priceDelta: 0.3 },
+    ],
+  });
+  const product = makeProduct({ optionGroups: [single, multiple] });
+
+  it("starts from the default choices", () => {
+    expect(defaultOptionSelection(product)).toEqual({
+      "group-milk": ["choice-soy"],
+      "group-extras": [],
+    });
+  });
+
+  it("swaps single choices and toggles multiple ones", () => {
+    let selection = defaultOptionSelection(product);
+    selection = toggleOptionChoice(selection, single, "choice-oat");
+    selection = toggleOptionChoice(selection, multiple, "choice-shot");
+    selection = toggleOptionChoice(selection, multiple, "choice-syrup");
+    expect(selection).toEqual({
+      "group-milk": ["choice-oat"],
+      "group-extras": ["choice-shot", "choice-syrup"],
+    });
+
+    selection = toggleOptionChoice(selection, multiple, "choice-shot");
+    expect(selection["group-extras"]).toEqual(["choice-syrup"]);
+  });
+
+  it("keeps the choice of a required group", () => {
+    const required = { ...single, required: true };
+    const selection = { "group-milk": ["choice-oat"] };
+    expect(toggleOptionChoice(selection, required, "choice-oat")).toEqual(
+      selection,
+    );
+    expect(toggleOptionChoice(selection, single, "choice-oat")).toEqual({
+      "group-milk": [],
+    });
+  });
+
+  it("lists required groups without a choice", () => {
+    const required = { ...single, required: true };
+    const withRequired = makeProduct({ optionGroups: [required, multiple] });
+    expect(findMissingOptionGroups(withRequired, {})).toEqual([required]);
+    expect(
+      findMissingOptionGroups(withRequired, { "group-milk": ["choice-oat"] }),
+    ).toEqual([]);
+  });
+
+  it("describes the chosen options with their prices", () => {
+    const options = resolveSelectedOptions(product, {
+      "group-milk": ["choice-soy"],
+      "group-extras": ["choice-shot", "choice-syrup"],
+    });
+    expect(describeOptions(options, "USD", i18n)).toBe(
+      `Milk: Soy; Extras: Extra shot (+${i18n.money(1, "USD")}), Syrup (+${i18n.money(0.3, "USD")})`,
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import type { OptionChoice, OptionGroup, Product } from "../api/catalog";
+import type { Translator } from "../i18n";
+
+export type SelectedOption = {
+  groupSlug: string;
+  groupName: string;
+  choice: OptionChoice;
+};
+
+// Chosen choice ids by option group id.
+export type OptionSelection = Record<string, string[]>;
+
+export function defaultOptionSelection(product: Product): OptionSelection {
+  const selection: OptionSelection = {};
+  product.optionGroups.forEach((group) => {
+    selection[group.id] = group.defaultChoiceIds;
+  });
+  return selection;
+}
+
+export function toggleOptionChoice(
+  selection: OptionSelection,
+  group: OptionGroup,
+  choiceId: string,
+): OptionSelection {
+  const current = selection[group.id] || [];
+  const isSelected = current.includes(choiceId);
+  let nextChoices: string[];
+  if (group.multiple) {
+    nextChoices = isSelected
+      ? current.filter((id) => id !== choiceId)
+      : [...current, choiceId];
+  } else if (isSelected) {
+    nextChoices = group.required ? current : [];
+  } else {
+    nextChoices = [choiceId];
+  }
+  return { ...selection, [group.id]: nextChoices };
+}
+
+export function resolveSelectedOptions(
+  product: Product,
+  selection: OptionSelection,
+): SelectedOption[] {
+  return product.optionGroups.flatMap((group) =>
+    group.choices
+      .filter((choice) => selection[group.id]?.includes(choice.id))
+      .map((choice) => ({
+        groupSlug: group.slug,
+        groupName: group.name,
+        choice,
+      })),
+  );
+}
+
+export function findMissingOptionGroups(
+  product: Product,
+  selection: OptionSelection,
+) {
+  return product.optionGroups.filter(
+    (group) => group.required && !selection[group.id]?.length,
+  );
+}
+
+export function describeOptions(
+  options: SelectedOption[],
+  currency: string,
+  i18n: Translator,
+) {
+  const byGroup = new Map<string, string[]>();
+  options.forEach(({ groupName, choice }) => {
+    const label = choice.priceDelta
+      ? `${choice.name} (${formatPriceDelta(choice.priceDelta, currency, i18n)})`
+      : choice.name;
+    byGroup.set(groupName, [...(byGroup.get(groupName) || []), label]);
+  });
+  return Array.from(byGroup.entries())
+    .map(([groupName, labels]) =>
+      labels.length === 1 && labels[0].startsWith(groupName)
+        ? labels[0]
+        : `${groupName}: ${labels.join(", ")}`,
+    )
+    .join("; ");
+}
+
+export function formatPriceDelta(
+  amount: number,
+  currency: string,
+  i18n: Translator,
+) {
+  const formatted = i18n.money(Math.abs(amount), currency);
+  return amount < 0 ? `−${formatted}` : `+${formatted}`;
+}
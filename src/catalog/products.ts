@@ -0,0 +1,34 @@
+import type { Product, ProductVariant } from "../api/catalog";
+import type { Translator } from "../i18n";
+
+// Stock at or below this level is called out as "only N left".
+export const LOW_STOCK_THRESHOLD = 5;
+
+// Total stock of a product, or `null` when any variant is not tracked.
+export function productStock(product: Product) {
+  if (!product.variants.length) return null;
+  let total = 0;
+  for (const { quantityAvailable } of product.variants) {
+    if (quantityAvailable == null) return null;
+    total += Math.max(quantityAvailable, 0);
+  }
+  return total;
+}
+
+export function describeStock(
+  quantityAvailable: number | null,
+  i18n: Translator,
+) {
+  if (quantityAvailable == null) return "";
+  if (quantityAvailable <= 0) return i18n.t("product.outOfStock");
+  if (quantityAvailable <= LOW_STOCK_THRESHOLD) {
+    return i18n.t("product.fewLeft", { count: quantityAvailable });
+  }
+  return i18n.t("product.inStock", { count: quantityAvailable });
+}
+
+export function describeVariant(variant: ProductVariant, i18n: Translator) {
+  if (variant.name) return i18n.t("product.variant", { name: variant.name });
+  if (variant.sku) return i18n.t("product.sku", { sku: variant.sku });
+  return i18n.t("product.defaultVariant");
+}
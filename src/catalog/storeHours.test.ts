@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import type { OpeningHours } from "../api/catalog";
+import { createTranslator, type MessageKey } from "../i18n";
+import {
+  buildTimeSlots,
+  describeOpeningState,
+  formatStoreTime,
+  isStoreOpen,
+} from "./storeHours";
+
+const i18n = createTranslator("en");
+
+const SUN = 0;
+const MON = 1;
+const FRI = 5;
+
+// Berlin hours with `[start, end]` ranges in hours by weekday.
+function berlinHours(days: Record<number, [number, number][]>): OpeningHours {
+  return {
+    timeZone: "Europe/Berlin",
+    days: Array.from({ length: 7 }, (_, day) =>
+      (days[day] || []).map(([start, end]) => ({
+        start: start * 60,
+        end: end * 60,
+      })),
+    ),
+  };
+}
+
+// The state text with the time the store opens or closes given in UTC.
+const stateAt = (key: MessageKey, changesAt: string, now: Date) =>
+  i18n.t(key, {
+    time: formatStoreTime(new Date(changesAt), "Europe/Berlin", "en", now),
+  });
+
+const isoSlots = (hours: OpeningHours, now: Date) =>
+  buildTimeSlots(hours, now).map((slot) => slot.toISOString());
+
+describe("opening state", () => {
+  const hours = berlinHours({ [MON]: [[9, 18]] });
+
+  it("is open inside a range and tells when it closes", () => {
+    // Monday 10:00 in Berlin.
+    const now = new Date("2026-10-19T08:00:00Z");
+
+    expect(isStoreOpen(hours, now)).toBe(true);
+    expect(describeOpeningState(hours, now, i18n)).toBe(
+      stateAt("hours.openUntil", "2026-10-19T16:00:00Z", now),
+    );
+  });
+
+  it("is closed outside the ranges and tells when it opens", () => {
+    // Monday 19:00 in Berlin; the store is closed until next Monday.
+    const now = new Date("2026-10-19T17:00:00Z");
+
+    expect(isStoreOpen(hours, now)).toBe(false);
+    expect(describeOpeningState(hours, now, i18n)).toBe(
+      stateAt("hours.opensAt", "2026-10-26T08:00:00Z", now),
+    );
+    expect(describeOpeningState(berlinHours({}), now, i18n)).toBe("Closed");
+  });
+
+  it("treats stores without hours as always open", () => {
+    expect(isStoreOpen(null, new Date("2026-10-19T17:00:00Z"))).toBe(true);
+  });
+
+  it("keeps a range that runs past midnight open on the next day", () => {
+    const late = berlinHours({ [FRI]: [[18, 26]] });
+    // Saturday 01:30 and 02:30 in Berlin.
+    const beforeClosing = new Date("2026-10-23T23:30:00Z");
+    const afterClosing = new Date("2026-10-24T00:30:00Z");
+
+    expect(isStoreOpen(late, beforeClosing)).toBe(true);
+    expect(describeOpeningState(late, beforeClosing, i18n)).toBe(
+      stateAt("hours.openUntil", "2026-10-24T00:00:00Z", beforeClosing),
+    );
+    expect(isStoreOpen(late, afterClosing)).toBe(false);
+  });
+});
+
+describe("buildTimeSlots", () => {
+  it("starts half an hour ahead on the store's half hours", () => {
+    const hours = berlinHours({ [MON]: [[9, 12]] });
+    // Monday 10:10 in Berlin: 10:40 is the earliest time, 11:00 the first
+    // half hour after it.
+    const now = new Date("2026-10-19T08:10:00Z");
+
+    expect(isoSlots(hours, now)).toEqual([
+      "2026-10-19T09:00:00.000Z",
+      "2026-10-19T09:30:00.000Z",
+    ]);
+    buildTimeSlots(hours, now).forEach((slot) => {
+      expect(slot.getTime() - now.getTime()).toBeGreaterThanOrEqual(30 * 60000);
+    });
+  });
+
+  it("follows the store's clock on the day daylight saving starts", () => {
+    const hours = berlinHours({ [SUN]: [[10, 11]] });
+    // Sunday 29 March 2026, 01:30 in Berlin; at 02:00 the clocks go to
+    // 03:00, so 10:00 is 08:00 UTC instead of 09:00.
+    const now = new Date("2026-03-29T00:30:00Z");
+
+    expect(isoSlots(hours, now)).toEqual([
+      "2026-03-29T08:00:00.000Z",
+      "2026-03-29T08:30:00.000Z",
+    ]);
+    expect(describeOpeningState(hours, now, i18n)).toBe(
+      stateAt("hours.opensAt", "2026-03-29T08:00:00Z", now),
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import type { OpeningHours, TimeRange } from "../api/catalog";
+import type { Translator } from "../i18n";
+
+const DAY_MINUTES = 24 * 60;
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Scheduled orders start at least this far ahead, on the store's half hours.
+const SLOT_LEAD_MINUTES = 30;
+const SLOT_STEP_MINUTES = 30;
+
+type OpeningState = {
+  isOpen: boolean;
+  // When the store closes or opens next, or null if that is over a week off.
+  changesAt: Date | null;
+};
+
+type StoreClock = {
+  weekday: number;
+  minutes: number;
+};
+
+const clockFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Weekday and minutes since midnight on the store's wall clock.
+function readStoreClock(date: Date, timeZone: string | undefined): StoreClock {
+  let format = clockFormats.get(timeZone || "");
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    });
+    clockFormats.set(timeZone || "", format);
+  }
+
+  const parts = format.formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value || "";
+  return {
+    weekday: WEEKDAY_NAMES.indexOf(read("weekday")),
+    minutes: Number(read("hour")) * 60 + Number(read("minute")),
+  };
+}
+
+// Opening ranges in wall-clock minutes from the current minute, starting
+// with the day before so ranges that run past midnight are included.
+function listRanges(hours: OpeningHours, clock: StoreClock, days: number) {
+  const ranges: TimeRange[] = [];
+  for (let day = -1; day <= days; day += 1) {
+    const offset = day * DAY_MINUTES - clock.minutes;
+    hours.days[(clock.weekday + day + 7) % 7].forEach(({ start, end }) => {
+      ranges.push({ start: offset + start, end: offset + end });
+    });
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+// The moment the store's clock shows `offset` minutes past the current
+// minute, corrected for a daylight saving change in between.
+function atWallOffset(
+  now: Date,
+  clock: StoreClock,
+  offset: number,
+  timeZone: string | undefined,
+) {
+  const minuteStart = Math.floor(now.getTime() / 60000) * 60000;
+  const date = new Date(minuteStart + offset * 60000);
+  const wallTime = (clock.minutes + offset) % DAY_MINUTES;
+  let shift = wallTime - readStoreClock(date, timeZone).minutes;
+  if (shift > DAY_MINUTES / 2) shift -= DAY_MINUTES;
+  if (shift < -DAY_MINUTES / 2) shift += DAY_MINUTES;
+  return new Date(date.getTime() + shift * 60000);
+}
+
+export function isStoreOpen(hours: OpeningHours | null, now: Date) {
+  if (!hours) return true;
+  return listRanges(hours, readStoreClock(now, hours.timeZone), 0).some(
+    ({ start, end }) => start <= 0 && end > 0,
+  );
+}
+
+function readOpeningState(hours: OpeningHours, now: Date): OpeningState {
+  const clock = readStoreClock(now, hours.timeZone);
+  const ranges = listRanges(hours, clock, 7);
+  const current = ranges.find(({ start, end }) => start <= 0 && end > 0);
+  if (!current) {
+    const next = ranges.find(({ start }) => start > 0);
+    return {
+      isOpen: false,
+      changesAt: next
+        ? atWallOffset(now, clock, next.start, hours.timeZone)
+        : null,
+    };
+  }
+
+  // Touching ranges, e.g. one day to 24:00 and the next from 00:00, are
+  // a single opening.
+  let end = current.end;
+  ranges.forEach((range) => {
+    if (range.start <= end && range.end > end) {
+      end = range.end;
+    }
+  });
+  // Stores that stay open through the whole week have no closing time.
+  return {
+    isOpen: true,
+    changesAt:
+      end < ranges[ranges.length - 1].end
+        ? atWallOffset(now, clock, end, hours.timeZone)
+        : null,
+  };
+}
+
+// Order times from half an hour ahead until the end of tomorrow.
+export function buildTimeSlots(hours: OpeningHours, now: Date) {
+  const clock = readStoreClock(now, hours.timeZone);
+  const lastStart = 2 * DAY_MINUTES - clock.minutes;
+  const offsets = new Set<number>();
+
+  listRanges(hours, clock, 1).forEach(({ start, end }) => {
+    const first = Math.max(start, SLOT_LEAD_MINUTES) + clock.minutes;
+    let wallTime = Math.ceil(first / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+    for (; wallTime - clock.minutes < end; wallTime += SLOT_STEP_MINUTES) {
+      const offset = wallTime - clock.minutes;
+      if (offset < lastStart) {
+        offsets.add(offset);
+      }
+    }
+  });
+
+  return Array.from(offsets)
+    .sort((a, b) => a - b)
+    .map((offset) => atWallOffset(now, clock, offset, hours.timeZone));
+}
+
+// Time on the store's clock, with the weekday unless it is today there.
+export function formatStoreTime(
+  date: Date,
+  timeZone: string | undefined,
+  locale: string,
+  now: Date,
+) {
+  const isToday =
+    date.getTime() - now.getTime() < DAY_MINUTES * 60000 &&
+    readStoreClock(date, timeZone).weekday ===
+      readStoreClock(now, timeZone).weekday;
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: isToday ? undefined : "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
+export function describeOpeningState(
+  hours: OpeningHours,
+  now: Date,
+  i18n: Translator,
+) {
+  const { isOpen, changesAt } = readOpeningState(hours, now);
+  const time = changesAt
+    ? formatStoreTime(changesAt, hours.timeZone, i18n.locale, now)
+    : "";
+  if (isOpen) {
+    return time ? i18n.t("hours.openUntil", { time }) : i18n.t("hours.open");
+  }
+  return time ? i18n.t("hours.opensAt", { time }) : i18n.t("hours.closed");
+}
@@ -0,0 +1,24 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+
+import { stripHtml, truncateText } from "./text";
+
+describe("stripHtml", () => {
+  it("keeps the text of Saleor descriptions", () => {
+    expect(stripHtml("<p>Fresh <b>bread</b> &amp; coffee</p>")).toBe(
+      "Fresh bread & coffee",
+    );
+    expect(stripHtml("")).toBe("");
+  });
+
+  it("never runs markup", () => {
+    expect(stripHtml('<img src="x" onerror="alert(1)">Menu')).toBe("Menu");
+  });
+});
+
+describe("truncateText", () => {
+  it("shortens long text with an ellipsis", () => {
+    expect(truncateText("Open every day", 20)).toBe("Open every day");
+    expect(truncateText("Open every day", 6)).toBe("Open…");
+  });
+});
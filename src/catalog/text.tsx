@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+
+export function stripHtml(value: string) {
+  if (!value) return "";
+  const doc = new DOMParser().parseFromString(value, "text/html");
+  return doc.body.textContent || "";
+}
+
+export function truncateText(value: string, maxLength: number) {
+  if (!value) return "";
+  if (value.length <= maxLength) return value;
+  return `${value.slice(0, maxLength - 1).trim()}…`;
+}
+
+export function highlightMatch(text: string, query: string): ReactNode {
+  const terms = query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (!terms.length) return text;
+
+  // With a capturing group, every odd part of the split is a match.
+  const pattern = new RegExp(`(${terms.join("|")})`, "gi");
+  return text
+    .split(pattern)
+    .map((part, index) =>
+      index % 2 === 1 ? <mark key={index}>{part}</mark> : part,
+    );
+}
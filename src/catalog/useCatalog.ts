@@ -0,0 +1,294 @@
+import { useCallback, useMemo, useReducer, useRef } from "react";
+
+import type { CachedRequest } from "../api/cache";
+import {
+  fetchProductsByIds,
+  fetchProductsBySlugs,
+  fetchSearchResults,
+  fetchStoreBySlug,
+  fetchStoreProducts,
+  fetchStores,
+  groupProductsByCategory,
+  type Page,
+  type Product,
+  type Store,
+} from "../api/catalog";
+import type { LanguageCodeEnum, ProductFieldsFragment } from "../api/generated";
+import {
+  catalogReducer,
+  initialCatalogState,
+  sortCategories,
+  type CatalogState,
+} from "./catalogStore";
+
+export type SearchResult = {
+  product: Product;
+  store: Store;
+};
+
+type CatalogOptions = {
+  request: CachedRequest;
+  // Bypasses the cache, e.g. for stock checks before checkout.
+  liveRequest: CachedRequest;
+  channel: string;
+  languageCode: LanguageCodeEnum;
+};
+
+const STORES_PAGE_SIZE = 12;
+const PRODUCTS_PAGE_SIZE = 40;
+const SEARCH_PAGE_SIZE = 20;
+
+/**
+ * Loads stores and the menu of the open store into a `catalogReducer`
+ * state. Pages that arrive after the user moved to another channel,
+ * language or store are dropped; failed loads are rethrown after the state
+ * records them, so callers decide how to tell the user.
+ */
+export function useCatalog({
+  request,
+  liveRequest,
+  channel,
+  languageCode,
+}: CatalogOptions) {
+  const [state, dispatch] = useReducer(catalogReducer, initialCatalogState);
+  const stateRef = useRef<CatalogState>(state);
+  stateRef.current = state;
+  // The store whose menu is open, kept outside the state so async loads can
+  // check it after they resume.
+  const activeStoreSlugRef = useRef<string | null>(null);
+
+  const catalogScope = `${channel}|${languageCode}`;
+  const catalogScopeRef = useRef(catalogScope);
+  catalogScopeRef.current = catalogScope;
+
+  const loadStores = useCallback(
+    async (after: string | null = null) => {
+      dispatch({ type: "storesRequested", after });
+      let page: Page<Store>;
+      try {
+        page = await fetchStores(
+          request,
+          { channel, languageCode, first: STORES_PAGE_SIZE, after },
+          (fresh) =>
+            dispatch({ type: "storesRevalidated", stores: fresh.items }),
+        );
+      } catch (error) {
+        dispatch({ type: "storesFailed", after });
+        throw error;
+      }
+
+      // Stores of a channel or language the user switched away from are
+      // dropped.
+      if (catalogScopeRef.current !== catalogScope) {
+        dispatch({ type: "storesDiscarded" });
+        return;
+      }
+      dispatch({ type: "storesLoaded", page, after });
+    },
+    [catalogScope, channel, languageCode, request],
+  );
+
+  // Loads the next page of stores, unless one is loading or none is left.
+  const loadMoreStores = useCallback(async () => {
+    const { storesPageInfo, isLoadingStores } = stateRef.current;
+    if (!storesPageInfo?.hasNextPage || isLoadingStores) return;
+    await loadStores(storesPageInfo.endCursor);
+  }, [loadStores]);
+
+  const clearStores = useCallback(() => {
+    dispatch({ type: "storesCleared" });
+  }, []);
+
+  const loadStoreBySlug = useCallback(
+    (slug: string) =>
+      fetchStoreBySlug(request, { slug, channel, languageCode }),
+    [channel, languageCode, request],
+  );
+
+  // Looks in the loaded stores first; the store may also be on a page of the
+  // store grid that is not loaded. Resolves to null when it does not exist.
+  const findStore = useCallback(
+    async (slug: string) => {
+      const loaded = stateRef.current.stores.find(
+        (store) => store.slug === slug,
+      );
+      if (loaded) {
+        return loaded;
+      }
+      try {
+        return await loadStoreBySlug(slug);
+      } catch (error) {
+        console.error(error);
+        return null;
+      }
+    },
+    [loadStoreBySlug],
+  );
+
+  const openStore = useCallback((store: Store) => {
+    activeStoreSlugRef.current = store.slug;
+    dispatch({ type: "storeOpened", store });
+  }, []);
+
+  const closeStore = useCallback(() => {
+    activeStoreSlugRef.current = null;
+    dispatch({ type: "storeClosed" });
+  }, []);
+
+  const fetchMenuPage = useCallback(
+    async (store: Store, after: string | null) => {
+      dispatch({ type: "productsRequested" });
+      let page: Page<ProductFieldsFragment>;
+      try {
+        page = await fetchStoreProducts(
+          request,
+          {
+            id: store.id,
+            channel,
+            languageCode,
+            first: PRODUCTS_PAGE_SIZE,
+            after,
+          },
+          (fresh) => {
+            if (activeStoreSlugRef.current !== store.slug) return;
+            dispatch({ type: "productsRevalidated", products: fresh.items });
+          },
+        );
+      } catch (error) {
+        if (activeStoreSlugRef.current !== store.slug) {
+          dispatch({ type: "productsDiscarded" });
+          return null;
+        }
+        dispatch({ type: "productsFailed", after });
+        throw error;
+      }
+
+      // A page that arrives after the user switched stores is dropped.
+      if (activeStoreSlugRef.current !== store.slug) {
+        dispatch({ type: "productsDiscarded" });
+        return null;
+      }
+      return page;
+    },
+    [channel, languageCode, request],
+  );
+
+  // Loads the first menu page of a store opened with `openStore`. Resolves
+  // to its products by category, or `null` when the user left the store.
+  const loadMenu = useCallback(
+    async (store: Store) => {
+      const page = await fetchMenuPage(store, null);
+      if (!page) return null;
+      const productsByCategory = groupProductsByCategory(page.items);
+      dispatch({
+        type: "menuLoaded",
+        productsByCategory,
+        pageInfo: page.pageInfo,
+      });
+      return productsByCategory;
+    },
+    [fetchMenuPage],
+  );
+
+  const loadMoreProducts = useCallback(async () => {
+    const { selectedStore, productsPageInfo, isLoadingProducts } =
+      stateRef.current;
+    if (!selectedStore || !productsPageInfo?.hasNextPage || isLoadingProducts) {
+      return;
+    }
+    const page = await fetchMenuPage(selectedStore, productsPageInfo.endCursor);
+    if (page) {
+      dispatch({ type: "productsLoaded", page });
+    }
+  }, [fetchMenuPage]);
+
+  // Saved carts may reference products from pages that are not loaded yet.
+  const loadProductsBySlugs = useCallback(
+    (store: Store, slugs: string[]) =>
+      fetchProductsBySlugs(request, {
+        slugs,
+        collections: [store.id],
+        channel,
+        languageCode,
+        first: Math.min(slugs.length, 100),
+      }),
+    [channel, languageCode, request],
+  );
+
+  const loadProductsByIds = useCallback(
+    (store: Store, ids: string[], live = false) =>
+      fetchProductsByIds(live ? liveRequest : request, {
+        ids,
+        collections: [store.id],
+        channel,
+        languageCode,
+        first: Math.min(ids.length, 100),
+      }),
+    [channel, languageCode, liveRequest, request],
+  );
+
+  const refreshProducts = useCallback((products: Product[]) => {
+    dispatch({ type: "productsRefreshed", products });
+  }, []);
+
+  const selectCategory = useCallback((categoryId: string | null) => {
+    dispatch({ type: "categorySelected", categoryId });
+  }, []);
+
+  // Searches the given store collections, or every store of the channel
+  // when `collectionIds` is null. Each result opens in one of the searched
+  // stores it is listed in, preferring a store that is already loaded;
+  // products listed in none of them are left out.
+  const searchProducts = useCallback(
+    async (search: string, collectionIds: string[] | null) => {
+      const results = await fetchSearchResults(request, {
+        search,
+        channel,
+        languageCode,
+        collections: collectionIds,
+        first: SEARCH_PAGE_SIZE,
+      });
+
+      return results.flatMap(({ product, stores }): SearchResult[] => {
+        const searched = stores.filter(
+          ({ id }) => !collectionIds || collectionIds.includes(id),
+        );
+        const store =
+          stateRef.current.stores.find(({ id }) =>
+            searched.some((found) => found.id === id),
+          ) || searched[0];
+        return store ? [{ product, store }] : [];
+      });
+    },
+    [channel, languageCode, request],
+  );
+
+  const categories = useMemo(
+    () => sortCategories(state.productsByCategory),
+    [state.productsByCategory],
+  );
+  const selectedCategory = state.selectedCategoryId
+    ? state.productsByCategory.get(state.selectedCategoryId) || null
+    : null;
+
+  return {
+    ...state,
+    categories,
+    selectedCategory,
+    activeStoreSlugRef,
+    loadStores,
+    loadMoreStores,
+    clearStores,
+    loadStoreBySlug,
+    findStore,
+    openStore,
+    closeStore,
+    loadMenu,
+    loadMoreProducts,
+    loadProductsBySlugs,
+    loadProductsByIds,
+    refreshProducts,
+    selectCategory,
+    searchProducts,
+  };
+}
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from "react";
+
+import type { CachedRequest } from "../api/cache";
+import { fetchChannels, type Channel } from "../api/catalog";
+import { buildStorageKey, readStoredValue, writeStoredValue } from "../storage";
+import { pickChannel } from "./channels";
+
+type ChannelOptions = {
+  request: CachedRequest;
+  userId: number | undefined;
+  // Its region picks the channel when no choice is stored.
+  telegramLanguageCode: string | undefined;
+  // Channel used when the list cannot be loaded or matches nothing.
+  fallbackChannel: string;
+  isTelegram: boolean;
+};
+
+/**
+ * Loads the Saleor channels and picks the one to shop in. A stored choice is
+ * used right away; otherwise `channelSlug` stays null until the channel list
+ * arrives, so the channel can match the Telegram language region.
+ */
+export function useChannels({
+  request,
+  userId,
+  telegramLanguageCode,
+  fallbackChannel,
+  isTelegram,
+}: ChannelOptions) {
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [channelSlug, setChannelSlug] = useState<string | null>(null);
+  const storageKey = buildStorageKey(
+    "channel",
+    userId ? String(userId) : "guest",
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const stored = await readStoredValue(storageKey, isTelegram).catch(
+        () => null,
+      );
+      if (cancelled) return;
+      if (stored) {
+        setChannelSlug(stored);
+      }
+
+      let list: Channel[] = [];
+      try {
+        list = await fetchChannels(request);
+      } catch (error) {
+        console.warn("Unable to load channels.", error);
+      }
+      if (cancelled) return;
+      setChannels(list);
+      setChannelSlug(
+        pickChannel(list, stored, telegramLanguageCode, fallbackChannel),
+      );
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fallbackChannel, isTelegram, request, storageKey, telegramLanguageCode]);
+
+  const saleorChannel = channelSlug || fallbackChannel;
+
+  // Returns false when the channel is already selected.
+  const selectChannel = useCallback(
+    (slug: string) => {
+      if (slug === saleorChannel) return false;
+      setChannelSlug(slug);
+      writeStoredValue(storageKey, slug, isTelegram).catch((error) => {
+        console.warn("Unable to save the channel.", error);
+      });
+      return true;
+    },
+    [isTelegram, saleorChannel, storageKey],
+  );
+
+  return {
+    channels,
+    channelSlug,
+    saleorChannel,
+    activeChannel: channels.find(({ slug }) => slug === saleorChannel) || null,
+    selectChannel,
+  };
+}
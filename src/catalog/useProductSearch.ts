@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+
+import type { Store } from "../api/catalog";
+import type { MessageKey } from "../i18n";
+import type { SearchResult } from "./useCatalog";
+
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 350;
+
+/**
+ * Searches products as the query changes. Inside a store only its
+ * collection is searched, otherwise every store of the channel, including
+ * those on store grid pages that are not loaded.
+ */
+export function useProductSearch(
+  searchProducts: (
+    search: string,
+    collectionIds: string[] | null,
+  ) => Promise<SearchResult[]>,
+  selectedStore: Store | null,
+) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [message, setMessage] = useState<MessageKey | "">("");
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const search = query.trim();
+    const requestId = ++requestRef.current;
+    if (search.length < SEARCH_MIN_LENGTH) {
+      setResults([]);
+      setMessage("");
+      return;
+    }
+
+    const collectionIds = selectedStore ? [selectedStore.id] : null;
+
+    setMessage("search.searching");
+    const timer = window.setTimeout(() => {
+      searchProducts(search, collectionIds)
+        .then((found) => {
+          if (requestId !== requestRef.current) return;
+          setResults(found);
+          setMessage(found.length ? "" : "search.noResults");
+        })
+        .catch((error) => {
+          if (requestId !== requestRef.current) return;
+          console.error(error);
+          setResults([]);
+          setMessage("search.failed");
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [query, searchProducts, selectedStore]);
+
+  return {
+    query,
+    setQuery,
+    results,
+    message,
+    isSearching: query.trim().length >= SEARCH_MIN_LENGTH,
+  };
+}
+
+export type ProductSearch = ReturnType<typeof useProductSearch>;
@@ -0,0 +1,52 @@
+import { useCallback } from "react";
+
+import type { Product, Store } from "../api/catalog";
+import { buildMiniAppLink } from "../deepLinks";
+import type { Translator } from "../i18n";
+import { shareLink } from "../telegram/share";
+import type { ShowToast } from "../useToast";
+
+type ProductShareOptions = {
+  // Sharing is off without the bot username.
+  botUsername: string;
+  miniAppName: string;
+  store: Store | null;
+  i18n: Translator;
+  showToast: ShowToast;
+};
+
+/**
+ * Shares a `startapp` link that opens the product in the Mini App, or copies
+ * it where Telegram cannot open the share dialog.
+ */
+export function useProductShare({
+  botUsername,
+  miniAppName,
+  store,
+  i18n,
+  showToast,
+}: ProductShareOptions) {
+  const { t } = i18n;
+
+  const shareProduct = useCallback(
+    async (product: Product) => {
+      if (!store || !botUsername) return;
+      const link = buildMiniAppLink(botUsername, miniAppName, {
+        storeSlug: store.slug,
+        productSlug: product.slug,
+      });
+
+      try {
+        if ((await shareLink(link, product.name)) === "copied") {
+          showToast(t("links.copied"));
+        }
+      } catch (error) {
+        console.warn("Unable to copy the link.", error);
+        showToast(t("links.shareFailed"));
+      }
+    },
+    [botUsername, miniAppName, showToast, store, t],
+  );
+
+  return { canShare: Boolean(botUsername), shareProduct };
+}
@@ -0,0 +1,163 @@
+import type { Translator } from "../i18n";
+import {
+  ADDRESS_FIELDS,
+  CONTACT_FIELDS,
+  describeAddress,
+  describeCountry,
+  type FormField,
+} from "./addressForm";
+import type { CheckoutFlow } from "./useCheckout";
+
+type AddressStepProps = {
+  flow: CheckoutFlow;
+  // Countries of the channel, offered as a list instead of a code field.
+  countries: string[];
+  // Telegram can share the user's phone number.
+  canSharePhone: boolean;
+  i18n: Translator;
+};
+
+// The form is submitted by the sheet footer through its `address-form` id.
+export function AddressStep({
+  flow,
+  countries,
+  canSharePhone,
+  i18n,
+}: AddressStepProps) {
+  const { t } = i18n;
+  const { addressForm, addressErrors, fulfillment } = flow;
+
+  const renderField = (field: FormField) => {
+    const error = addressErrors[field.name];
+    const inputClassName = `checkout-field__input ${
+      error ? "checkout-field__input--invalid" : ""
+    }`;
+    const setValue = (value: string) => flow.setAddressField(field.name, value);
+
+    return (
+      <label className="checkout-field" key={field.name}>
+        <span className="checkout-field__label">
+          {t(field.label)}
+          {field.required ? " *" : ""}
+        </span>
+        {field.name === "country" && countries.length > 0 ? (
+          <select
+            className={inputClassName}
+            name={field.name}
+            autoComplete={field.autoComplete}
+            required={field.required}
+            value={addressForm.country}
+            onChange={(event) => setValue(event.target.value)}
+          >
+            {!countries.includes(addressForm.country) && (
+              <option value={addressForm.country}>{addressForm.country}</option>
+            )}
+            {countries.map((code) => (
+              <option key={code} value={code}>
+                {describeCountry(code, i18n.locale)}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type={field.name === "phone" ? "tel" : "text"}
+            className={inputClassName}
+            name={field.name}
+            autoComplete={field.autoComplete}
+            required={field.required}
+            maxLength={field.name === "country" ? 2 : undefined}
+            value={addressForm[field.name]}
+            onChange={(event) => setValue(event.target.value)}
+          />
+        )}
+        {field.name === "phone" && canSharePhone && (
+          <button
+            type="button"
+            className="checkout-field__action"
+            onClick={flow.sharePhone}
+          >
+            {t("address.sharePhone")}
+          </button>
+        )}
+        {error && <span className="checkout-field__error">{t(error)}</span>}
+      </label>
+    );
+  };
+
+  return (
+    <form
+      className="checkout-form"
+      id="address-form"
+      onSubmit={(event) => {
+        event.preventDefault();
+        flow.submitAddress();
+      }}
+    >
+      {flow.pickupAvailable && (
+        <div
+          className="fulfillment-toggle"
+          role="radiogroup"
+          aria-label={t("fulfillment.label")}
+        >
+          {(["delivery", "pickup"] as const).map((mode) => (
+            <button
+              type="button"
+              key={mode}
+              role="radio"
+              aria-checked={fulfillment === mode}
+              className={`option-chip ${
+                fulfillment === mode ? "option-chip--active" : ""
+              }`}
+              onClick={() => flow.setFulfillment(mode)}
+            >
+              {t(`fulfillment.${mode}`)}
+            </button>
+          ))}
+        </div>
+      )}
+      {CONTACT_FIELDS.map(renderField)}
+      <label className="checkout-field">
+        <span className="checkout-field__label">{t("address.email")}</span>
+        <input
+          type="email"
+          className={`checkout-field__input ${
+            addressErrors.email ? "checkout-field__input--invalid" : ""
+          }`}
+          name="email"
+          autoComplete="email"
+          value={flow.contactEmail}
+          onChange={(event) => flow.setEmail(event.target.value)}
+        />
+        {addressErrors.email && (
+          <span className="checkout-field__error">
+            {t(addressErrors.email)}
+          </span>
+        )}
+      </label>
+      {fulfillment === "delivery" && (
+        <>
+          {flow.addressBook.addresses.length > 0 && (
+            <div className="saved-addresses">
+              <span className="checkout-field__label">
+                {t("address.saved")}
+              </span>
+              <div className="saved-addresses__list">
+                {flow.addressBook.addresses.map((address) => (
+                  <button
+                    type="button"
+                    key={describeAddress(address)}
+                    className="option-chip"
+                    onClick={() => flow.pickSavedAddress(address)}
+                  >
+                    {describeAddress(address)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {ADDRESS_FIELDS.map(renderField)}
+        </>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,87 @@
+import type { Checkout } from "../api/checkout";
+import type { Translator } from "../i18n";
+import { findServiceFeeLine } from "./checkoutLines";
+
+type CheckoutTotalsProps = {
+  checkout: Checkout;
+  withShipping: boolean;
+  i18n: Translator;
+};
+
+// Saleor's own totals, including vouchers and gift cards.
+export function CheckoutTotals({
+  checkout,
+  withShipping,
+  i18n,
+}: CheckoutTotalsProps) {
+  const { t } = i18n;
+  // Saleor counts the service fee line in the subtotal; it is listed apart.
+  const fee = findServiceFeeLine(checkout)?.total || null;
+  const subtotal =
+    checkout.subtotal && fee?.currency === checkout.subtotal.currency
+      ? { ...checkout.subtotal, amount: checkout.subtotal.amount - fee.amount }
+      : checkout.subtotal;
+  return (
+    <>
+      <div className="order-summary__row">
+        <span>{t("common.subtotal")}</span>
+        <span>
+          {subtotal ? i18n.money(subtotal.amount, subtotal.currency) : "—"}
+        </span>
+      </div>
+      {fee && (
+        <div className="order-summary__row">
+          <span>{t("checkout.serviceFee")}</span>
+          <span>{i18n.money(fee.amount, fee.currency)}</span>
+        </div>
+      )}
+      {checkout.discount && (
+        <div className="order-summary__row order-summary__row--discount">
+          <span>
+            {checkout.discountName || checkout.voucherCode
+              ? t("checkout.discountNamed", {
+                  name: checkout.discountName || checkout.voucherCode || "",
+                })
+              : t("checkout.discount")}
+          </span>
+          <span>
+            −{i18n.money(checkout.discount.amount, checkout.discount.currency)}
+          </span>
+        </div>
+      )}
+      {withShipping && (
+        <div className="order-summary__row">
+          <span>{t("checkout.delivery")}</span>
+          <span>
+            {checkout.shipping && checkout.deliveryMethodId
+              ? i18n.money(checkout.shipping.amount, checkout.shipping.currency)
+              : "—"}
+          </span>
+        </div>
+      )}
+      {checkout.giftCards.map((card) => (
+        <div className="order-summary__row" key={card.id}>
+          <span>{t("checkout.giftCard", { code: card.last4CodeChars })}</span>
+          <span className="order-line__meta">
+            {card.currentBalance
+              ? t("checkout.giftCardBalance", {
+                  balance: i18n.money(
+                    card.currentBalance.amount,
+                    card.currentBalance.currency,
+                  ),
+                })
+              : ""}
+          </span>
+        </div>
+      ))}
+      <div className="order-summary__row">
+        <span>{t("common.total")}</span>
+        <strong>
+          {checkout.total
+            ? i18n.money(checkout.total.amount, checkout.total.currency)
+            : "—"}
+        </strong>
+      </div>
+    </>
+  );
+}
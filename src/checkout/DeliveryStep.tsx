@@ -0,0 +1,80 @@
+import type { Checkout } from "../api/checkout";
+import type { Translator } from "../i18n";
+import { describeAddress } from "./addressForm";
+import { CheckoutTotals } from "./CheckoutTotals";
+import { describeDeliveryTime } from "./delivery";
+import type { CheckoutFlow } from "./useCheckout";
+
+type DeliveryStepProps = {
+  checkout: Checkout;
+  flow: CheckoutFlow;
+  i18n: Translator;
+};
+
+export function DeliveryStep({ checkout, flow, i18n }: DeliveryStepProps) {
+  const { t } = i18n;
+  return (
+    <>
+      {flow.fulfillment === "pickup" ? (
+        <div className="delivery-methods" role="radiogroup">
+          {checkout.collectionPoints.map((point) => (
+            <label className="delivery-method" key={point.id}>
+              <input
+                type="radio"
+                name="collection-point"
+                checked={checkout.deliveryMethodId === point.id}
+                disabled={flow.isSubmitting}
+                onChange={() => flow.chooseCollectionPoint(point)}
+              />
+              <span className="order-line__info">
+                <span className="order-line__title">{point.name}</span>
+                {point.address && (
+                  <span className="order-line__meta">
+                    {describeAddress(point.address)}
+                  </span>
+                )}
+              </span>
+            </label>
+          ))}
+        </div>
+      ) : checkout.isShippingRequired ? (
+        <div className="delivery-methods" role="radiogroup">
+          {checkout.shippingMethods.map((method) => (
+            <label className="delivery-method" key={method.id}>
+              <input
+                type="radio"
+                name="delivery-method"
+                checked={checkout.deliveryMethodId === method.id}
+                disabled={flow.isSubmitting}
+                onChange={() => flow.chooseDeliveryMethod(method.id)}
+              />
+              <span className="order-line__info">
+                <span className="order-line__title">{method.name}</span>
+                <span className="order-line__meta">
+                  {describeDeliveryTime(
+                    method.minimumDeliveryDays,
+                    method.maximumDeliveryDays,
+                    i18n,
+                  )}
+                </span>
+              </span>
+              <span className="order-line__total">
+                {method.price
+                  ? i18n.money(method.price.amount, method.price.currency)
+                  : "—"}
+              </span>
+            </label>
+          ))}
+          {!checkout.shippingMethods.length && (
+            <p className="order-line__meta">{t("checkout.noDelivery")}</p>
+          )}
+        </div>
+      ) : (
+        <p className="order-line__meta">{t("checkout.noDeliveryNeeded")}</p>
+      )}
+      <div className="order-summary" id="checkout-summary">
+        <CheckoutTotals checkout={checkout} withShipping i18n={i18n} />
+      </div>
+    </>
+  );
+}
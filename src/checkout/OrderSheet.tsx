@@ -0,0 +1,186 @@
+import type { CartUpdate } from "../cart/CartControl";
+import type { CartState, CartSummary } from "../cart/cartStore";
+import type { MessageKey, Translator } from "../i18n";
+import type { CheckoutStep } from "../router";
+import { AddressStep } from "./AddressStep";
+import { hasDeliveryMethod } from "./delivery";
+import { DeliveryStep } from "./DeliveryStep";
+import { PaymentStep } from "./PaymentStep";
+import { ReviewStep } from "./ReviewStep";
+import type { CheckoutFlow } from "./useCheckout";
+
+const CHECKOUT_STEP_TITLES: Record<CheckoutStep, MessageKey> = {
+  review: "checkout.step.review",
+  address: "checkout.step.address",
+  delivery: "checkout.step.delivery",
+  payment: "checkout.step.payment",
+};
+
+type OrderSheetProps = {
+  visible: boolean;
+  step: CheckoutStep;
+  cart: CartState;
+  summary: CartSummary;
+  storeName: string;
+  flow: CheckoutFlow;
+  countries: string[];
+  isTelegram: boolean;
+  i18n: Translator;
+  onBack: () => void;
+  onClose: () => void;
+  onCartChange: CartUpdate;
+};
+
+export function OrderSheet({
+  visible,
+  step,
+  cart,
+  summary,
+  storeName,
+  flow,
+  countries,
+  isTelegram,
+  i18n,
+  onBack,
+  onClose,
+  onCartChange,
+}: OrderSheetProps) {
+  const { t } = i18n;
+  const { checkout, isSubmitting, paymentStatus } = flow;
+  return (
+    <div
+      id="order-sheet"
+      className={`order-sheet ${visible ? "order-sheet--visible" : ""}`}
+      aria-hidden={!visible}
+    >
+      <div
+        className="order-sheet__panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="order-sheet-title"
+      >
+        <header className="order-sheet__header">
+          {step !== "review" && (
+            <button
+              type="button"
+              className="order-sheet__close"
+              id="order-back-btn"
+              aria-label={t("common.back")}
+              onClick={onBack}
+            >
+              ‹
+            </button>
+          )}
+          <h2 id="order-sheet-title">
+            {step === "delivery" && flow.fulfillment === "pickup"
+              ? t("checkout.step.pickup")
+              : t(CHECKOUT_STEP_TITLES[step])}
+          </h2>
+          <button
+            type="button"
+            className="order-sheet__close"
+            id="order-close-btn"
+            aria-label={t("common.close")}
+            onClick={onClose}
+          >
+            ×
+          </button>
+        </header>
+        <div className="order-sheet__body">
+          {step === "review" && (
+            <ReviewStep
+              cart={cart.entries}
+              changes={cart.changes}
+              summary={summary}
+              storeName={storeName}
+              flow={flow}
+              i18n={i18n}
+              onCartChange={onCartChange}
+            />
+          )}
+          {step === "address" && (
+            <AddressStep
+              flow={flow}
+              countries={countries}
+              canSharePhone={isTelegram}
+              i18n={i18n}
+            />
+          )}
+          {step === "payment" && checkout && (
+            <PaymentStep
+              checkout={checkout}
+              status={paymentStatus}
+              i18n={i18n}
+            />
+          )}
+          {step === "delivery" && checkout && (
+            <DeliveryStep checkout={checkout} flow={flow} i18n={i18n} />
+          )}
+        </div>
+        <footer className="order-sheet__footer">
+          {step === "review" && (
+            <button
+              type="button"
+              className="cta-button"
+              id="order-submit-btn"
+              disabled={
+                summary.items === 0 ||
+                summary.mixedCurrencies ||
+                Boolean(flow.unmetRule) ||
+                isSubmitting
+              }
+              onClick={flow.continueToAddress}
+            >
+              {isSubmitting ? t("common.saving") : t("common.continue")}
+            </button>
+          )}
+          {step === "address" && (
+            <button
+              type="submit"
+              form="address-form"
+              className="cta-button"
+              id="address-submit-btn"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? t("common.saving") : t("common.continue")}
+            </button>
+          )}
+          {step === "delivery" && (
+            <button
+              type="button"
+              className="cta-button"
+              id="order-place-btn"
+              disabled={
+                isSubmitting ||
+                !checkout ||
+                !hasDeliveryMethod(checkout, flow.fulfillment)
+              }
+              onClick={flow.placeOrder}
+            >
+              {isSubmitting
+                ? t("checkout.placing")
+                : flow.needsPayment
+                  ? t("checkout.toPayment")
+                  : t("checkout.placeOrder")}
+            </button>
+          )}
+          {step === "payment" && (
+            <button
+              type="button"
+              className="cta-button"
+              id="order-pay-btn"
+              disabled={isSubmitting || paymentStatus === "paid"}
+              onClick={flow.payForOrder}
+            >
+              {isSubmitting
+                ? t("checkout.waitingForPayment")
+                : paymentStatus === "idle"
+                  ? t("checkout.pay")
+                  : t("checkout.tryAgain")}
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { Checkout } from "../api/checkout";
+import type { MessageKey, Translator } from "../i18n";
+import type { PaymentStatus } from "./payments";
+
+const PAYMENT_STATUS_MESSAGES: Record<PaymentStatus, MessageKey> = {
+  idle: "payment.idle",
+  paid: "payment.paid",
+  pending: "payment.pending",
+  cancelled: "payment.cancelled",
+  failed: "payment.failed",
+};
+
+type PaymentStepProps = {
+  checkout: Checkout;
+  status: PaymentStatus;
+  i18n: Translator;
+};
+
+export function PaymentStep({ checkout, status, i18n }: PaymentStepProps) {
+  const { t } = i18n;
+  return (
+    <div className="payment-step">
+      <p className={`payment-status payment-status--${status}`} role="status">
+        {t(PAYMENT_STATUS_MESSAGES[status])}
+      </p>
+      <div className="order-summary">
+        <div className="order-summary__row">
+          <span>{t("checkout.toPay")}</span>
+          <strong>
+            {checkout.total
+              ? i18n.money(checkout.total.amount, checkout.total.currency)
+              : "—"}
+          </strong>
+        </div>
+      </div>
+    </div>
+  );
+}
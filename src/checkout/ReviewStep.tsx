@@ -0,0 +1,230 @@
+import { QuantityCounter, type CartUpdate } from "../cart/CartControl";
+import {
+  getUnitPrice,
+  type CartChanges,
+  type CartEntry,
+  type CartSummary,
+} from "../cart/cartStore";
+import { describeCartChange } from "../cart/savedCart";
+import { describeOptions } from "../catalog/options";
+import { describeVariant } from "../catalog/products";
+import type { Translator } from "../i18n";
+import { CheckoutTotals } from "./CheckoutTotals";
+import type { CheckoutFlow } from "./useCheckout";
+
+type ReviewStepProps = {
+  cart: Map<string, CartEntry>;
+  changes: CartChanges | null;
+  summary: CartSummary;
+  storeName: string;
+  flow: CheckoutFlow;
+  i18n: Translator;
+  onCartChange: CartUpdate;
+};
+
+export function ReviewStep({
+  cart,
+  changes,
+  summary,
+  storeName,
+  flow,
+  i18n,
+  onCartChange,
+}: ReviewStepProps) {
+  const { t } = i18n;
+  const { checkout, isSubmitting, promoCode } = flow;
+  return (
+    <>
+      {changes && (
+        <div className="cart-changes" role="status">
+          {changes.lines.size > 0 && <p>{t("cart.checkChanged")}</p>}
+          {changes.removed.length > 0 && (
+            <p>
+              {t("cart.checkRemoved", {
+                items: changes.removed.join(", "),
+              })}
+            </p>
+          )}
+        </div>
+      )}
+      <div id="order-items" className="order-lines">
+        {summary.items === 0 ? (
+          <p className="order-line__meta">{t("cart.empty")}</p>
+        ) : (
+          Array.from(cart.entries()).map(
+            ([key, { product, variant, options, quantity }]) => {
+              const unitPrice = getUnitPrice(variant, options);
+              const change = changes?.lines.get(key);
+              return (
+                <div
+                  className={`order-line ${change ? "order-line--changed" : ""}`}
+                  key={key}
+                >
+                  <div className="order-line__info">
+                    <p className="order-line__title">
+                      {quantity} × {product.name}
+                    </p>
+                    <span className="order-line__meta">
+                      {describeVariant(variant, i18n)}
+                    </span>
+                    {options.length > 0 && (
+                      <span className="order-line__meta">
+                        {describeOptions(
+                          options,
+                          variant.priceCurrency || "",
+                          i18n,
+                        )}
+                      </span>
+                    )}
+                    {change && (
+                      <span className="order-line__change">
+                        {describeCartChange(change, variant, i18n)}
+                      </span>
+                    )}
+                    <QuantityCounter
+                      cart={cart}
+                      product={product}
+                      variant={variant}
+                      options={options}
+                      quantity={quantity}
+                      onChange={onCartChange}
+                    />
+                  </div>
+                  <div className="order-line__total">
+                    {unitPrice != null && variant.priceCurrency
+                      ? i18n.money(unitPrice * quantity, variant.priceCurrency)
+                      : "—"}
+                  </div>
+                </div>
+              );
+            },
+          )
+        )}
+      </div>
+      {(flow.unmetRule || flow.serviceFeeNote) && (
+        <div className="order-rules" id="order-rules" role="status">
+          {flow.unmetRule && (
+            <p className="order-rules__unmet">{flow.unmetRule}</p>
+          )}
+          {flow.serviceFeeNote && <p>{flow.serviceFeeNote}</p>}
+        </div>
+      )}
+      {flow.canSchedule && summary.items > 0 && (
+        <label className="checkout-field" htmlFor="order-time-select">
+          <span className="checkout-field__label">{t("hours.orderTime")}</span>
+          <select
+            className="checkout-field__input"
+            id="order-time-select"
+            value={flow.orderTime || ""}
+            disabled={isSubmitting}
+            onChange={(event) => flow.setOrderTime(event.target.value || null)}
+          >
+            <option value="" disabled={!flow.storeOpen}>
+              {flow.storeOpen ? t("hours.asap") : t("hours.chooseTime")}
+            </option>
+            {flow.timeSlots.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {!flow.storeOpen && !flow.orderTime && (
+            <span className="checkout-field__error">
+              {flow.timeSlots.length
+                ? t("hours.closedChooseTime")
+                : t("hours.closedNoTimes")}
+            </span>
+          )}
+        </label>
+      )}
+      {summary.items > 0 && !summary.mixedCurrencies && (
+        <form
+          className="promo-form"
+          id="promo-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            flow.applyPromoCode();
+          }}
+        >
+          <input
+            className="checkout-field__input promo-form__input"
+            id="promo-code-input"
+            placeholder={t("promo.placeholder")}
+            aria-label={t("promo.placeholder")}
+            autoComplete="off"
+            enterKeyHint="done"
+            value={promoCode}
+            onChange={(event) => flow.setPromoCode(event.target.value)}
+          />
+          <button
+            type="submit"
+            className="option-chip"
+            id="promo-apply-btn"
+            disabled={isSubmitting || !promoCode.trim()}
+          >
+            {t("promo.apply")}
+          </button>
+        </form>
+      )}
+      {checkout && (checkout.voucherCode || checkout.giftCards.length > 0) && (
+        <div className="promo-codes" id="promo-codes">
+          {checkout.voucherCode && (
+            <button
+              type="button"
+              className="option-chip option-chip--active"
+              aria-label={t("promo.remove", {
+                code: checkout.voucherCode,
+              })}
+              disabled={isSubmitting}
+              onClick={() =>
+                flow.removeAppliedCode({
+                  promoCode: checkout.voucherCode!,
+                })
+              }
+            >
+              {checkout.voucherCode} ×
+            </button>
+          )}
+          {checkout.giftCards.map((card) => (
+            <button
+              type="button"
+              key={card.id}
+              className="option-chip option-chip--active"
+              aria-label={t("promo.remove", {
+                code: `••••${card.last4CodeChars}`,
+              })}
+              disabled={isSubmitting}
+              onClick={() => flow.removeAppliedCode({ promoCodeId: card.id })}
+            >
+              ••••{card.last4CodeChars} ×
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="order-summary" id="order-summary">
+        {checkout && flow.checkoutInSync ? (
+          <CheckoutTotals
+            checkout={checkout}
+            withShipping={false}
+            i18n={i18n}
+          />
+        ) : (
+          <div className="order-summary__row">
+            <span>{t("common.subtotal")}</span>
+            <strong>
+              {summary.items === 0
+                ? "—"
+                : summary.mixedCurrencies
+                  ? t("common.mixedCurrencies")
+                  : i18n.money(summary.total.amount, summary.total.currency)}
+            </strong>
+          </div>
+        )}
+        <div className="order-summary__row">
+          <span>{t("cart.store")}</span>
+          <span>{storeName || "—"}</span>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { buildPseudoEmail, resolveCheckoutEmail } from "./addressForm";
+
+describe("checkout email", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("derives an address from the Telegram account", () => {
+    expect(buildPseudoEmail({ id: 42, username: "barista" })).toBe(
+      "barista@telegram.local",
+    );
+    expect(buildPseudoEmail({ id: 42 })).toBe("user42@telegram.local");
+  });
+
+  it("falls back to a unique guest address", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    expect(buildPseudoEmail(null)).toBe("guest+1700000000000@telegram.local");
+  });
+
+  it("prefers a valid typed email", () => {
+    expect(resolveCheckoutEmail(" me@example.com ", { id: 42 })).toBe(
+      "me@example.com",
+    );
+    expect(resolveCheckoutEmail("not an email", { id: 42 })).toBe(
+      "user42@telegram.local",
+    );
+  });
+});
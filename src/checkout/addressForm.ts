@@ -0,0 +1,178 @@
+import type { AddressInput } from "../api/checkout";
+import type { MessageKey } from "../i18n";
+import type { AddressBook } from "./addressStorage";
+
+export type Fulfillment = "delivery" | "pickup";
+
+export type AddressErrors = Partial<
+  Record<keyof AddressInput | "email", MessageKey>
+>;
+
+export type FormField = {
+  name: keyof AddressInput;
+  label: MessageKey;
+  required: boolean;
+  autoComplete: string;
+};
+
+export const EMPTY_ADDRESS: AddressInput = {
+  firstName: "",
+  lastName: "",
+  streetAddress1: "",
+  streetAddress2: "",
+  city: "",
+  postalCode: "",
+  country: "",
+  countryArea: "",
+  phone: "",
+};
+
+// Pickup orders only need the contact fields.
+export const CONTACT_FIELDS: FormField[] = [
+  {
+    name: "firstName",
+    label: "address.firstName",
+    required: true,
+    autoComplete: "given-name",
+  },
+  {
+    name: "lastName",
+    label: "address.lastName",
+    required: true,
+    autoComplete: "family-name",
+  },
+  {
+    name: "phone",
+    label: "address.phone",
+    required: true,
+    autoComplete: "tel",
+  },
+];
+
+export const ADDRESS_FIELDS: FormField[] = [
+  {
+    name: "streetAddress1",
+    label: "address.streetAddress1",
+    required: true,
+    autoComplete: "address-line1",
+  },
+  {
+    name: "streetAddress2",
+    label: "address.streetAddress2",
+    required: false,
+    autoComplete: "address-line2",
+  },
+  {
+    name: "city",
+    label: "address.city",
+    required: true,
+    autoComplete: "address-level2",
+  },
+  {
+    name: "postalCode",
+    label: "address.postalCode",
+    required: false,
+    autoComplete: "postal-code",
+  },
+  {
+    name: "countryArea",
+    label: "address.countryArea",
+    required: false,
+    autoComplete: "address-level1",
+  },
+  {
+    name: "country",
+    label: "address.country",
+    required: true,
+    autoComplete: "country",
+  },
+];
+
+const PHONE_PATTERN = /^\+?[0-9][0-9\s()-]{5,19}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validateAddressForm(
+  form: AddressInput,
+  email: string,
+  fulfillment: Fulfillment,
+): AddressErrors {
+  const errors: AddressErrors = {};
+  const fields =
+    fulfillment === "pickup"
+      ? CONTACT_FIELDS
+      : [...CONTACT_FIELDS, ...ADDRESS_FIELDS];
+  fields.forEach(({ name, required }) => {
+    if (required && !form[name].trim()) {
+      errors[name] = "address.required";
+    }
+  });
+
+  const phone = form.phone.trim();
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    errors.phone = "address.invalidPhone";
+  }
+  if (email.trim() && !EMAIL_PATTERN.test(email.trim())) {
+    errors.email = "address.invalidEmail";
+  }
+  const country = form.country.trim();
+  if (fulfillment === "delivery" && country && !/^[A-Za-z]{2}$/.test(country)) {
+    errors.country = "address.invalidCountry";
+  }
+  return errors;
+}
+
+// Fills an untouched form from the address book; typed values win.
+export function prefillAddress(
+  form: AddressInput,
+  book: AddressBook,
+): AddressInput {
+  const [latest] = book.addresses;
+  const next =
+    latest && !form.streetAddress1.trim() ? { ...form, ...latest } : form;
+  return {
+    ...next,
+    firstName: form.firstName || book.contact?.firstName || next.firstName,
+    lastName: form.lastName || book.contact?.lastName || next.lastName,
+    phone: form.phone || book.contact?.phone || next.phone,
+  };
+}
+
+export function describeAddress(address: AddressInput) {
+  return [address.streetAddress1, address.streetAddress2, address.city]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function describeCountry(code: string, locale: string) {
+  try {
+    return new Intl.DisplayNames([locale], { type: "region" }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+// The checkout email: the one the customer typed when it is valid,
+// otherwise an address derived from the Telegram account.
+export function resolveCheckoutEmail(
+  email: string,
+  userData: { id?: number; username?: string } | null,
+) {
+  const typed = email.trim();
+  return EMAIL_PATTERN.test(typed) ? typed : buildPseudoEmail(userData);
+}
+
+export function buildPseudoEmail(
+  userData: { id?: number; username?: string } | null,
+) {
+  if (!userData) {
+    return `guest+${Date.now()}@telegram.local`;
+  }
+  if (userData.username) {
+    return `${userData.username}@telegram.local`;
+  }
+  const safeId = userData.id
+    ? String(userData.id).replace(/\D+/g, "")
+    : Date.now();
+  return `user${safeId}@telegram.local`;
+}
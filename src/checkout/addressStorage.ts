@@ -0,0 +1,102 @@
+import type { AddressInput } from "../api/checkout";
+import { buildStorageKey, readStoredValue, writeStoredValue } from "../storage";
+
+export type SavedContact = {
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email: string;
+};
+
+export type AddressBook = {
+  contact: SavedContact | null;
+  // Most recently used first.
+  addresses: AddressInput[];
+};
+
+type SavedAddressBook = AddressBook & {
+  version: 1;
+  savedAt: number;
+};
+
+const ADDRESS_BOOK_VERSION = 1;
+const MAX_SAVED_ADDRESSES = 5;
+
+export const EMPTY_ADDRESS_BOOK: AddressBook = { contact: null, addresses: [] };
+
+export function buildAddressBookKey(
+  userId: number | string | null | undefined,
+) {
+  return buildStorageKey("addresses", userId ? String(userId) : "guest");
+}
+
+export async function readAddressBook(
+  key: string,
+  isTelegram: boolean,
+): Promise<AddressBook> {
+  const raw = await readStoredValue(key, isTelegram);
+  if (!raw) {
+    return EMPTY_ADDRESS_BOOK;
+  }
+
+  try {
+    const payload = JSON.parse(raw) as Partial<SavedAddressBook>;
+    if (
+      payload.version !== ADDRESS_BOOK_VERSION ||
+      !Array.isArray(payload.addresses)
+    ) {
+      return EMPTY_ADDRESS_BOOK;
+    }
+    return {
+      contact: payload.contact || null,
+      addresses: payload.addresses.filter(
+        (address) => address?.streetAddress1 && address.country,
+      ),
+    };
+  } catch {
+    return EMPTY_ADDRESS_BOOK;
+  }
+}
+
+export async function writeAddressBook(
+  key: string,
+  book: AddressBook,
+  isTelegram: boolean,
+) {
+  const payload: SavedAddressBook = {
+    version: ADDRESS_BOOK_VERSION,
+    savedAt: Date.now(),
+    ...book,
+  };
+  await writeStoredValue(key, JSON.stringify(payload), isTelegram);
+}
+
+/**
+ * Moves `address` to the front of the book, replacing an entry for the same
+ * place, and keeps at most `MAX_SAVED_ADDRESSES` entries.
+ */
+export function rememberAddress(
+  book: AddressBook,
+  address: AddressInput,
+): AddressBook {
+  const place = describePlace(address);
+  return {
+    ...book,
+    addresses: [
+      address,
+      ...book.addresses.filter((saved) => describePlace(saved) !== place),
+    ].slice(0, MAX_SAVED_ADDRESSES),
+  };
+}
+
+function describePlace(address: AddressInput) {
+  return [
+    address.streetAddress1,
+    address.streetAddress2,
+    address.city,
+    address.postalCode,
+    address.country,
+  ]
+    .map((part) => part.trim().toLowerCase())
+    .join("|");
+}
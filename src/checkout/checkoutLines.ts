@@ -0,0 +1,82 @@
+import type { Checkout, CheckoutLineInput } from "../api/checkout";
+import { getUnitPrice, type CartEntry } from "../cart/cartStore";
+import { describeOptions } from "../catalog/options";
+import type { Translator } from "../i18n";
+
+// The service fee is a checkout line of its own, told apart by its
+// `cart_key`.
+export const SERVICE_FEE_KEY = "service_fee";
+
+export function buildCheckoutLine(
+  key: string,
+  { variant, options, quantity }: CartEntry,
+  i18n: Translator,
+): CheckoutLineInput {
+  const metadata = [{ key: "cart_key", value: key }];
+
+  // Saleor has no native line options, so they travel as line metadata. The
+  // GraphQL proxy prices the line from the choices in its `cart_key`.
+  if (options.length) {
+    metadata.push(
+      {
+        key: "order_options",
+        value: describeOptions(options, variant.priceCurrency || "", i18n),
+      },
+      {
+        key: "order_options_json",
+        value: JSON.stringify(
+          options.map(({ groupSlug, choice }) => ({
+            group: groupSlug,
+            value: choice.name,
+            priceDelta: choice.priceDelta,
+          })),
+        ),
+      },
+      {
+        key: "order_options_unit_price",
+        value: String(getUnitPrice(variant, options)),
+      },
+    );
+  }
+
+  // Every cart entry maps to its own checkout line so that the line can be
+  // found again by its `cart_key` when quantities change.
+  return {
+    quantity,
+    variantId: variant.id,
+    forceNewLine: true,
+    metadata,
+  };
+}
+
+export function buildServiceFeeLine(variantId: string): CheckoutLineInput {
+  return {
+    quantity: 1,
+    variantId,
+    forceNewLine: true,
+    metadata: [{ key: "cart_key", value: SERVICE_FEE_KEY }],
+  };
+}
+
+export function findServiceFeeLine(checkout: Checkout) {
+  return checkout.lines.find(({ cartKey }) => cartKey === SERVICE_FEE_KEY);
+}
+
+// Server totals only apply while the checkout has the same lines as the cart.
+export function checkoutMatchesCart(
+  checkout: Checkout,
+  cart: Map<string, CartEntry>,
+) {
+  const entries = Array.from(cart.entries()).filter(
+    ([, { variant }]) => variant.priceAmount != null,
+  );
+  const lines = checkout.lines.filter(
+    ({ cartKey }) => cartKey !== SERVICE_FEE_KEY,
+  );
+  return (
+    lines.length === entries.length &&
+    entries.every(([key, { quantity }]) =>
+      lines.some((line) => line.cartKey === key && line.quantity === quantity),
+    )
+  );
+}
@@ -0,0 +1,60 @@
+import type { OpeningHours } from "../api/catalog";
+import type { Checkout, MetadataEntry } from "../api/checkout";
+import type { Translator } from "../i18n";
+import type { Fulfillment } from "./addressForm";
+
+// The chosen method must match the mode; switching from pickup to delivery
+// leaves the collection point selected until a shipping method is picked.
+export function hasDeliveryMethod(
+  checkout: Checkout,
+  fulfillment: Fulfillment,
+) {
+  if (!checkout.isShippingRequired) return true;
+  const options =
+    fulfillment === "pickup"
+      ? checkout.collectionPoints
+      : checkout.shippingMethods;
+  return options.some(({ id }) => id === checkout.deliveryMethodId);
+}
+
+export function describeDeliveryTime(
+  minimumDays: number | null,
+  maximumDays: number | null,
+  i18n: Translator,
+) {
+  if (minimumDays == null && maximumDays == null) return "";
+  if (
+    minimumDays != null &&
+    maximumDays != null &&
+    minimumDays !== maximumDays
+  ) {
+    return i18n.t("delivery.dayRange", { min: minimumDays, max: maximumDays });
+  }
+  const days = maximumDays ?? minimumDays!;
+  return days === 0
+    ? i18n.t("delivery.today")
+    : i18n.t("delivery.days", { count: days });
+}
+
+// `order_time` holds an ISO timestamp or `asap`; `order_time_local` repeats
+// a scheduled time on the store's clock for the staff handling the order.
+export function buildOrderTimeMetadata(
+  orderTime: string | null,
+  hours: OpeningHours,
+): MetadataEntry[] {
+  const localTime = orderTime
+    ? new Intl.DateTimeFormat("en-GB", {
+        timeZone: hours.timeZone,
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        timeZoneName: "short",
+      }).format(new Date(orderTime))
+    : "";
+  return [
+    { key: "order_time", value: orderTime || "asap" },
+    { key: "order_time_local", value: localTime },
+  ];
+}
@@ -0,0 +1,101 @@
+import { invoice } from "@tma.js/sdk-react";
+
+import type { Checkout, CompletedOrder } from "../api/checkout";
+
+export type PaymentStatus =
+  "idle" | "paid" | "pending" | "cancelled" | "failed";
+
+export type InvoiceLink =
+  { paid: false; invoiceUrl: string } | { paid: true; invoiceUrl?: undefined };
+
+// The bot webhook places the order once Telegram reports the payment, which
+// usually takes a few seconds after the invoice closes.
+const ORDER_POLL_INTERVAL_MS = 2000;
+const ORDER_POLL_ATTEMPTS = 15;
+
+/**
+ * Asks the `/api/invoice` Function for the checkout's invoice link. The same
+ * link comes back on every retry, and a checkout that is already charged gets
+ * `paid: true` instead of a new invoice.
+ */
+export async function requestInvoiceLink(
+  apiUrl: string,
+  checkoutId: string,
+  authHeader: string | null,
+): Promise<InvoiceLink> {
+  const response = await fetch(apiUrl, {
+    method: "POST",
+    headers: buildHeaders(authHeader, { "Content-Type": "application/json" }),
+    body: JSON.stringify({ checkoutId }),
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (payload?.paid === true && response.ok) {
+    return { paid: true };
+  }
+  if (!response.ok || !payload?.invoiceUrl) {
+    throw new Error(
+      payload?.error || `Invoice request failed (${response.status}).`,
+    );
+  }
+
+  return { paid: false, invoiceUrl: payload.invoiceUrl as string };
+}
+
+/**
+ * Polls `/api/invoice` until the paid checkout has become an order. Failed
+ * requests are retried like an order that is not there yet; null means the
+ * order did not show up in time.
+ */
+export async function waitForOrder(
+  apiUrl: string,
+  checkoutId: string,
+  authHeader: string | null,
+): Promise<CompletedOrder | null> {
+  const url = `${apiUrl}?checkoutId=${encodeURIComponent(checkoutId)}`;
+  for (let attempt = 1; attempt <= ORDER_POLL_ATTEMPTS; attempt += 1) {
+    try {
+      const response = await fetch(url, { headers: buildHeaders(authHeader) });
+      const payload = await response.json().catch(() => null);
+      if (response.ok && payload?.order) {
+        return payload.order as CompletedOrder;
+      }
+    } catch (error) {
+      console.error(error);
+    }
+    if (attempt < ORDER_POLL_ATTEMPTS) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, ORDER_POLL_INTERVAL_MS),
+      );
+    }
+  }
+  return null;
+}
+
+export async function openInvoice(invoiceUrl: string): Promise<PaymentStatus> {
+  if (!invoice.openUrl.isAvailable()) {
+    throw new Error("Payments are only available inside Telegram.");
+  }
+
+  const status = await invoice.openUrl(invoiceUrl);
+  switch (status) {
+    case "paid":
+    case "pending":
+    case "cancelled":
+      return status;
+    default:
+      return "failed";
+  }
+}
+
+function buildHeaders(authHeader: string | null, headers: HeadersInit = {}) {
+  return authHeader ? { ...headers, Authorization: authHeader } : headers;
+}
+
+// A gift card may cover the whole order, leaving nothing to pay.
+export function needsPayment(
+  checkout: Checkout | null,
+  paymentsApiUrl: string,
+) {
+  return Boolean(paymentsApiUrl) && checkout?.total?.amount !== 0;
+}
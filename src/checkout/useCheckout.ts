@@ -0,0 +1,718 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import type { OpeningHours, OrderRules } from "../api/catalog";
+import {
+  addCheckoutLines,
+  addPromoCode,
+  completeCheckout,
+  createCheckout,
+  deleteCheckoutLines,
+  removePromoCode,
+  updateBillingAddress,
+  updateCheckoutAddresses,
+  updateCheckoutEmail,
+  updateCheckoutLines,
+  updateCheckoutMetadata,
+  updateDeliveryMethod,
+  type AddressInput,
+  type Checkout,
+  type CollectionPoint,
+  type CompletedOrder,
+  type GraphQLRequest,
+} from "../api/checkout";
+import type { LanguageCodeEnum } from "../api/generated";
+import type { CartEntry, CartSummary } from "../cart/cartStore";
+import {
+  describeServiceFee,
+  describeUnmetRule,
+  serviceFeeApplies,
+} from "../cart/orderRules";
+import {
+  buildTimeSlots,
+  formatStoreTime,
+  isStoreOpen,
+} from "../catalog/storeHours";
+import { errorMessage } from "../errors";
+import type { MessageKey, Translator } from "../i18n";
+import type { CheckoutStep } from "../router";
+import { requestPhoneNumber } from "../telegram/contact";
+import {
+  EMPTY_ADDRESS,
+  prefillAddress,
+  resolveCheckoutEmail,
+  validateAddressForm,
+  type AddressErrors,
+  type Fulfillment,
+} from "./addressForm";
+import {
+  EMPTY_ADDRESS_BOOK,
+  readAddressBook,
+  rememberAddress,
+  writeAddressBook,
+  type AddressBook,
+} from "./addressStorage";
+import {
+  buildCheckoutLine,
+  buildServiceFeeLine,
+  checkoutMatchesCart,
+  findServiceFeeLine,
+  SERVICE_FEE_KEY,
+} from "./checkoutLines";
+import { buildOrderTimeMetadata, hasDeliveryMethod } from "./delivery";
+import {
+  needsPayment,
+  openInvoice,
+  requestInvoiceLink,
+  waitForOrder,
+  type PaymentStatus,
+} from "./payments";
+
+type Customer = {
+  id?: number;
+  username?: string;
+  firstName?: string;
+  lastName?: string;
+};
+
+type CheckoutOptions = {
+  request: GraphQLRequest;
+  cart: Map<string, CartEntry>;
+  summary: CartSummary;
+  storeSlug: string;
+  // Outside the store's opening hours orders must be scheduled.
+  hours: OpeningHours | null;
+  now: Date;
+  // Minimum amount, item limit and service fee of the store.
+  rules: OrderRules | null;
+  channel: string;
+  // Preselected in the address form when it has no country yet.
+  defaultCountry: string;
+  languageCode: LanguageCodeEnum;
+  customer: Customer | null;
+  i18n: Translator;
+  isTelegram: boolean;
+  addressBookKey: string;
+  paymentsApiUrl: string;
+  authHeader: string | null;
+  // Cart edits are pushed to the checkout while the review step is open.
+  isReviewing: boolean;
+  showToast: (message: string, duration?: number) => void;
+  goToStep: (step: CheckoutStep) => void;
+  onOrderPlaced: (order: CompletedOrder) => void;
+};
+
+// Pause after the last cart edit before the checkout totals are refreshed.
+const CHECKOUT_SYNC_DELAY = 600;
+
+/**
+ * Runs the Saleor checkout for the cart: lines and promo codes, the order
+ * time, the contact and address form, delivery or pickup, payment and
+ * completion. Only one checkout request runs at a time; failures are shown
+ * as toasts.
+ */
+export function useCheckout({
+  request,
+  cart,
+  summary,
+  storeSlug,
+  hours,
+  now,
+  rules,
+  channel,
+  defaultCountry,
+  languageCode,
+  customer,
+  i18n,
+  isTelegram,
+  addressBookKey,
+  paymentsApiUrl,
+  authHeader,
+  isReviewing,
+  showToast,
+  goToStep,
+  onOrderPlaced,
+}: CheckoutOptions) {
+  const { t } = i18n;
+  const [checkout, setCheckout] = useState<Checkout | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [promoCode, setPromoCode] = useState("");
+  const [fulfillment, setFulfillment] = useState<Fulfillment>("delivery");
+  const [contactEmail, setContactEmail] = useState("");
+  const [addressErrors, setAddressErrors] = useState<AddressErrors>({});
+  const [addressBook, setAddressBook] =
+    useState<AddressBook>(EMPTY_ADDRESS_BOOK);
+  const [addressForm, setAddressForm] = useState<AddressInput>(() => ({
+    ...EMPTY_ADDRESS,
+    firstName: customer?.firstName || "",
+    lastName: customer?.lastName || "",
+  }));
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>("idle");
+  // ISO time the order is scheduled for, or null for as soon as possible.
+  const [orderTime, setOrderTime] = useState<string | null>(null);
+  // The cart last pushed to the checkout from the review step.
+  const syncedCartRef = useRef<Map<string, CartEntry> | null>(null);
+
+  // Saved contact details and addresses prefill the delivery step.
+  useEffect(() => {
+    let cancelled = false;
+    readAddressBook(addressBookKey, isTelegram)
+      .then((book) => {
+        if (cancelled) return;
+        setAddressBook(book);
+        setAddressForm((prev) => prefillAddress(prev, book));
+        setContactEmail((prev) => prev || book.contact?.email || "");
+      })
+      .catch((error) => {
+        console.warn("Unable to read saved addresses.", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [addressBookKey, isTelegram]);
+
+  useEffect(() => {
+    if (!defaultCountry) return;
+    setAddressForm((prev) =>
+      prev.country ? prev : { ...prev, country: defaultCountry },
+    );
+  }, [defaultCountry]);
+
+  const unmetRule = describeUnmetRule(rules, summary, i18n);
+  const feeVariantId = serviceFeeApplies(rules, summary)
+    ? rules?.serviceFeeVariantId || null
+    : null;
+
+  const syncCheckout = useCallback(async (): Promise<Checkout> => {
+    const entries = Array.from(cart.entries()).filter(
+      ([, { variant }]) => variant.priceAmount != null,
+    );
+    const feeLines = feeVariantId ? [buildServiceFeeLine(feeVariantId)] : [];
+
+    if (!checkout) {
+      const metadata = [
+        {
+          key: "telegram_user_id",
+          value: customer?.id ? String(customer.id) : "guest",
+        },
+        {
+          key: "telegram_username",
+          value: customer?.username || "",
+        },
+        {
+          key: "store_slug",
+          value: storeSlug,
+        },
+        {
+          key: "telegram_order_total",
+          value: i18n.money(summary.total.amount, summary.total.currency),
+        },
+      ];
+
+      return createCheckout(request, {
+        channel,
+        email: resolveCheckoutEmail(contactEmail, customer),
+        languageCode,
+        lines: [
+          ...entries.map(([key, entry]) => buildCheckoutLine(key, entry, i18n)),
+          ...feeLines,
+        ],
+        metadata,
+      });
+    }
+
+    // Reconcile the existing checkout with the cart line by line, using the
+    // `cart_key` metadata written when each line was added. The service fee
+    // line stays while the fee applies.
+    let current = checkout;
+    const feeLine = findServiceFeeLine(current);
+    const keepsFee = Boolean(feeLine && feeLine.variantId === feeVariantId);
+    const linesByKey = new Map(
+      current.lines
+        .filter((line) => line.cartKey && cart.has(line.cartKey))
+        .map((line) => [line.cartKey!, line]),
+    );
+
+    const obsoleteLineIds = current.lines
+      .filter((line) =>
+        line.cartKey === SERVICE_FEE_KEY
+          ? line !== feeLine || !keepsFee
+          : !line.cartKey || !cart.has(line.cartKey),
+      )
+      .map((line) => line.id);
+    if (obsoleteLineIds.length) {
+      current = await deleteCheckoutLines(request, current.id, obsoleteLineIds);
+    }
+
+    const updates = entries.flatMap(([key, { quantity }]) => {
+      const line = linesByKey.get(key);
+      return line && line.quantity !== quantity
+        ? [{ lineId: line.id, quantity }]
+        : [];
+    });
+    if (updates.length) {
+      current = await updateCheckoutLines(request, current.id, updates);
+    }
+
+    const additions = [
+      ...entries
+        .filter(([key]) => !linesByKey.has(key))
+        .map(([key, entry]) => buildCheckoutLine(key, entry, i18n)),
+      ...(keepsFee ? [] : feeLines),
+    ];
+    if (additions.length) {
+      current = await addCheckoutLines(request, current.id, additions);
+    }
+
+    return current;
+  }, [
+    cart,
+    channel,
+    checkout,
+    contactEmail,
+    customer,
+    feeVariantId,
+    i18n,
+    languageCode,
+    request,
+    storeSlug,
+    summary.total.amount,
+    summary.total.currency,
+  ]);
+
+  const storeOpen = isStoreOpen(hours, now);
+  const timeSlots = useMemo(
+    () =>
+      hours
+        ? buildTimeSlots(hours, now).map((date) => ({
+            value: date.toISOString(),
+            label: formatStoreTime(date, hours.timeZone, i18n.locale, now),
+          }))
+        : [],
+    [hours, i18n.locale, now],
+  );
+
+  useEffect(() => {
+    if (orderTime && Date.parse(orderTime) <= now.getTime()) {
+      setOrderTime(null);
+    }
+  }, [now, orderTime]);
+
+  // Checked again before the order is placed, as time passes in checkout.
+  const checkOrderTime = useCallback((): MessageKey | null => {
+    const current = new Date();
+    if (orderTime) {
+      return Date.parse(orderTime) > current.getTime()
+        ? null
+        : "hours.timePassed";
+    }
+    if (isStoreOpen(hours, current)) return null;
+    return timeSlots.length ? "hours.closedChooseTime" : "hours.closedNoTimes";
+  }, [hours, orderTime, timeSlots.length]);
+
+  const runCheckoutTask = useCallback(
+    async (task: () => Promise<void>) => {
+      if (isSubmitting) return;
+      setIsSubmitting(true);
+      try {
+        await task();
+      } catch (error) {
+        console.error(error);
+        showToast(
+          t("checkout.failed", {
+            error: errorMessage(error) || t("common.unknownError"),
+          }),
+        );
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [isSubmitting, showToast, t],
+  );
+
+  const resetCheckout = useCallback(() => {
+    setCheckout(null);
+    setOrderTime(null);
+  }, []);
+
+  const continueToAddress = useCallback(() => {
+    if (summary.items === 0) {
+      showToast(t("cart.nothingToSubmit"));
+      return;
+    }
+    if (summary.mixedCurrencies) {
+      showToast(t("cart.mixedCurrencies"));
+      return;
+    }
+    if (unmetRule) {
+      showToast(unmetRule);
+      return;
+    }
+    const timeProblem = checkOrderTime();
+    if (timeProblem) {
+      showToast(t(timeProblem));
+      return;
+    }
+
+    runCheckoutTask(async () => {
+      const nextCheckout = await syncCheckout();
+      if (hours) {
+        await updateCheckoutMetadata(
+          request,
+          nextCheckout.id,
+          buildOrderTimeMetadata(orderTime, hours),
+        );
+      }
+      setCheckout(nextCheckout);
+      if (nextCheckout.shippingAddress) {
+        setAddressForm(nextCheckout.shippingAddress);
+      }
+      goToStep("address");
+    });
+  }, [
+    checkOrderTime,
+    goToStep,
+    hours,
+    orderTime,
+    request,
+    runCheckoutTask,
+    showToast,
+    summary.items,
+    summary.mixedCurrencies,
+    syncCheckout,
+    t,
+    unmetRule,
+  ]);
+
+  const applyPromoCode = useCallback(() => {
+    const code = promoCode.trim();
+    if (!code) return;
+
+    runCheckoutTask(async () => {
+      // Codes are applied to the checkout, which may not exist yet.
+      const synced = await syncCheckout();
+      setCheckout(synced);
+      setCheckout(await addPromoCode(request, synced.id, code));
+      setPromoCode("");
+      showToast(t("promo.applied", { code }));
+    });
+  }, [promoCode, request, runCheckoutTask, showToast, syncCheckout, t]);
+
+  const removeAppliedCode = useCallback(
+    (code: { promoCode: string } | { promoCodeId: string }) => {
+      if (!checkout) return;
+      runCheckoutTask(async () => {
+        setCheckout(await removePromoCode(request, checkout.id, code));
+      });
+    },
+    [checkout, request, runCheckoutTask],
+  );
+
+  const checkoutInSync = checkout ? checkoutMatchesCart(checkout, cart) : false;
+
+  // Once a checkout exists, cart edits in the review step are pushed to it
+  // so the summary keeps showing Saleor's totals and discounts.
+  useEffect(() => {
+    if (
+      !isReviewing ||
+      !checkout ||
+      checkoutInSync ||
+      isSubmitting ||
+      // Saleor may still disagree after a sync, e.g. over stock.
+      syncedCartRef.current === cart
+    ) {
+      return;
+    }
+    if (summary.items === 0 || summary.mixedCurrencies) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      syncedCartRef.current = cart;
+      runCheckoutTask(async () => {
+        setCheckout(await syncCheckout());
+      });
+    }, CHECKOUT_SYNC_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [
+    cart,
+    checkout,
+    checkoutInSync,
+    isReviewing,
+    isSubmitting,
+    runCheckoutTask,
+    summary.items,
+    summary.mixedCurrencies,
+    syncCheckout,
+  ]);
+
+  const pickupAvailable = Boolean(
+    checkout?.isShippingRequired && checkout.collectionPoints.length,
+  );
+  const fulfillmentMode: Fulfillment = pickupAvailable
+    ? fulfillment
+    : "delivery";
+
+  const saveAddressBook = useCallback(
+    (book: AddressBook) => {
+      setAddressBook(book);
+      writeAddressBook(addressBookKey, book, isTelegram).catch((error) => {
+        console.warn("Unable to save the address.", error);
+      });
+    },
+    [addressBookKey, isTelegram],
+  );
+
+  const setAddressField = useCallback(
+    (name: keyof AddressInput, value: string) => {
+      setAddressForm((prev) => ({ ...prev, [name]: value }));
+      setAddressErrors(({ [name]: _cleared, ...rest }) => rest);
+    },
+    [],
+  );
+
+  const setEmail = useCallback((value: string) => {
+    setContactEmail(value);
+    setAddressErrors(({ email: _email, ...rest }) => rest);
+  }, []);
+
+  // Saved addresses replace the address fields but keep the contact ones.
+  const pickSavedAddress = useCallback((address: AddressInput) => {
+    setAddressForm((prev) => ({
+      ...address,
+      firstName: prev.firstName,
+      lastName: prev.lastName,
+      phone: prev.phone,
+    }));
+    setAddressErrors({});
+  }, []);
+
+  const sharePhone = useCallback(async () => {
+    const phone = await requestPhoneNumber();
+    if (!phone) {
+      showToast(t("address.phoneNotShared"));
+      return;
+    }
+    setAddressField("phone", phone);
+  }, [setAddressField, showToast, t]);
+
+  const submitAddress = useCallback(() => {
+    if (!checkout) return;
+
+    const errors = validateAddressForm(
+      addressForm,
+      contactEmail,
+      fulfillmentMode,
+    );
+    setAddressErrors(errors);
+    if (Object.keys(errors).length) {
+      showToast(t("checkout.fixFields"));
+      return;
+    }
+
+    runCheckoutTask(async () => {
+      let nextCheckout = checkout;
+      const email = contactEmail.trim();
+      if (email) {
+        nextCheckout = await updateCheckoutEmail(
+          request,
+          nextCheckout.id,
+          email,
+        );
+      }
+      // Pickup orders get their billing address with the collection point.
+      if (fulfillmentMode === "delivery") {
+        nextCheckout = await updateCheckoutAddresses(
+          request,
+          nextCheckout.id,
+          addressForm,
+        );
+      }
+      setCheckout(nextCheckout);
+
+      const book =
+        fulfillmentMode === "delivery"
+          ? rememberAddress(addressBook, addressForm)
+          : addressBook;
+      saveAddressBook({
+        ...book,
+        contact: {
+          firstName: addressForm.firstName.trim(),
+          lastName: addressForm.lastName.trim(),
+          phone: addressForm.phone.trim(),
+          email,
+        },
+      });
+      goToStep("delivery");
+    });
+  }, [
+    addressBook,
+    addressForm,
+    checkout,
+    contactEmail,
+    fulfillmentMode,
+    goToStep,
+    request,
+    runCheckoutTask,
+    saveAddressBook,
+    showToast,
+    t,
+  ]);
+
+  const chooseDeliveryMethod = useCallback(
+    (methodId: string) => {
+      if (!checkout || checkout.deliveryMethodId === methodId) return;
+
+      runCheckoutTask(async () => {
+        setCheckout(await updateDeliveryMethod(request, checkout.id, methodId));
+      });
+    },
+    [checkout, request, runCheckoutTask],
+  );
+
+  const chooseCollectionPoint = useCallback(
+    (point: CollectionPoint) => {
+      if (!checkout || checkout.deliveryMethodId === point.id) return;
+
+      runCheckoutTask(async () => {
+        const nextCheckout = await updateDeliveryMethod(
+          request,
+          checkout.id,
+          point.id,
+        );
+        // Saleor needs a billing address; the collection point stands in
+        // for the customer's own address.
+        setCheckout(
+          await updateBillingAddress(request, nextCheckout.id, {
+            ...(point.address || addressForm),
+            firstName: addressForm.firstName,
+            lastName: addressForm.lastName,
+            phone: addressForm.phone,
+          }),
+        );
+      });
+    },
+    [addressForm, checkout, request, runCheckoutTask],
+  );
+
+  const placeOrder = useCallback(() => {
+    if (!checkout) return;
+
+    if (!hasDeliveryMethod(checkout, fulfillmentMode)) {
+      showToast(t("checkout.chooseDelivery"));
+      return;
+    }
+    const timeProblem = checkOrderTime();
+    if (timeProblem) {
+      showToast(t(timeProblem));
+      return;
+    }
+
+    if (needsPayment(checkout, paymentsApiUrl)) {
+      setPaymentStatus("idle");
+      goToStep("payment");
+      return;
+    }
+
+    runCheckoutTask(async () => {
+      const order = await completeCheckout(request, checkout.id);
+      setCheckout(null);
+      setOrderTime(null);
+      onOrderPlaced(order);
+    });
+  }, [
+    checkOrderTime,
+    checkout,
+    fulfillmentMode,
+    goToStep,
+    onOrderPlaced,
+    paymentsApiUrl,
+    request,
+    runCheckoutTask,
+    showToast,
+    t,
+  ]);
+
+  const payForOrder = useCallback(() => {
+    if (!checkout) return;
+    const timeProblem = checkOrderTime();
+    if (timeProblem) {
+      showToast(t(timeProblem));
+      return;
+    }
+
+    // The bot webhook records the payment and completes the checkout, so the
+    // Mini App only waits for the order to appear.
+    runCheckoutTask(async () => {
+      const invoiceLink = await requestInvoiceLink(
+        paymentsApiUrl,
+        checkout.id,
+        authHeader,
+      );
+      const status = invoiceLink.paid
+        ? "paid"
+        : await openInvoice(invoiceLink.invoiceUrl);
+      setPaymentStatus(status);
+      if (status !== "paid" && status !== "pending") {
+        return;
+      }
+
+      const order = await waitForOrder(paymentsApiUrl, checkout.id, authHeader);
+      if (!order) {
+        setPaymentStatus("pending");
+        return;
+      }
+
+      setPaymentStatus("idle");
+      setCheckout(null);
+      setOrderTime(null);
+      onOrderPlaced(order);
+    });
+  }, [
+    authHeader,
+    checkOrderTime,
+    checkout,
+    onOrderPlaced,
+    paymentsApiUrl,
+    runCheckoutTask,
+    showToast,
+    t,
+  ]);
+
+  return {
+    checkout,
+    checkoutInSync,
+    isSubmitting,
+    promoCode,
+    setPromoCode,
+    unmetRule,
+    serviceFeeNote: describeServiceFee(rules, summary, i18n),
+    canSchedule: Boolean(hours),
+    storeOpen,
+    timeSlots,
+    orderTime,
+    setOrderTime,
+    pickupAvailable,
+    fulfillment: fulfillmentMode,
+    setFulfillment,
+    contactEmail,
+    setEmail,
+    addressForm,
+    addressErrors,
+    addressBook,
+    setAddressField,
+    pickSavedAddress,
+    paymentStatus,
+    needsPayment: needsPayment(checkout, paymentsApiUrl),
+    resetCheckout,
+    continueToAddress,
+    applyPromoCode,
+    removeAppliedCode,
+    sharePhone,
+    submitAddress,
+    chooseDeliveryMethod,
+    chooseCollectionPoint,
+    placeOrder,
+    payForOrder,
+  };
+}
+
+export type CheckoutFlow = ReturnType<typeof useCheckout>;
@@ -0,0 +1,107 @@
+// A place in the catalog that a `startapp` parameter can point to.
+export type StoreLink = {
+  storeSlug: string;
+  categorySlug?: string;
+  productSlug?: string;
+};
+
+// `orders` opens the order history, as sent by the bot's /orders button.
+export type DeepLink = StoreLink | { orders: true };
+
+export const ORDERS_START_PARAM = "orders";
+
+// Telegram only accepts letters, digits, `_` and `-` in `startapp`, up to
+// 512 characters.
+const MAX_START_PARAM_LENGTH = 512;
+const PLAIN_VALUE = /^[A-Za-z0-9-]+$/;
+const SEGMENT_SEPARATOR = "__";
+
+/**
+ * The start parameter of the launch. Links like `t.me/<bot>/<app>?startapp=`
+ * fill `tgWebAppStartParam`; the bot's `web_app` buttons cannot, so they put
+ * `startapp` in the Mini App URL instead.
+ */
+export function readStartParam(launchStartParam: string | null | undefined) {
+  return (
+    launchStartParam ||
+    new URLSearchParams(window.location.search).get("startapp") ||
+    null
+  );
+}
+
+/**
+ * Parses `orders`, `store_<slug>`, `store_<slug>__category_<slug>` and
+ * `store_<slug>__product_<slug>` start parameters. Slugs with other
+ * characters, such as Cyrillic ones, use an `x` suffix on the segment name
+ * and are hex-encoded UTF-8: `storex_d0bcd0b5...`.
+ */
+export function parseStartParam(
+  startParam: string | null | undefined,
+): DeepLink | null {
+  if (!startParam) return null;
+  if (startParam === ORDERS_START_PARAM) return { orders: true };
+
+  const values: Record<string, string> = {};
+  for (const segment of startParam.split(SEGMENT_SEPARATOR)) {
+    const separator = segment.indexOf("_");
+    if (separator <= 0) return null;
+    const name = segment.slice(0, separator);
+    const value = decodeValue(name, segment.slice(separator + 1));
+    if (!value) return null;
+    values[name.replace(/x$/, "")] = value;
+  }
+
+  if (!values.store) return null;
+  return {
+    storeSlug: values.store,
+    categorySlug: values.category,
+    productSlug: values.product,
+  };
+}
+
+export function buildStartParam(link: StoreLink) {
+  const segments = [encodeSegment("store", link.storeSlug)];
+  if (link.productSlug) {
+    segments.push(encodeSegment("product", link.productSlug));
+  } else if (link.categorySlug) {
+    segments.push(encodeSegment("category", link.categorySlug));
+  }
+  const startParam = segments.join(SEGMENT_SEPARATOR);
+  // Too long for Telegram: fall back to the store alone.
+  return startParam.length > MAX_START_PARAM_LENGTH ? segments[0] : startParam;
+}
+
+// `https://t.me/<bot>/<app>?startapp=...` opens the Mini App directly.
+export function buildMiniAppLink(
+  botUsername: string,
+  appName: string,
+  link: StoreLink,
+) {
+  const bot = botUsername.replace(/^@/, "");
+  return `https://t.me/${bot}/${appName}?startapp=${buildStartParam(link)}`;
+}
+
+function encodeSegment(name: string, value: string) {
+  if (PLAIN_VALUE.test(value)) {
+    return `${name}_${value}`;
+  }
+  const hex = Array.from(new TextEncoder().encode(value), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `${name}x_${hex}`;
+}
+
+function decodeValue(name: string, value: string) {
+  if (!name.endsWith("x")) {
+    return PLAIN_VALUE.test(value) ? value : "";
+  }
+  if (!/^(?:[0-9a-f]{2})+$/i.test(value)) return "";
+  const bytes = new Uint8Array(
+    value.match(/../g)!.map((pair) => parseInt(pair, 16)),
+  );
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,3 @@
+export function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "";
+}
@@ -0,0 +1,229 @@
+export const en = {
+  "app.title": "Order goods",
+  "app.subtitle":
+    "Pick a restaurant or shop powered by Saleor to start your Telegram order.",
+  "app.storeSubtitle":
+    "Browse the categories below to add items to your order.",
+  "app.offline": "You are offline. Menus reload once the connection is back.",
+
+  "common.back": "Back",
+  "common.close": "Close",
+  "common.continue": "Continue",
+  "common.mixedCurrencies": "Mixed currencies",
+  "common.retry": "Retry",
+  "common.saving": "Saving…",
+  "common.subtotal": "Subtotal",
+  "common.total": "Total",
+  "common.unknownError": "Unknown error",
+
+  "pull.pull": "Pull down to retry",
+  "pull.release": "Release to retry",
+
+  "settings.language": "Language",
+  "settings.region": "Region",
+
+  "stores.title": "Choose a store",
+  "stores.hint": "Tap a restaurant or shop to see the menu.",
+  "stores.myOrders": "My orders",
+  "stores.search": "Search all stores",
+  "stores.loading": "Loading stores…",
+  "stores.loadingMore": "Loading more stores…",
+  "stores.empty": "No active stores were found in this Saleor channel.",
+  "stores.failed":
+    "Unable to load stores. Pull down or tap Retry to try again.",
+  "stores.loadMoreFailed": "Unable to load more stores.",
+  "stores.cardFallback": "Tap to explore the menu.",
+  "stores.cardMenu": "Menu",
+  "stores.cardView": "View",
+  "stores.unavailable": "This store is no longer available.",
+
+  "menu.backToStores": "◀ Stores",
+  "menu.about": "ℹ About",
+  "menu.noInfo": "We could not find extra info about this store yet.",
+  "menu.search": "Search {store}",
+  "menu.searchFallback": "Search",
+  "menu.categories": "Menu categories",
+  "menu.uncategorized": "Menu",
+  "menu.emptyCategory":
+    "This category has no products right now. Try another one.",
+  "menu.selectCategory": "Select a category to view items.",
+  "menu.failed":
+    "Unable to load products. Pull down or tap Retry to try again.",
+  "menu.loadFailed": "Unable to load products for this store.",
+  "menu.loadMoreFailed": "Unable to load more products.",
+  "menu.loadingMore": "Loading more products…",
+
+  "search.searching": "Searching…",
+  "search.noResults": "Nothing matches “{query}”.",
+  "search.failed": "Search is unavailable right now. Try again later.",
+
+  "product.showDetails": "Show details for {name}",
+  "product.noDescription": "No description yet.",
+  "product.from": "from {price}",
+  "product.view": "View",
+  "product.options": "Options",
+  "product.optionsInCart": "Options · {count}",
+  "product.add": "Add",
+  "product.required": "Required",
+  "product.optional": "Optional",
+  "product.chooseOptions": "Choose {groups} to add this item.",
+  "product.noVariants":
+    "This product has no variants available in this channel.",
+  "product.sku": "SKU: {sku}",
+  "product.variant": "Variant: {name}",
+  "product.defaultVariant": "Default variant",
+  "product.outOfStock": "Out of stock",
+  "product.inStock": "{count} in stock",
+  "product.fewLeft": "Only {count} left",
+  "product.share": "Share",
+  "product.otherCurrency":
+    "This item is priced in {itemCurrency}, but your cart is in {cartCurrency}.",
+
+  "links.copied": "Link copied.",
+  "links.shareFailed": "Unable to share this link.",
+  "links.productUnavailable": "This product is no longer on the menu.",
+  "links.categoryUnavailable": "This category is no longer on the menu.",
+
+  "cart.items": { one: "{count} item", other: "{count} items" },
+  "cart.reviewOrder": "Review order",
+  "cart.reviewOrderTotal": "Review order · {total}",
+  "cart.reviewOrderMixed": "Review order · mixed currencies",
+  "cart.empty": "Your cart is empty. Add some products to place an order.",
+  "cart.store": "Store",
+  "cart.restored": "Restored your saved cart.",
+  "cart.changed": "Your saved cart changed: {notices}.",
+  "cart.reordered": "Added your previous order to the cart.",
+  "cart.reorderChanged": "Some items changed since your order: {notices}.",
+  "cart.removed": "removed {items}",
+  "cart.reduced": "reduced {items}",
+  "cart.repriced": "new price for {items}",
+  "cart.itemsLeft": "{name} ({count} left)",
+  "cart.newPrice": "{name} (now {price})",
+  "cart.stockLimit": "Only {count} of {name} left.",
+  "cart.checkChanged":
+    "Stock or prices changed since you added these items. Check the highlighted lines.",
+  "cart.checkRemoved": "No longer available: {items}.",
+  "cart.quantityWas": "Only {count} left, you had {previous}",
+  "cart.priceWas": "Price was {price}",
+  "cart.unavailableItem": "an item that is no longer on the menu",
+  "cart.nothingToSubmit": "Nothing to submit. Add items first.",
+  "cart.mixedCurrencies":
+    "Your cart has items in different currencies. Remove some to continue.",
+
+  "checkout.step.review": "Review order",
+  "checkout.step.address": "Delivery details",
+  "checkout.step.delivery": "Delivery method",
+  "checkout.step.payment": "Payment",
+  "checkout.step.pickup": "Pickup point",
+  "checkout.failed": "Checkout failed: {error}",
+  "checkout.fixFields": "Please check the highlighted fields.",
+  "checkout.chooseDelivery": "Choose a delivery method first.",
+  "checkout.noDelivery":
+    "This store does not deliver to the address you entered.",
+  "checkout.noDeliveryNeeded": "No delivery is needed for this order.",
+  "checkout.delivery": "Delivery",
+  "checkout.serviceFee": "Service fee",
+  "checkout.discount": "Discount",
+  "checkout.discountNamed": "Discount · {name}",
+  "checkout.giftCard": "Gift card ••••{code}",
+  "checkout.giftCardBalance": "balance {balance}",
+  "checkout.placing": "Placing order…",
+  "checkout.toPayment": "Continue to payment",
+  "checkout.placeOrder": "Place order",
+  "checkout.toPay": "To pay",
+  "checkout.waitingForPayment": "Waiting for payment…",
+  "checkout.pay": "Pay",
+  "checkout.tryAgain": "Try again",
+
+  "promo.placeholder": "Promo code or gift card",
+  "promo.apply": "Apply",
+  "promo.applied": "Code {code} applied.",
+  "promo.remove": "Remove {code}",
+
+  "delivery.today": "Today",
+  "delivery.days": { one: "{count} day", other: "{count} days" },
+  "delivery.dayRange": "{min}–{max} days",
+
+  "address.firstName": "First name",
+  "address.lastName": "Last name",
+  "address.phone": "Phone",
+  "address.streetAddress1": "Street address",
+  "address.streetAddress2": "Apartment, floor",
+  "address.city": "City",
+  "address.postalCode": "Postal code",
+  "address.countryArea": "Region",
+  "address.country": "Country",
+  "address.email": "Email (optional)",
+  "address.sharePhone": "Use my Telegram number",
+  "address.phoneNotShared":
+    "Telegram did not share your phone number. Please type it in.",
+  "address.saved": "Saved addresses",
+  "address.required": "Required",
+  "address.invalidPhone":
+    "Enter the number with the country code, e.g. +44 20 7946 0958",
+  "address.invalidEmail": "Enter a valid email address",
+  "address.invalidCountry": "Use a two-letter country code, e.g. GB",
+
+  "fulfillment.label": "How to get your order",
+  "fulfillment.delivery": "Delivery",
+  "fulfillment.pickup": "Pickup",
+
+  "hours.open": "Open now",
+  "hours.openUntil": "Open until {time}",
+  "hours.closed": "Closed",
+  "hours.opensAt": "Closed · opens {time}",
+  "hours.orderTime": "When",
+  "hours.asap": "As soon as possible",
+  "hours.chooseTime": "Choose a time",
+  "hours.closedChooseTime":
+    "The store is closed right now. Choose a time for your order.",
+  "hours.closedNoTimes":
+    "The store is closed and takes no orders for today or tomorrow.",
+  "hours.timePassed": "The chosen time has passed. Please choose another one.",
+
+  "rules.maxItems": {
+    one: "Up to {count} item per order",
+    other: "Up to {count} items per order",
+  },
+  "rules.addMore": "Add {amount} more to order",
+  "rules.serviceFee": "A service fee is added at checkout.",
+  "rules.serviceFeeUntil": "Add {amount} more to skip the service fee.",
+
+  "payment.idle":
+    "Pay securely with Telegram. Your order is placed once the payment succeeds.",
+  "payment.paid": "Payment received. Placing your order…",
+  "payment.pending":
+    "Your payment is still being processed. Try again in a moment or contact the store.",
+  "payment.cancelled":
+    "The payment was cancelled. You can try again when you are ready.",
+  "payment.failed":
+    "The payment failed. Please check your payment details and try again.",
+
+  "orders.title": "My orders",
+  "orders.hint": "Your recent orders across all stores.",
+  "orders.stores": "Stores",
+  "orders.loading": "Loading orders…",
+  "orders.empty":
+    "You have no orders yet. Pick a store to place your first one.",
+  "orders.failed": "Unable to load your orders. Try again later.",
+  "orders.failedToast": "Unable to load your orders.",
+  "orders.number": "Order #{number}",
+  "orders.item": "Item",
+  "orders.reorder": "Reorder",
+
+  "order.placed": "Order #{number} placed",
+  "order.received": "{store} has received your order.",
+  "order.receivedGeneric": "The store has received your order.",
+  "order.placedAt": "Placed",
+  "order.done": "Done",
+
+  "status.UNCONFIRMED": "Unconfirmed",
+  "status.UNFULFILLED": "Unfulfilled",
+  "status.PARTIALLY_FULFILLED": "Partially fulfilled",
+  "status.FULFILLED": "Fulfilled",
+  "status.PARTIALLY_RETURNED": "Partially returned",
+  "status.RETURNED": "Returned",
+  "status.CANCELED": "Canceled",
+  "status.DRAFT": "Draft",
+  "status.EXPIRED": "Expired",
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { createTranslator, resolveLocale, toLanguageCode } from "./index";
+
+describe("createTranslator", () => {
+  it("fills in params and picks plural forms", () => {
+    const en = createTranslator("en");
+    expect(en.t("cart.items", { count: 1 })).toBe("1 item");
+    expect(en.t("cart.items", { count: 3 })).toBe("3 items");
+    expect(en.t("cart.itemsLeft", { name: "Latte", count: 2 })).toBe(
+      "Latte (2 left)",
+    );
+  });
+
+  it("uses the Russian plural forms", () => {
+    const ru = createTranslator("ru");
+    const forms = [1, 2, 5].map((count) => ru.t("cart.items", { count }));
+    expect(new Set(forms).size).toBe(3);
+  });
+
+  it("formats money for the locale", () => {
+    expect(createTranslator("en").money(1234.5, "USD")).toBe("$1,234.50");
+    expect(createTranslator("ru").money(1234.5, "RUB")).toMatch(
+      /^1\s234,50\s₽$/,
+    );
+  });
+
+  it("uses the fraction digits of the currency", () => {
+    expect(createTranslator("en").money(1000, "JPY")).toBe("¥1,000");
+    expect(createTranslator("en").money(1000, "KRW")).toBe("₩1,000");
+    expect(createTranslator("en").money(1.5, "BHD")).toMatch(/^BHD\s1\.500$/);
+  });
+
+  it("falls back to the amount and code for unknown currencies", () => {
+    expect(createTranslator("en").money(5, "")).toBe("5.00");
+    expect(createTranslator("en").money(5, "not-a-code")).toBe(
+      "5.00 not-a-code",
+    );
+  });
+});
+
+describe("locales", () => {
+  it("resolves Telegram language codes", () => {
+    expect(resolveLocale("ru")).toBe("ru");
+    expect(resolveLocale("de")).toBe("en");
+    expect(resolveLocale(undefined)).toBe("en");
+    expect(toLanguageCode("ru")).toBe("RU");
+  });
+});
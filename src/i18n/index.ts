@@ -0,0 +1,93 @@
+import type { LanguageCodeEnum } from "../api/generated";
+import { en } from "./en";
+import { ru } from "./ru";
+
+type PluralMessage = { [rule in Intl.LDMLPluralRule]?: string } & {
+  other: string;
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string | PluralMessage>;
+
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES = ["en", "ru"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+// Shown in the language picker, so every name is written in its own language.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  ru: "Русский",
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, ru };
+
+export type Translator = {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  has: (key: string) => key is MessageKey;
+  money: (amount: number, currency: string) => string;
+  dateTime: (value: string) => string;
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Maps a Telegram `languageCode` such as `ru` or `en-US` to a supported
+ * locale, falling back to English.
+ */
+export function resolveLocale(languageCode: string | null | undefined) {
+  const language = (languageCode || "").toLowerCase().split(/[-_]/)[0];
+  return isLocale(language) ? language : "en";
+}
+
+// Saleor `translation(languageCode:)` arguments use upper-case enum values.
+export function toLanguageCode(locale: Locale): LanguageCodeEnum {
+  return locale === "ru" ? "RU" : "EN";
+}
+
+/**
+ * Creates a translator for one locale. `{name}` placeholders are replaced
+ * with params, and plural messages pick their form from `params.count`
+ * with `Intl.PluralRules`.
+ */
+export function createTranslator(locale: Locale): Translator {
+  const messages = CATALOGS[locale];
+  const pluralRules = new Intl.PluralRules(locale);
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = messages[key];
+    const template =
+      typeof message === "string"
+        ? message
+        : (message[pluralRules.select(Number(params.count ?? 0))] ??
+          message.other);
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder,
+    );
+  };
+
+  return {
+    locale,
+    t,
+    has: (key: string): key is MessageKey => key in messages,
+    money: (amount, currency) => formatMoney(amount, currency, locale),
+    dateTime: (value) => new Date(value).toLocaleString(locale),
+  };
+}
+
+function formatMoney(amount: number, currency: string, locale: Locale) {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      currencyDisplay: "symbol",
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency || ""}`.trim();
+  }
+}
@@ -0,0 +1,236 @@
+import type { Messages } from "./index";
+
+export const ru: Messages = {
+  "app.title": "Заказ товаров",
+  "app.subtitle":
+    "Выберите ресторан или магазин на Saleor, чтобы оформить заказ в Telegram.",
+  "app.storeSubtitle": "Выберите категорию ниже и добавьте товары в заказ.",
+  "app.offline": "Нет подключения. Меню обновится, когда связь появится.",
+
+  "common.back": "Назад",
+  "common.close": "Закрыть",
+  "common.continue": "Продолжить",
+  "common.mixedCurrencies": "Разные валюты",
+  "common.retry": "Повторить",
+  "common.saving": "Сохраняем…",
+  "common.subtotal": "Товары",
+  "common.total": "Итого",
+  "common.unknownError": "Неизвестная ошибка",
+
+  "pull.pull": "Потяните вниз, чтобы повторить",
+  "pull.release": "Отпустите, чтобы повторить",
+
+  "settings.language": "Язык",
+  "settings.region": "Регион",
+
+  "stores.title": "Выберите магазин",
+  "stores.hint": "Нажмите на ресторан или магазин, чтобы открыть меню.",
+  "stores.myOrders": "Мои заказы",
+  "stores.search": "Поиск по всем магазинам",
+  "stores.loading": "Загружаем магазины…",
+  "stores.loadingMore": "Загружаем ещё магазины…",
+  "stores.empty": "В этом канале Saleor нет активных магазинов.",
+  "stores.failed":
+    "Не удалось загрузить магазины. Потяните вниз или нажмите «Повторить».",
+  "stores.loadMoreFailed": "Не удалось загрузить ещё магазины.",
+  "stores.cardFallback": "Нажмите, чтобы открыть меню.",
+  "stores.cardMenu": "Меню",
+  "stores.cardView": "Открыть",
+  "stores.unavailable": "Этот магазин больше недоступен.",
+
+  "menu.backToStores": "◀ Магазины",
+  "menu.about": "ℹ О магазине",
+  "menu.noInfo": "Мы пока не нашли дополнительной информации о магазине.",
+  "menu.search": "Поиск в «{store}»",
+  "menu.searchFallback": "Поиск",
+  "menu.categories": "Категории меню",
+  "menu.uncategorized": "Меню",
+  "menu.emptyCategory": "В этой категории пока нет товаров. Выберите другую.",
+  "menu.selectCategory": "Выберите категорию, чтобы увидеть товары.",
+  "menu.failed":
+    "Не удалось загрузить товары. Потяните вниз или нажмите «Повторить».",
+  "menu.loadFailed": "Не удалось загрузить товары этого магазина.",
+  "menu.loadMoreFailed": "Не удалось загрузить ещё товары.",
+  "menu.loadingMore": "Загружаем ещё товары…",
+
+  "search.searching": "Ищем…",
+  "search.noResults": "По запросу «{query}» ничего не найдено.",
+  "search.failed": "Поиск сейчас недоступен. Попробуйте позже.",
+
+  "product.showDetails": "Подробнее о товаре {name}",
+  "product.noDescription": "Описания пока нет.",
+  "product.from": "от {price}",
+  "product.view": "Открыть",
+  "product.options": "Опции",
+  "product.optionsInCart": "Опции · {count}",
+  "product.add": "Добавить",
+  "product.required": "Обязательно",
+  "product.optional": "Необязательно",
+  "product.chooseOptions": "Выберите {groups}, чтобы добавить товар.",
+  "product.noVariants": "В этом канале у товара нет доступных вариантов.",
+  "product.sku": "Артикул: {sku}",
+  "product.variant": "Вариант: {name}",
+  "product.defaultVariant": "Основной вариант",
+  "product.outOfStock": "Нет в наличии",
+  "product.inStock": "В наличии: {count}",
+  "product.fewLeft": "Осталось {count} шт.",
+  "product.share": "Поделиться",
+  "product.otherCurrency":
+    "Цена этого товара в {itemCurrency}, а корзина в {cartCurrency}.",
+
+  "links.copied": "Ссылка скопирована.",
+  "links.shareFailed": "Не удалось поделиться ссылкой.",
+  "links.productUnavailable": "Этого товара больше нет в меню.",
+  "links.categoryUnavailable": "Этой категории больше нет в меню.",
+
+  "cart.items": {
+    one: "{count} товар",
+    few: "{count} товара",
+    many: "{count} товаров",
+    other: "{count} товара",
+  },
+  "cart.reviewOrder": "Проверить заказ",
+  "cart.reviewOrderTotal": "Проверить заказ · {total}",
+  "cart.reviewOrderMixed": "Проверить заказ · разные валюты",
+  "cart.empty": "Корзина пуста. Добавьте товары, чтобы оформить заказ.",
+  "cart.store": "Магазин",
+  "cart.restored": "Сохранённая корзина восстановлена.",
+  "cart.changed": "Сохранённая корзина изменилась: {notices}.",
+  "cart.reordered": "Прошлый заказ добавлен в корзину.",
+  "cart.reorderChanged": "С момента заказа кое-что изменилось: {notices}.",
+  "cart.removed": "удалено: {items}",
+  "cart.reduced": "уменьшено: {items}",
+  "cart.repriced": "новая цена: {items}",
+  "cart.itemsLeft": "{name} (осталось {count})",
+  "cart.newPrice": "{name} (теперь {price})",
+  "cart.stockLimit": "{name}: осталось только {count} шт.",
+  "cart.checkChanged":
+    "С момента добавления изменились наличие или цены. Проверьте выделенные позиции.",
+  "cart.checkRemoved": "Больше нет в наличии: {items}.",
+  "cart.quantityWas": "Осталось {count} шт., было {previous}",
+  "cart.priceWas": "Цена была {price}",
+  "cart.unavailableItem": "товар, которого больше нет в меню",
+  "cart.nothingToSubmit": "Нечего отправлять. Сначала добавьте товары.",
+  "cart.mixedCurrencies":
+    "В корзине товары в разных валютах. Удалите лишние, чтобы продолжить.",
+
+  "checkout.step.review": "Проверка заказа",
+  "checkout.step.address": "Данные доставки",
+  "checkout.step.delivery": "Способ доставки",
+  "checkout.step.payment": "Оплата",
+  "checkout.step.pickup": "Пункт самовывоза",
+  "checkout.failed": "Не удалось оформить заказ: {error}",
+  "checkout.fixFields": "Проверьте выделенные поля.",
+  "checkout.chooseDelivery": "Сначала выберите способ доставки.",
+  "checkout.noDelivery": "Магазин не доставляет по указанному адресу.",
+  "checkout.noDeliveryNeeded": "Для этого заказа доставка не нужна.",
+  "checkout.delivery": "Доставка",
+  "checkout.serviceFee": "Сервисный сбор",
+  "checkout.discount": "Скидка",
+  "checkout.discountNamed": "Скидка · {name}",
+  "checkout.giftCard": "Подарочная карта ••••{code}",
+  "checkout.giftCardBalance": "остаток {balance}",
+  "checkout.placing": "Оформляем заказ…",
+  "checkout.toPayment": "Перейти к оплате",
+  "checkout.placeOrder": "Оформить заказ",
+  "checkout.toPay": "К оплате",
+  "checkout.waitingForPayment": "Ожидаем оплату…",
+  "checkout.pay": "Оплатить",
+  "checkout.tryAgain": "Попробовать снова",
+
+  "promo.placeholder": "Промокод или подарочная карта",
+  "promo.apply": "Применить",
+  "promo.applied": "Код {code} применён.",
+  "promo.remove": "Удалить {code}",
+
+  "delivery.today": "Сегодня",
+  "delivery.days": {
+    one: "{count} день",
+    few: "{count} дня",
+    many: "{count} дней",
+    other: "{count} дня",
+  },
+  "delivery.dayRange": "{min}–{max} дн.",
+
+  "address.firstName": "Имя",
+  "address.lastName": "Фамилия",
+  "address.phone": "Телефон",
+  "address.streetAddress1": "Улица и дом",
+  "address.streetAddress2": "Квартира, этаж",
+  "address.city": "Город",
+  "address.postalCode": "Индекс",
+  "address.countryArea": "Регион",
+  "address.country": "Страна",
+  "address.email": "Эл. почта (необязательно)",
+  "address.sharePhone": "Взять номер из Telegram",
+  "address.phoneNotShared":
+    "Telegram не передал номер телефона. Введите его вручную.",
+  "address.saved": "Сохранённые адреса",
+  "address.required": "Обязательное поле",
+  "address.invalidPhone":
+    "Введите номер с кодом страны, например +7 900 123-45-67",
+  "address.invalidEmail": "Введите корректный адрес почты",
+  "address.invalidCountry": "Укажите двухбуквенный код страны, например RU",
+
+  "fulfillment.label": "Способ получения",
+  "fulfillment.delivery": "Доставка",
+  "fulfillment.pickup": "Самовывоз",
+
+  "hours.open": "Открыто",
+  "hours.openUntil": "Открыто до {time}",
+  "hours.closed": "Закрыто",
+  "hours.opensAt": "Закрыто · откроется {time}",
+  "hours.orderTime": "Когда",
+  "hours.asap": "Как можно скорее",
+  "hours.chooseTime": "Выберите время",
+  "hours.closedChooseTime":
+    "Сейчас заведение закрыто. Выберите время для заказа.",
+  "hours.closedNoTimes":
+    "Заведение закрыто и не принимает заказы на сегодня и завтра.",
+  "hours.timePassed": "Выбранное время уже прошло. Выберите другое.",
+
+  "rules.maxItems": {
+    one: "Не больше {count} товара в заказе",
+    other: "Не больше {count} товаров в заказе",
+  },
+  "rules.addMore": "Добавьте ещё на {amount}, чтобы оформить заказ",
+  "rules.serviceFee": "При оформлении добавляется сервисный сбор.",
+  "rules.serviceFeeUntil":
+    "Добавьте ещё на {amount}, чтобы не платить сервисный сбор.",
+
+  "payment.idle":
+    "Безопасная оплата через Telegram. Заказ будет оформлен после успешной оплаты.",
+  "payment.paid": "Оплата получена. Оформляем заказ…",
+  "payment.pending":
+    "Платёж ещё обрабатывается. Попробуйте чуть позже или свяжитесь с магазином.",
+  "payment.cancelled": "Оплата отменена. Можно попробовать снова.",
+  "payment.failed":
+    "Оплата не прошла. Проверьте платёжные данные и попробуйте снова.",
+
+  "orders.title": "Мои заказы",
+  "orders.hint": "Ваши недавние заказы во всех магазинах.",
+  "orders.stores": "Магазины",
+  "orders.loading": "Загружаем заказы…",
+  "orders.empty": "Заказов пока нет. Выберите магазин, чтобы сделать первый.",
+  "orders.failed": "Не удалось загрузить заказы. Попробуйте позже.",
+  "orders.failedToast": "Не удалось загрузить заказы.",
+  "orders.number": "Заказ №{number}",
+  "orders.item": "Товар",
+  "orders.reorder": "Повторить заказ",
+
+  "order.placed": "Заказ №{number} оформлен",
+  "order.received": "«{store}» получил ваш заказ.",
+  "order.receivedGeneric": "Магазин получил ваш заказ.",
+  "order.placedAt": "Оформлен",
+  "order.done": "Готово",
+
+  "status.UNCONFIRMED": "Не подтверждён",
+  "status.UNFULFILLED": "Собирается",
+  "status.PARTIALLY_FULFILLED": "Частично выполнен",
+  "status.FULFILLED": "Выполнен",
+  "status.PARTIALLY_RETURNED": "Частично возвращён",
+  "status.RETURNED": "Возвращён",
+  "status.CANCELED": "Отменён",
+  "status.DRAFT": "Черновик",
+  "status.EXPIRED": "Истёк",
+};
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { buildStorageKey, readStoredValue, writeStoredValue } from "../storage";
+import {
+  createTranslator,
+  isLocale,
+  resolveLocale,
+  toLanguageCode,
+  type Locale,
+} from "./index";
+
+type LocaleOptions = {
+  userId: number | undefined;
+  // Language of the Telegram client, used until the user picks another.
+  telegramLanguageCode: string | undefined;
+  isTelegram: boolean;
+};
+
+/**
+ * Resolves the language of the app. A language picked in the app is stored
+ * and wins over the Telegram language; `isReady` turns true once the stored
+ * choice has been read, so stores can load in it from the start.
+ */
+export function useLocale({
+  userId,
+  telegramLanguageCode,
+  isTelegram,
+}: LocaleOptions) {
+  const [localeOverride, setLocaleOverride] = useState<Locale | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const locale = localeOverride || resolveLocale(telegramLanguageCode);
+  const i18n = useMemo(() => createTranslator(locale), [locale]);
+  const storageKey = buildStorageKey(
+    "locale",
+    userId ? String(userId) : "guest",
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    readStoredValue(storageKey, isTelegram)
+      .catch(() => null)
+      .then((stored) => {
+        if (cancelled) return;
+        if (isLocale(stored)) {
+          setLocaleOverride(stored);
+        }
+        setIsReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isTelegram, storageKey]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const selectLocale = useCallback(
+    (next: Locale) => {
+      if (next === locale) return;
+      setLocaleOverride(next);
+      writeStoredValue(storageKey, next, isTelegram).catch((error) => {
+        console.warn("Unable to save the language.", error);
+      });
+    },
+    [isTelegram, locale, storageKey],
+  );
+
+  return {
+    locale,
+    i18n,
+    languageCode: toLanguageCode(locale),
+    isReady,
+    selectLocale,
+  };
+}
@@ -7,6 +7,7 @@ import {
   viewport,
   backButton,
   mainButton,
+  swipeBehavior,
 } from "@tma.js/sdk-react";
 
 import App from "./App";
@@ -40,6 +41,14 @@ function bootstrap() {
     console.warn("Viewport not available.", error);
   }
 
+  // Pull-to-refresh needs vertical swipes, which otherwise minimize the app.
+  try {
+    swipeBehavior.mount();
+    swipeBehavior.disableVertical();
+  } catch (error) {
+    console.warn("Swipe behavior unavailable.", error);
+  }
+
   try {
     backButton.mount();
     mainButton.mount();
@@ -0,0 +1,60 @@
+import type { CompletedOrder } from "../api/checkout";
+import type { Translator } from "../i18n";
+
+type OrderConfirmationProps = {
+  order: CompletedOrder;
+  storeName: string | null;
+  i18n: Translator;
+  onDone: () => void;
+};
+
+export function OrderConfirmation({
+  order,
+  storeName,
+  i18n,
+  onDone,
+}: OrderConfirmationProps) {
+  const { t } = i18n;
+  return (
+    <section
+      id="order-confirmation-view"
+      className="view view--active"
+      aria-labelledby="order-confirmation-title"
+    >
+      <div className="empty-state order-confirmation" role="status">
+        <h2 id="order-confirmation-title">
+          {t("order.placed", { number: order.number })}
+        </h2>
+        <p>
+          {storeName
+            ? t("order.received", { store: storeName })
+            : t("order.receivedGeneric")}
+        </p>
+        <div className="order-summary">
+          <div className="order-summary__row">
+            <span>{t("common.total")}</span>
+            <strong>
+              {order.total
+                ? i18n.money(order.total.amount, order.total.currency)
+                : "—"}
+            </strong>
+          </div>
+          {order.created && (
+            <div className="order-summary__row">
+              <span>{t("order.placedAt")}</span>
+              <span>{i18n.dateTime(order.created)}</span>
+            </div>
+          )}
+        </div>
+        <button
+          type="button"
+          className="cta-button"
+          id="order-confirmation-done-btn"
+          onClick={onDone}
+        >
+          {t("order.done")}
+        </button>
+      </div>
+    </section>
+  );
+}
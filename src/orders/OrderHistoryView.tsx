@@ -0,0 +1,117 @@
+import type { Store } from "../api/catalog";
+import type { MessageKey, Translator } from "../i18n";
+import type { OrderHistoryEntry } from "./orderHistory";
+
+type OrderHistoryViewProps = {
+  orders: OrderHistoryEntry[];
+  message: MessageKey | "";
+  // Loaded stores, used to name the store of each order.
+  stores: Store[];
+  i18n: Translator;
+  onClose: () => void;
+  onReorder: (order: OrderHistoryEntry) => void;
+};
+
+export function OrderHistoryView({
+  orders,
+  message,
+  stores,
+  i18n,
+  onClose,
+  onReorder,
+}: OrderHistoryViewProps) {
+  const { t } = i18n;
+  return (
+    <section
+      id="orders-view"
+      className="view view--active"
+      aria-labelledby="orders-view-title"
+    >
+      <div className="view-header view-header--with-action">
+        <div>
+          <h2 id="orders-view-title">{t("orders.title")}</h2>
+          <p>{t("orders.hint")}</p>
+        </div>
+        <button
+          type="button"
+          className="option-chip"
+          id="orders-close-btn"
+          onClick={onClose}
+        >
+          {t("orders.stores")}
+        </button>
+      </div>
+      <div className="order-history" id="order-history" role="list">
+        {orders.map((order) => {
+          const store = stores.find(({ slug }) => slug === order.storeSlug);
+          return (
+            <article
+              className="order-history__card"
+              key={order.id}
+              role="listitem"
+            >
+              <div className="order-summary__row">
+                <strong>{t("orders.number", { number: order.number })}</strong>
+                <span className="order-history__status">
+                  {formatStatus(order.status, i18n)}
+                </span>
+              </div>
+              <span className="order-line__meta">
+                {[
+                  store?.name || order.storeSlug,
+                  order.created ? i18n.dateTime(order.created) : "",
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+              <ul className="order-history__lines">
+                {order.lines.map((line, index) => (
+                  <li key={`${line.variantId}-${index}`}>
+                    {line.quantity} × {line.productName || t("orders.item")}
+                    {line.variantName ? ` (${line.variantName})` : ""}
+                    {line.optionsLabel && (
+                      <span className="order-line__meta">
+                        {" "}
+                        · {line.optionsLabel}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <div className="order-summary__row">
+                <span>{t("common.total")}</span>
+                <strong>
+                  {order.total
+                    ? i18n.money(order.total.amount, order.total.currency)
+                    : "—"}
+                </strong>
+              </div>
+              <button
+                type="button"
+                className="add-button order-history__reorder"
+                disabled={!order.storeSlug || !order.lines.length}
+                onClick={() => onReorder(order)}
+              >
+                {t("orders.reorder")}
+              </button>
+            </article>
+          );
+        })}
+      </div>
+      {message && (
+        <div className="empty-state" id="orders-empty" role="status">
+          {t(message)}
+        </div>
+      )}
+    </section>
+  );
+}
+
+// Translates Saleor order statuses; values added by newer Saleor versions
+// fall back to a readable form, e.g. `ON_HOLD` becomes "On hold".
+function formatStatus(status: string, i18n: Translator) {
+  const key = `status.${status}`;
+  if (i18n.has(key)) return i18n.t(key);
+  const label = status.toLowerCase().replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import type { CompletedOrder } from "../api/checkout";
+import type { CartEntry } from "../cart/cartStore";
+import { createTranslator } from "../i18n";
+import { makeOptionGroup, makeProduct, makeVariant } from "../test/fixtures";
+import { buildHistoryEntry, toSavedCartLines } from "./orderHistory";
+
+const i18n = createTranslator("en");
+
+const order: CompletedOrder = {
+  id: "order-1",
+  number: "1042",
+  status: "UNFULFILLED",
+  created: "2026-10-18T09:30:00Z",
+  total: { amount: 10, currency: "USD" },
+};
+
+describe("order history entries", () => {
+  const group = makeOptionGroup();
+  const entry: CartEntry = {
+    product: makeProduct({ optionGroups: [group] }),
+    variant: makeVariant(),
+    options: [
+      { groupSlug: "milk", groupName: "Milk", choice: group.choices[0] },
+    ],
+    quantity: 2,
+  };
+
+  it("keeps the ids needed to order again", () => {
+    const historyEntry = buildHistoryEntry(
+      order,
+      "central",
+      new Map([["variant-1|choice-oat", entry]]),
+      i18n,
+    );
+
+    expect(historyEntry).toMatchObject({
+      id: "order-1",
+      number: "1042",
+      storeSlug: "central",
+      total: { amount: 10, currency: "USD" },
+    });
+    expect(historyEntry.lines).toEqual([
+      {
+        productId: "product-1",
+        variantId: "variant-1",
+        choiceIds: ["choice-oat"],
+        productName: "Latte",
+        variantName: "Regular",
+        optionsLabel: `Milk: Oat (+${i18n.money(0.5, "USD")})`,
+        quantity: 2,
+      },
+    ]);
+  });
+
+  it("turns orders into cart lines without prices", () => {
+    const historyEntry = buildHistoryEntry(
+      order,
+      "central",
+      new Map([["variant-1|choice-oat", entry]]),
+      i18n,
+    );
+    historyEntry.lines.push({ ...historyEntry.lines[0], quantity: 0 });
+
+    expect(toSavedCartLines(historyEntry)).toEqual([
+      {
+        productId: "product-1",
+        variantId: "variant-1",
+        choiceIds: ["choice-oat"],
+        quantity: 2,
+        unitPrice: null,
+        productName: "Latte",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import type { CompletedOrder, Money } from "../api/checkout";
+import type { SavedCartLine } from "../cart/cartStorage";
+import type { CartEntry } from "../cart/cartStore";
+import { describeOptions } from "../catalog/options";
+import type { Translator } from "../i18n";
+import { buildStorageKey, readStoredValue, writeStoredValue } from "../storage";
+
+export type OrderHistoryLine = {
+  productId: string;
+  variantId: string;
+  choiceIds: string[];
+  productName: string;
+  variantName: string;
+  optionsLabel: string;
+  quantity: number;
+};
+
+export type OrderHistoryEntry = {
+  id: string;
+  number: string;
+  status: string;
+  created: string;
+  storeSlug: string;
+  total: Money | null;
+  lines: OrderHistoryLine[];
+};
+
+// Orders kept on the device when no orders endpoint is configured.
+const STORED_ORDERS_LIMIT = 10;
+
+/**
+ * Loads the orders of the Telegram user from the `/api/orders` Function,
+ * which matches them on the `telegram_user_id` metadata.
+ */
+export async function fetchOrderHistory(
+  apiUrl: string,
+  authHeader: string | null,
+): Promise<OrderHistoryEntry[]> {
+  const headers: HeadersInit = {};
+  if (authHeader) {
+    headers.Authorization = authHeader;
+  }
+
+  const response = await fetch(apiUrl, { headers });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !Array.isArray(payload?.orders)) {
+    throw new Error(
+      payload?.error || `Order history request failed (${response.status}).`,
+    );
+  }
+
+  return payload.orders;
+}
+
+export function buildOrdersStorageKey(
+  userId: number | string | null | undefined,
+) {
+  return buildStorageKey("orders", userId ? String(userId) : "guest");
+}
+
+export async function readStoredOrders(
+  key: string,
+  isTelegram: boolean,
+): Promise<OrderHistoryEntry[]> {
+  const raw = await readStoredValue(key, isTelegram);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const orders = JSON.parse(raw);
+    return Array.isArray(orders) ? orders : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Prepends an order to the stored history. CloudStorage values are limited
+ * to 4096 characters, so older orders are dropped until the history fits.
+ */
+export async function storeOrder(
+  key: string,
+  order: OrderHistoryEntry,
+  isTelegram: boolean,
+) {
+  const orders = [
+    order,
+    ...(await readStoredOrders(key, isTelegram)).filter(
+      ({ id }) => id !== order.id,
+    ),
+  ].slice(0, STORED_ORDERS_LIMIT);
+
+  let value = JSON.stringify(orders);
+  while (value.length > 4096 && orders.length > 1) {
+    orders.pop();
+    value = JSON.stringify(orders);
+  }
+  await writeStoredValue(key, value, isTelegram);
+}
+
+/**
+ * Builds the history entry of a placed order from the cart it was placed
+ * with, keeping the ids needed to order it again.
+ */
+export function buildHistoryEntry(
+  order: CompletedOrder,
+  storeSlug: string,
+  cart: Map<string, CartEntry>,
+  i18n: Translator,
+): OrderHistoryEntry {
+  return {
+    id: order.id,
+    number: order.number,
+    status: order.status,
+    created: order.created,
+    storeSlug,
+    total: order.total,
+    lines: Array.from(cart.values()).map(
+      ({ product, variant, options, quantity }) => ({
+        productId: product.id,
+        variantId: variant.id,
+        choiceIds: options.map(({ choice }) => choice.id),
+        productName: product.name,
+        variantName: variant.name,
+        optionsLabel: describeOptions(
+          options,
+          variant.priceCurrency || "",
+          i18n,
+        ),
+        quantity,
+      }),
+    ),
+  };
+}
+
+/**
+ * Turns order lines into saved cart lines so reordering goes through the
+ * same reconciliation as a restored cart.
+ */
+export function toSavedCartLines(order: OrderHistoryEntry): SavedCartLine[] {
+  return order.lines
+    .filter((line) => line.quantity > 0)
+    .map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      choiceIds: line.choiceIds,
+      quantity: line.quantity,
+      unitPrice: null,
+      productName: line.productName,
+    }));
+}
@@ -0,0 +1,100 @@
+import { useCallback, useState } from "react";
+
+import type { Store } from "../api/catalog";
+import type { CompletedOrder } from "../api/checkout";
+import type { SavedCartLine } from "../cart/cartStorage";
+import type { CartEntry } from "../cart/cartStore";
+import { errorMessage } from "../errors";
+import type { MessageKey, Translator } from "../i18n";
+import type { ShowToast } from "../useToast";
+import {
+  buildHistoryEntry,
+  buildOrdersStorageKey,
+  fetchOrderHistory,
+  readStoredOrders,
+  storeOrder,
+  toSavedCartLines,
+  type OrderHistoryEntry,
+} from "./orderHistory";
+
+type OrderHistoryOptions = {
+  // The `/api/orders` Function; without it the history lives on the device.
+  apiUrl: string;
+  authHeader: string | null;
+  userId: number | undefined;
+  isTelegram: boolean;
+  i18n: Translator;
+  showToast: ShowToast;
+  findStore: (slug: string) => Promise<Store | null>;
+};
+
+/**
+ * Loads, records and reorders the orders of the Telegram user.
+ */
+export function useOrderHistory({
+  apiUrl,
+  authHeader,
+  userId,
+  isTelegram,
+  i18n,
+  showToast,
+  findStore,
+}: OrderHistoryOptions) {
+  const { t } = i18n;
+  const [orders, setOrders] = useState<OrderHistoryEntry[]>([]);
+  const [message, setMessage] = useState<MessageKey | "">("orders.loading");
+
+  const loadOrderHistory = useCallback(async () => {
+    setMessage("orders.loading");
+    try {
+      const loaded = apiUrl
+        ? await fetchOrderHistory(apiUrl, authHeader)
+        : await readStoredOrders(buildOrdersStorageKey(userId), isTelegram);
+      setOrders(loaded);
+      setMessage(loaded.length ? "" : "orders.empty");
+    } catch (error) {
+      console.error(error);
+      setOrders([]);
+      setMessage("orders.failed");
+      showToast(errorMessage(error) || t("orders.failedToast"));
+    }
+  }, [apiUrl, authHeader, isTelegram, showToast, t, userId]);
+
+  // The orders endpoint finds placed orders by their metadata, so only the
+  // history on the device needs them written down.
+  const recordOrder = useCallback(
+    (
+      order: CompletedOrder,
+      storeSlug: string,
+      cart: Map<string, CartEntry>,
+    ) => {
+      if (apiUrl) return;
+      storeOrder(
+        buildOrdersStorageKey(userId),
+        buildHistoryEntry(order, storeSlug, cart, i18n),
+        isTelegram,
+      ).catch((error) => {
+        console.warn("Unable to save the order.", error);
+      });
+    },
+    [apiUrl, i18n, isTelegram, userId],
+  );
+
+  // Finds the store of a past order and the lines to put back in its cart.
+  // Resolves to null, after telling the user, when the store is gone.
+  const prepareReorder = useCallback(
+    async (
+      order: OrderHistoryEntry,
+    ): Promise<{ store: Store; lines: SavedCartLine[] } | null> => {
+      const store = await findStore(order.storeSlug);
+      if (!store) {
+        showToast(t("stores.unavailable"));
+        return null;
+      }
+      return { store, lines: toSavedCartLines(order) };
+    },
+    [findStore, showToast, t],
+  );
+
+  return { orders, message, loadOrderHistory, recordOrder, prepareReorder };
+}
@@ -0,0 +1,120 @@
+import type { DeepLink } from "./deepLinks";
+
+export type CheckoutStep = "review" | "address" | "delivery" | "payment";
+
+export type Route =
+  | { name: "stores" }
+  | { name: "orders" }
+  | { name: "store"; storeSlug: string; categorySlug?: string }
+  | { name: "product"; storeSlug: string; productSlug: string }
+  | { name: "order"; storeSlug: string; step: CheckoutStep };
+
+export const ROOT_ROUTE: Route = { name: "stores" };
+
+const CHECKOUT_STEPS: CheckoutStep[] = [
+  "review",
+  "address",
+  "delivery",
+  "payment",
+];
+
+/**
+ * Reads routes from hashes such as `#/orders`, `#/store/<slug>`,
+ * `#/store/<slug>/category/<slug>`, `#/store/<slug>/product/<slug>` and
+ * `#/store/<slug>/order/<step>`. Anything else, including the Telegram
+ * launch parameters, is not a route.
+ */
+export function parseRoute(hash: string): Route | null {
+  if (!hash.startsWith("#/")) return null;
+
+  const parts = hash.slice(2).split("/").filter(Boolean);
+  let segments: string[];
+  try {
+    segments = parts.map((part) => decodeURIComponent(part));
+  } catch {
+    return null;
+  }
+
+  const [section, storeSlug, view, value] = segments;
+  if (!section) return ROOT_ROUTE;
+  if (section === "orders" && segments.length === 1) return { name: "orders" };
+  if (section !== "store" || !storeSlug) return null;
+
+  if (!view && segments.length === 2) return { name: "store", storeSlug };
+  if (!value || segments.length !== 4) return null;
+  if (view === "category") {
+    return { name: "store", storeSlug, categorySlug: value };
+  }
+  if (view === "product") {
+    return { name: "product", storeSlug, productSlug: value };
+  }
+  if (view === "order" && CHECKOUT_STEPS.includes(value as CheckoutStep)) {
+    return { name: "order", storeSlug, step: value as CheckoutStep };
+  }
+  return null;
+}
+
+export function formatRoute(route: Route) {
+  const path = (...segments: string[]) =>
+    `#/${segments.map((segment) => encodeURIComponent(segment)).join("/")}`;
+
+  switch (route.name) {
+    case "stores":
+      return "#/";
+    case "orders":
+      return path("orders");
+    case "store":
+      return route.categorySlug
+        ? path("store", route.storeSlug, "category", route.categorySlug)
+        : path("store", route.storeSlug);
+    case "product":
+      return path("store", route.storeSlug, "product", route.productSlug);
+    case "order":
+      return path("store", route.storeSlug, "order", route.step);
+  }
+}
+
+/**
+ * The screen the back button leads to when there is no history entry to
+ * return to, e.g. after a reload or when the app was opened from a link.
+ */
+export function parentRoute(route: Route): Route | null {
+  switch (route.name) {
+    case "stores":
+      return null;
+    case "orders":
+    case "store":
+      return ROOT_ROUTE;
+    case "product":
+      return { name: "store", storeSlug: route.storeSlug };
+    case "order": {
+      const index = CHECKOUT_STEPS.indexOf(route.step);
+      return index > 0
+        ? { ...route, step: CHECKOUT_STEPS[index - 1] }
+        : { name: "store", storeSlug: route.storeSlug };
+    }
+  }
+}
+
+export function routeFromDeepLink(link: DeepLink): Route {
+  if ("orders" in link) {
+    return { name: "orders" };
+  }
+  if (link.productSlug) {
+    return {
+      name: "product",
+      storeSlug: link.storeSlug,
+      productSlug: link.productSlug,
+    };
+  }
+  return {
+    name: "store",
+    storeSlug: link.storeSlug,
+    categorySlug: link.categorySlug,
+  };
+}
+
+// The store a route belongs to, if any.
+export function routeStoreSlug(route: Route) {
+  return "storeSlug" in route ? route.storeSlug : null;
+}
@@ -0,0 +1,155 @@
+import { cloudStorage } from "@tma.js/sdk-react";
+
+// Telegram CloudStorage keys are limited to 128 characters and values to
+// 4096. Longer values are split into parts stored under `<key>__p<n>`, so
+// keys leave room for that suffix.
+const KEY_LIMIT = 124;
+const VALUE_LIMIT = 4096;
+const MAX_PARTS = 8;
+const PARTS_MARKER = "~parts:";
+
+const SAFE_PART_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Builds a CloudStorage key from its parts. CloudStorage keys may only
+ * contain letters, digits, `_` and `-`: parts made of anything else, such as
+ * Cyrillic slugs, are written as `_` and their UTF-8 bytes in hex, so two
+ * different parts never map to the same key. Keys that are still too long
+ * end in a hash of the full key.
+ */
+export function buildStorageKey(...parts: string[]) {
+  const key = parts
+    .map((part) => (SAFE_PART_PATTERN.test(part) ? part : `_${toHex(part)}`))
+    .join("_");
+  if (key.length <= KEY_LIMIT) {
+    return key;
+  }
+  const hash = hashString(key);
+  return `${key.slice(0, KEY_LIMIT - hash.length - 1)}_${hash}`;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(value: string) {
+  return Array.from(encoder.encode(value), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+// 53-bit string hash (cyrb53); collisions only matter for keys over the
+// limit, which carry most of their readable parts as well.
+function hashString(value: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < value.length; index += 1) {
+    const code = value.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(36).padStart(11, "0");
+}
+
+function partKey(key: string, index: number) {
+  return `${key}__p${index}`;
+}
+
+// Splits a value into CloudStorage-sized parts without cutting a surrogate
+// pair in half.
+function splitValue(value: string) {
+  const parts: string[] = [];
+  let start = 0;
+  while (start < value.length) {
+    let end = Math.min(start + VALUE_LIMIT, value.length);
+    const last = value.charCodeAt(end - 1);
+    if (end < value.length && last >= 0xd800 && last <= 0xdbff) {
+      end -= 1;
+    }
+    parts.push(value.slice(start, end));
+    start = end;
+  }
+  return parts;
+}
+
+function canUseCloudStorage(isTelegram: boolean) {
+  try {
+    return isTelegram && cloudStorage.isSupported();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a value from Telegram CloudStorage inside Telegram and from
+ * localStorage in browser mode.
+ */
+export async function readStoredValue(key: string, isTelegram: boolean) {
+  if (!canUseCloudStorage(isTelegram)) {
+    return window.localStorage.getItem(key);
+  }
+
+  const value = await cloudStorage.getItem(key);
+  if (!value.startsWith(PARTS_MARKER)) {
+    return value;
+  }
+  const count = Number(value.slice(PARTS_MARKER.length));
+  if (!Number.isInteger(count) || count < 1 || count > MAX_PARTS) {
+    return "";
+  }
+  const keys = Array.from({ length: count }, (_, index) =>
+    partKey(key, index + 1),
+  );
+  const parts = await cloudStorage.getItems(keys);
+  return keys.map((name) => parts[name] || "").join("");
+}
+
+/**
+ * Writes a value to the same storage as `readStoredValue`. A `null` value
+ * deletes the key. Values over the CloudStorage limit are split into parts;
+ * parts left from a longer earlier value are deleted with the key.
+ */
+export async function writeStoredValue(
+  key: string,
+  value: string | null,
+  isTelegram: boolean,
+) {
+  if (!canUseCloudStorage(isTelegram)) {
+    if (value == null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, value);
+    }
+    return;
+  }
+
+  const allPartKeys = Array.from({ length: MAX_PARTS }, (_, index) =>
+    partKey(key, index + 1),
+  );
+  if (value == null) {
+    await cloudStorage.deleteItem([key, ...allPartKeys]);
+    return;
+  }
+  if (value.length <= VALUE_LIMIT) {
+    await cloudStorage.setItem(key, value);
+    return;
+  }
+
+  const parts = splitValue(value);
+  if (parts.length > MAX_PARTS) {
+    throw new Error(`The value for ${key} is too large to store.`);
+  }
+  // Parts go first so the marker never points at parts that are missing.
+  await Promise.all(
+    parts.map((part, index) =>
+      cloudStorage.setItem(partKey(key, index + 1), part),
+    ),
+  );
+  await cloudStorage.setItem(key, `${PARTS_MARKER}${parts.length}`);
+  if (parts.length < MAX_PARTS) {
+    await cloudStorage.deleteItem(allPartKeys.slice(parts.length));
+  }
+}
@@ -0,0 +1,21 @@
+import { requestContact } from "@tma.js/sdk-react";
+
+/**
+ * Asks Telegram to share the user's phone number. Resolves to `null` when
+ * the user declines or the Telegram client does not support the request.
+ */
+export async function requestPhoneNumber(): Promise<string | null> {
+  if (!requestContact.isAvailable()) {
+    return null;
+  }
+
+  try {
+    const { contact } = await requestContact();
+    const digits = String(contact.phone_number || "").replace(/\D/g, "");
+    // Telegram sends the number without the leading `+`.
+    return digits ? `+${digits}` : null;
+  } catch (error) {
+    console.warn("Telegram did not share the contact.", error);
+    return null;
+  }
+}
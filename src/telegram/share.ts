@@ -0,0 +1,23 @@
+import { shareURL } from "@tma.js/sdk-react";
+
+/**
+ * Opens the Telegram share dialog for `url`. Outside Telegram, or when the
+ * dialog cannot open, the link is copied instead and `"copied"` is
+ * returned. Rejects when copying fails too.
+ */
+export async function shareLink(
+  url: string,
+  text: string,
+): Promise<"shared" | "copied"> {
+  if (shareURL.isAvailable()) {
+    try {
+      shareURL(url, text);
+      return "shared";
+    } catch (error) {
+      console.warn("Telegram could not open the share dialog.", error);
+    }
+  }
+
+  await navigator.clipboard.writeText(url);
+  return "copied";
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from "react";
+import { backButton } from "@tma.js/sdk-react";
+
+/**
+ * Shows the Telegram BackButton while `visible` and calls the latest
+ * `onClick` when it is pressed. Does nothing outside Telegram.
+ */
+export function useBackButton(
+  isTelegram: boolean,
+  visible: boolean,
+  onClick: () => void,
+) {
+  const onClickRef = useRef(onClick);
+  onClickRef.current = onClick;
+
+  useEffect(() => {
+    if (!isTelegram) {
+      return;
+    }
+    if (visible) {
+      backButton.show();
+    } else {
+      backButton.hide();
+    }
+  }, [isTelegram, visible]);
+
+  useEffect(() => {
+    if (!isTelegram) {
+      return;
+    }
+    const off = backButton.onClick(() => onClickRef.current());
+
+    return () => {
+      off();
+    };
+  }, [isTelegram]);
+}
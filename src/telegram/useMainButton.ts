@@ -0,0 +1,61 @@
+import { useEffect, useRef } from "react";
+import { mainButton } from "@tma.js/sdk-react";
+
+export type MainButtonState = {
+  text: string;
+  isEnabled: boolean;
+  isLoaderVisible: boolean;
+};
+
+/**
+ * Shows the Telegram MainButton with `state`, or hides it when `state` is
+ * null, and calls the latest `onClick` when it is pressed. The button takes
+ * the app's accent colours. Does nothing outside Telegram.
+ */
+export function useMainButton(
+  isTelegram: boolean,
+  state: MainButtonState | null,
+  onClick: () => void,
+) {
+  const onClickRef = useRef(onClick);
+  onClickRef.current = onClick;
+
+  const { text = "", isEnabled = false, isLoaderVisible = false } = state || {};
+  const isVisible = Boolean(state);
+
+  useEffect(() => {
+    if (!isTelegram) {
+      return;
+    }
+    if (!isVisible) {
+      mainButton.hide();
+      mainButton.setParams({ isVisible: false });
+      return;
+    }
+
+    const styles = getComputedStyle(document.documentElement);
+    const buttonColor = styles.getPropertyValue("--accent-color")?.trim();
+    const buttonTextColor = styles.getPropertyValue("--accent-text")?.trim();
+
+    mainButton.setParams({
+      text,
+      bgColor: (buttonColor as `#${string}`) || undefined,
+      textColor: (buttonTextColor as `#${string}`) || undefined,
+      isVisible: true,
+      isEnabled,
+      isLoaderVisible,
+    });
+    mainButton.show();
+  }, [isEnabled, isLoaderVisible, isTelegram, isVisible, text]);
+
+  useEffect(() => {
+    if (!isTelegram) {
+      return;
+    }
+    const off = mainButton.onClick(() => onClickRef.current());
+
+    return () => {
+      off();
+    };
+  }, [isTelegram]);
+}
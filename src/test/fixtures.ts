@@ -0,0 +1,99 @@
+import type {
+  Category,
+  OptionGroup,
+  Product,
+  ProductVariant,
+  Store,
+} from "../api/catalog";
+import type { CartSummary } from "../cart/cartStore";
+
+// Builders for mapped catalog objects; tests override what they check.
+
+export function makeVariant(
+  overrides: Partial<ProductVariant> = {},
+): ProductVariant {
+  return {
+    id: "variant-1",
+    name: "Regular",
+    sku: "SKU-1",
+    quantityAvailable: null,
+    priceAmount: 4.5,
+    priceCurrency: "USD",
+    ...overrides,
+  };
+}
+
+export function makeProduct(overrides: Partial<Product> = {}): Product {
+  const variants = overrides.variants || [makeVariant()];
+  return {
+    id: "product-1",
+    slug: "latte",
+    name: "Latte",
+    description: "",
+    image: "",
+    imageAlt: "",
+    variants,
+    optionGroups: [],
+    priceAmount: variants[0]?.priceAmount ?? null,
+    priceCurrency: variants[0]?.priceCurrency ?? null,
+    ...overrides,
+  };
+}
+
+export function makeOptionGroup(
+  overrides: Partial<OptionGroup> = {},
+): OptionGroup {
+  return {
+    id: "group-milk",
+    slug: "milk",
+    name: "Milk",
+    required: false,
+    multiple: false,
+    choices: [
+      { id: "choice-oat", name: "Oat", priceDelta: 0.5 },
+      { id: "choice-soy", name: "Soy", priceDelta: 0 },
+    ],
+    defaultChoiceIds: [],
+    ...overrides,
+  };
+}
+
+export function makeCategory(
+  products: Product[],
+  overrides: Partial<Category> = {},
+): Category {
+  return {
+    id: "category-1",
+    slug: "coffee",
+    name: "Coffee",
+    products,
+    ...overrides,
+  };
+}
+
+export function makeStore(overrides: Partial<Store> = {}): Store {
+  return {
+    id: "store-1",
+    slug: "central",
+    name: "Central",
+    description: "",
+    image: "",
+    imageAlt: "",
+    hours: null,
+    rules: {
+      minOrderAmount: {},
+      maxItems: null,
+      serviceFeeVariantId: null,
+      serviceFeeBelow: {},
+    },
+    ...overrides,
+  };
+}
+
+export function makeSummary(
+  amount: number,
+  currency = "USD",
+  items = 1,
+): CartSummary {
+  return { items, total: { amount, currency }, mixedCurrencies: false };
+}
@@ -0,0 +1,123 @@
+import { vi } from "vitest";
+
+import channels from "./saleor/channels.json";
+import checkoutComplete from "./saleor/checkoutComplete.json";
+import checkoutCreate from "./saleor/checkoutCreate.json";
+import collectionProducts from "./saleor/collectionProducts.json";
+import storeCollections from "./saleor/storeCollections.json";
+
+type GraphQLResponse = { data?: unknown; errors?: { message: string }[] };
+type Resolver = (variables: Record<string, any>) => GraphQLResponse;
+
+export type SaleorCall = { operation: string; variables: Record<string, any> };
+
+// Saleor prices the oat latte line at the variant price (2 × $4.50); the
+// GraphQL proxy then sets the option price (2 × $5.00) and returns the
+// checkout read again, which is what the app receives in production.
+const OPTION_LINE_ID = "Q2hlY2tvdXRMaW5lOjEwMQ==";
+const OPTION_LINE_TOTAL = 10;
+
+const checkout = withLineTotal(
+  checkoutCreate.data.checkoutCreate.checkout,
+  OPTION_LINE_ID,
+  OPTION_LINE_TOTAL,
+);
+const productNodes = collectionProducts.data.collection.products.edges.map(
+  ({ node }) => node,
+);
+
+// The recorded responses, keyed by operation name. The store list is served
+// as a single page.
+const DEFAULT_RESOLVERS: Record<string, Resolver> = {
+  Channels: () => channels,
+  StoreCollections: () => ({
+    data: {
+      collections: {
+        ...storeCollections.data.collections,
+        pageInfo: { hasNextPage: false, endCursor: null },
+      },
+    },
+  }),
+  CollectionProducts: () => collectionProducts,
+  ProductsByIds: ({ ids }) => ({
+    data: {
+      products: {
+        edges: productNodes
+          .filter(({ id }) => ids.includes(id))
+          .map((node) => ({ node })),
+      },
+    },
+  }),
+  CheckoutCreate: () => ({
+    data: { checkoutCreate: { checkout, errors: [] } },
+  }),
+  CheckoutMetadataUpdate: () => ({
+    data: { updateMetadata: { errors: [] } },
+  }),
+  CheckoutAddressesUpdate: () => ({
+    data: {
+      checkoutShippingAddressUpdate: { errors: [] },
+      checkoutBillingAddressUpdate: { checkout, errors: [] },
+    },
+  }),
+  CheckoutComplete: () => checkoutComplete,
+};
+
+/**
+ * Serves Saleor GraphQL from the recorded fixtures through a mocked `fetch`.
+ * `resolvers` replace the fixture of an operation, e.g. to answer with
+ * errors. Every request is recorded in `calls`; unknown operations fail the
+ * request with a GraphQL error.
+ */
+export function mockSaleorServer(resolvers: Record<string, Resolver> = {}) {
+  const calls: SaleorCall[] = [];
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init?: RequestInit) => {
+      const { query, variables = {} } = JSON.parse(String(init?.body));
+      const operation =
+        String(query).match(/^\s*(?:query|mutation)\s+(\w+)/)?.[1] || "";
+      calls.push({ operation, variables });
+
+      const resolve = resolvers[operation] || DEFAULT_RESOLVERS[operation];
+      const body = resolve
+        ? resolve(variables)
+        : { errors: [{ message: `Unknown operation ${operation}.` }] };
+      return new Response(JSON.stringify(body), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }),
+  );
+
+  return calls;
+}
+
+type RecordedCheckout = typeof checkoutCreate.data.checkoutCreate.checkout;
+
+// The checkout with the line total of `lineId` set to `amount` and the
+// subtotal and total moved by the same difference.
+function withLineTotal(
+  recorded: RecordedCheckout,
+  lineId: string,
+  amount: number,
+): RecordedCheckout {
+  const line = recorded.lines.find(({ id }) => id === lineId)!;
+  const difference = amount - line.totalPrice.gross.amount;
+  const shift = (money: { gross: { amount: number; currency: string } }) => ({
+    gross: { ...money.gross, amount: money.gross.amount + difference },
+  });
+  return {
+    ...recorded,
+    lines: recorded.lines.map((entry) =>
+      entry.id === lineId
+        ? {
+            ...entry,
+            totalPrice: { gross: { ...entry.totalPrice.gross, amount } },
+          }
+        : entry,
+    ),
+    subtotalPrice: shift(recorded.subtotalPrice),
+    totalPrice: shift(recorded.totalPrice),
+  };
+}
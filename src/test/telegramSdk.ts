@@ -0,0 +1,67 @@
+import { vi } from "vitest";
+
+// Stand-in for `@tma.js/sdk-react` in component tests:
+// `vi.mock("@tma.js/sdk-react", () => import("../test/telegramSdk"))`.
+// The app runs as inside Telegram, with CloudStorage unsupported so stored
+// values go to localStorage.
+
+export const launchParams = {
+  tgWebAppData: {
+    user: {
+      id: 42,
+      firstName: "Ada",
+      lastName: "Lovelace",
+      username: "ada",
+      languageCode: "en",
+    },
+  },
+  tgWebAppStartParam: undefined as string | undefined,
+};
+
+export const rawInitData = "user=%7B%22id%22%3A42%7D&hash=test";
+
+function createButton() {
+  let listener: (() => void) | null = null;
+  return {
+    show: vi.fn(),
+    hide: vi.fn(),
+    setParams: vi.fn(),
+    onClick: vi.fn((next: () => void) => {
+      listener = next;
+      return () => {
+        if (listener === next) listener = null;
+      };
+    }),
+    // Presses the button like a tap in Telegram.
+    click() {
+      listener?.();
+    },
+  };
+}
+
+export const mainButton = createButton();
+export const backButton = createButton();
+
+export const isTMA = () => true;
+export const useLaunchParams = () => launchParams;
+export const useRawInitData = () => rawInitData;
+export const useSignal = <T>(signal: () => T) => signal();
+export const themeParams = { isDark: () => false };
+export const cloudStorage = { isSupported: () => false };
+
+const unavailable = () => false;
+export const invoice = {
+  openUrl: Object.assign(vi.fn(), { isAvailable: unavailable }),
+};
+export const requestContact = Object.assign(vi.fn(), {
+  isAvailable: unavailable,
+});
+export const shareURL = Object.assign(vi.fn(), { isAvailable: unavailable });
+
+/**
+ * The latest parameters the app gave the MainButton.
+ */
+export function mainButtonParams() {
+  return mainButton.setParams.mock.lastCall?.[0] as
+    { text: string; isEnabled: boolean; isVisible: boolean } | undefined;
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Calls `onLoadMore` when the returned sentinel element scrolls into view.
+ * The observer is recreated whenever `enabled` flips back on, so a sentinel
+ * that is still visible after a page arrives requests the next page.
+ */
+export function useInfiniteScroll<T extends Element>(
+  onLoadMore: () => void,
+  enabled: boolean,
+) {
+  const sentinelRef = useRef<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: "240px 0px" },
+    );
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [enabled]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Returns the current time, updated at the start of every minute so opening
+ * hours and order times follow the clock while the app stays open.
+ */
+export function useMinuteClock() {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    let timer = 0;
+    const schedule = () => {
+      timer = window.setTimeout(
+        () => {
+          setNow(new Date());
+          schedule();
+        },
+        60000 - (Date.now() % 60000),
+      );
+    };
+    schedule();
+    return () => window.clearTimeout(timer);
+  }, []);
+
+  return now;
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Tracks `navigator.onLine`. Browsers only report that a network interface
+ * is up, so requests can still fail while this says online.
+ */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(() =>
+    typeof navigator === "undefined" ? true : navigator.onLine !== false,
+  );
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine !== false);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+
+// Pull distance in pixels that triggers a refresh.
+const PULL_THRESHOLD = 72;
+// Finger movement is damped so the indicator trails behind the touch.
+const PULL_RESISTANCE = 0.5;
+
+/**
+ * Calls `onRefresh` when the page is pulled down from the very top. Returns
+ * the current pull distance so the caller can render an indicator; it is
+ * reset once the touch ends.
+ */
+export function usePullToRefresh(onRefresh: () => void, enabled: boolean) {
+  const [pullDistance, setPullDistance] = useState(0);
+  const onRefreshRef = useRef(onRefresh);
+  onRefreshRef.current = onRefresh;
+
+  useEffect(() => {
+    if (!enabled) {
+      setPullDistance(0);
+      return;
+    }
+
+    let startY: number | null = null;
+    let distance = 0;
+
+    const onTouchStart = (event: TouchEvent) => {
+      startY =
+        window.scrollY <= 0 && event.touches.length === 1
+          ? event.touches[0].clientY
+          : null;
+      distance = 0;
+    };
+    const onTouchMove = (event: TouchEvent) => {
+      if (startY === null) return;
+      distance = Math.max(
+        0,
+        (event.touches[0].clientY - startY) * PULL_RESISTANCE,
+      );
+      setPullDistance(Math.min(distance, PULL_THRESHOLD * 1.5));
+    };
+    const reset = () => {
+      startY = null;
+      distance = 0;
+      setPullDistance(0);
+    };
+    const onTouchEnd = () => {
+      if (startY !== null && distance >= PULL_THRESHOLD) {
+        onRefreshRef.current();
+      }
+      reset();
+    };
+
+    window.addEventListener("touchstart", onTouchStart, { passive: true });
+    window.addEventListener("touchmove", onTouchMove, { passive: true });
+    window.addEventListener("touchend", onTouchEnd);
+    window.addEventListener("touchcancel", reset);
+    return () => {
+      window.removeEventListener("touchstart", onTouchStart);
+      window.removeEventListener("touchmove", onTouchMove);
+      window.removeEventListener("touchend", onTouchEnd);
+      window.removeEventListener("touchcancel", reset);
+    };
+  }, [enabled]);
+
+  return { pullDistance, threshold: PULL_THRESHOLD };
+}
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  formatRoute,
+  parentRoute,
+  parseRoute,
+  ROOT_ROUTE,
+  type Route,
+} from "./router";
+
+type HistoryState = {
+  // Every route from the first screen to the current one.
+  routes: Route[];
+};
+
+export type NavigateOptions = {
+  // Replaces the current entry instead of adding one, e.g. for tab changes.
+  replace?: boolean;
+};
+
+/**
+ * Keeps a navigation stack in `history` entries and the URL hash, so the
+ * browser back button, reloads and the Telegram BackButton all move through
+ * the same screens. `initialRoute` is used when the URL has no route.
+ */
+export function useRouter(initialRoute: () => Route) {
+  const [stack, setStack] = useState<Route[]>(() => {
+    const route = parseRoute(window.location.hash);
+    const saved = readStack(window.history.state);
+    if (
+      route &&
+      saved &&
+      formatRoute(saved[saved.length - 1]) === formatRoute(route)
+    ) {
+      return saved;
+    }
+    return [route || initialRoute()];
+  });
+  const stackRef = useRef(stack);
+
+  useEffect(() => {
+    const routes = stackRef.current;
+    const state: HistoryState = { routes };
+    window.history.replaceState(
+      state,
+      "",
+      formatRoute(routes[routes.length - 1]),
+    );
+
+    const onPopState = (event: PopStateEvent) => {
+      // Hashes typed into the address bar arrive without a state.
+      const next = readStack(event.state) || [
+        parseRoute(window.location.hash) || ROOT_ROUTE,
+      ];
+      stackRef.current = next;
+      setStack(next);
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => {
+      window.removeEventListener("popstate", onPopState);
+    };
+  }, []);
+
+  const navigate = useCallback(
+    (route: Route, { replace = false }: NavigateOptions = {}) => {
+      const current = stackRef.current;
+      const url = formatRoute(route);
+      if (url === formatRoute(current[current.length - 1])) return;
+
+      const next = replace
+        ? [...current.slice(0, -1), route]
+        : [...current, route];
+      const state: HistoryState = { routes: next };
+      if (replace) {
+        window.history.replaceState(state, "", url);
+      } else {
+        window.history.pushState(state, "", url);
+      }
+      stackRef.current = next;
+      setStack(next);
+    },
+    [],
+  );
+
+  // Without an earlier entry, e.g. after a reload, the parent screen
+  // replaces the current one.
+  const back = useCallback(() => {
+    const current = stackRef.current;
+    if (current.length > 1) {
+      window.history.back();
+      return;
+    }
+    const parent = parentRoute(current[0]);
+    if (parent) {
+      navigate(parent, { replace: true });
+    }
+  }, [navigate]);
+
+  // Goes back past every screen above the last one matching `match`.
+  const backTo = useCallback(
+    (match: (route: Route) => boolean, fallback: Route) => {
+      const current = stackRef.current;
+      for (let index = current.length - 2; index >= 0; index -= 1) {
+        if (match(current[index])) {
+          window.history.go(index - (current.length - 1));
+          return;
+        }
+      }
+      navigate(fallback, { replace: true });
+    },
+    [navigate],
+  );
+
+  const route = stack[stack.length - 1];
+  return {
+    route,
+    canGoBack: parentRoute(route) !== null,
+    navigate,
+    back,
+    backTo,
+  };
+}
+
+function readStack(state: unknown): Route[] | null {
+  const routes = (state as Partial<HistoryState> | null)?.routes;
+  return Array.isArray(routes) && routes.length ? routes : null;
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type ShowToast = (message: string, duration?: number) => void;
+
+/**
+ * Holds the single toast of the app. A new message replaces the one on
+ * screen and restarts its timer.
+ */
+export function useToast() {
+  const [toast, setToast] = useState<{ message: string; visible: boolean }>({
+    message: "",
+    visible: false,
+  });
+  const timerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        window.clearTimeout(timerRef.current);
+      }
+    };
+  }, []);
+
+  const showToast = useCallback<ShowToast>((message, duration = 2800) => {
+    setToast({ message, visible: true });
+    if (timerRef.current) {
+      window.clearTimeout(timerRef.current);
+    }
+    timerRef.current = window.setTimeout(() => {
+      setToast((prev) => ({ ...prev, visible: false }));
+    }, duration);
+  }, []);
+
+  return { toast, showToast };
+}
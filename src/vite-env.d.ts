@@ -4,6 +4,12 @@ interface ImportMetaEnv {
   readonly VITE_SALEOR_API_URL?: string;
   readonly VITE_SALEOR_CHANNEL?: string;
   readonly VITE_SALEOR_DOCS_URL?: string;
+  readonly VITE_PAYMENTS_API_URL?: string;
+  readonly VITE_GRAPHQL_PROXY_URL?: string;
+  readonly VITE_ORDERS_API_URL?: string;
+  readonly VITE_CATALOG_CACHE_TTL?: string;
+  readonly VITE_TG_BOT_USERNAME?: string;
+  readonly VITE_TG_APP_NAME?: string;
 }
 
 interface ImportMeta {